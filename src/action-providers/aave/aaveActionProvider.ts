@@ -20,16 +20,11 @@ import {
 import {
   AAVE_LENDING_POOL,
   AAVE_LENDING_POOL_ABI,
-  CELO_TOKEN,
-  USDC_TOKEN,
-  cUSD_TOKEN,
-  cEUR_TOKEN,
   ERC20_ABI,
   InterestRateMode,
   AaveToken,
   NON_COLLATERAL_TOKENS,
   DEFAULT_REFERRAL_CODE,
-  USDT_TOKEN,
 } from "./constants";
 import {
   AaveError,
@@ -39,9 +34,14 @@ import {
   TransactionFailedError,
   NonCollateralTokenError,
   HealthFactorTooLowError,
+  UnsupportedNetworkError,
 } from "./errors";
 import { getAaveDashboard, getAaveDashboardSummary } from "./aaveUIDataProvider";
 import { getWalletTokensSummary } from "./walletScanner";
+import { describeTransactionResult } from "../../utils/deferred-transaction";
+import { withTransactionBundle } from "../../utils/transaction-utils";
+import { findCeloNetwork } from "../../network/registry";
+import { getTokensWithRole } from "../../network/tokens";
 
 /**
  * 🏦 AaveActionProvider provides actions for interacting with AAVE lending protocol on Celo
@@ -55,30 +55,24 @@ export class AaveActionProvider extends ActionProvider<EvmWalletProvider> {
    * 🌐 Check if we're on Celo network
    */
   private async checkNetwork(walletProvider: EvmWalletProvider): Promise<void> {
-    const network = await walletProvider.getNetwork();
-    // Accept both network ID and chain ID checks for Celo
-    if ((!network.networkId || !network.networkId.includes("celo")) && 
-        (!network.chainId || network.chainId !== "42220")) {
+    const network = findCeloNetwork(await walletProvider.getNetwork());
+    if (!network) {
       throw new WrongNetworkError();
     }
+    if (!network.aave) {
+      throw new UnsupportedNetworkError(network.name);
+    }
   }
 
   /**
    * 🪙 Get token address based on the token enum
    */
   private getTokenAddress(token: AaveToken): string {
-    switch (token) {
-      case AaveToken.USDC:
-        return USDC_TOKEN;
-      case AaveToken.cUSD:
-        return cUSD_TOKEN;
-      case AaveToken.cEUR:
-        return cEUR_TOKEN;
-      case AaveToken.CELO:
-        return CELO_TOKEN;
-      default:
-        throw new AaveError(`Unsupported token: ${token}`);
+    const tokenInfo = getTokensWithRole("aave").find(t => t.symbol === token);
+    if (!tokenInfo) {
+      throw new AaveError(`Unsupported token: ${token}`);
     }
+    return tokenInfo.address;
   }
 
   /**
@@ -138,19 +132,12 @@ export class AaveActionProvider extends ActionProvider<EvmWalletProvider> {
   }
 
   /**
-   * 🌐 Get Celoscan link for transaction
+   * 📝 Format transaction success message (deferred transactions are never linked on Celoscan)
    */
-  private getCeloscanLink(txHash: string): string {
-    return `https://celoscan.io/tx/${txHash}`;
-  }
-
-  /**
-   * 📝 Format transaction success message without direct hash link
-   */
-  private getTransactionMessage(action: string, token: string, amount: string): string {
+  private getTransactionMessage(action: string, token: string, amount: string, txHash: string): string {
     return `I've submitted your request to ${action} ${amount} ${token}. 
 
-The transaction has been sent to your wallet for signing. Once signed, it will be processed on the blockchain.
+${describeTransactionResult(txHash)}
 
 You can monitor the status in the Transactions panel.`;
   }
@@ -158,10 +145,10 @@ You can monitor the status in the Transactions panel.`;
   /**
    * 🔖 Format approval transaction success message
    */
-  private getApprovalMessage(token: string, amount: string): string {
+  private getApprovalMessage(token: string, amount: string, txHash: string): string {
     return `I've requested approval for ${amount} ${token} tokens for AAVE.
 
-Please check your wallet to sign the approval transaction.
+${describeTransactionResult(txHash)}
 
 You can monitor the status in the Transactions panel.`;
   }
@@ -309,7 +296,7 @@ You can monitor the status in the Transactions panel.`;
       });
       
       const formattedAmount = await this.formatTokenAmount(walletProvider, tokenAddress, parsedAmount);
-      return this.getApprovalMessage(token, formattedAmount);
+      return this.getApprovalMessage(token, formattedAmount, txHash);
     } catch (error) {
       throw new TransactionFailedError(
         error instanceof Error ? error.message : "Unknown error"
@@ -372,7 +359,7 @@ You can monitor the status in the Transactions panel.`;
       });
       
       const formattedAmount = await this.formatTokenAmount(walletProvider, tokenAddress, parsedAmount);
-      return this.getTransactionMessage("supply", token, formattedAmount);
+      return this.getTransactionMessage("supply", token, formattedAmount, txHash);
     } catch (error) {
       throw new TransactionFailedError(
         error instanceof Error ? error.message : "Unknown error"
@@ -394,76 +381,79 @@ You can monitor the status in the Transactions panel.`;
   ): Promise<string> {
     await this.checkNetwork(walletProvider);
     
-    // Ensure token is typed as AaveToken
-    const token = args.token as AaveToken;
-    const tokenAddress = this.getTokenAddress(token);
-    const amount = args.amount;
+    // Approve and supply are released to the wallet one after the other
+    return withTransactionBundle(`Provide ${args.amount} ${args.token} to AAVE`, async () => {
+      // Ensure token is typed as AaveToken
+      const token = args.token as AaveToken;
+      const tokenAddress = this.getTokenAddress(token);
+      const amount = args.amount;
     
-    // Cast amount to string for parseTokenAmount
-    const parsedAmount = await this.parseTokenAmount(walletProvider, tokenAddress, amount as string);
+      // Cast amount to string for parseTokenAmount
+      const parsedAmount = await this.parseTokenAmount(walletProvider, tokenAddress, amount as string);
     
-    // Get user address
-    const userAddress = await walletProvider.getAddress();
+      // Get user address
+      const userAddress = await walletProvider.getAddress();
     
-    // Check if user has enough balance
-    await this.checkTokenBalance(walletProvider, tokenAddress, parsedAmount.toString());
+      // Check if user has enough balance
+      await this.checkTokenBalance(walletProvider, tokenAddress, parsedAmount.toString());
     
-    // Get current allowance
-    const address = await walletProvider.getAddress();
-    const allowance = await walletProvider.readContract({
-      address: tokenAddress as `0x${string}`,
-      abi: ERC20_ABI,
-      functionName: "allowance",
-      args: [address as `0x${string}`, AAVE_LENDING_POOL as `0x${string}`],
-    }) as bigint;
-
-    // Approve tokens if necessary
-    if (allowance < parsedAmount) {
-      const approveData = encodeFunctionData({
+      // Get current allowance
+      const address = await walletProvider.getAddress();
+      const allowance = await walletProvider.readContract({
+        address: tokenAddress as `0x${string}`,
         abi: ERC20_ABI,
-        functionName: "approve",
-        args: [AAVE_LENDING_POOL as `0x${string}`, parsedAmount],
+        functionName: "allowance",
+        args: [address as `0x${string}`, AAVE_LENDING_POOL as `0x${string}`],
+      }) as bigint;
+
+      // Approve tokens if necessary
+      if (allowance < parsedAmount) {
+        const approveData = encodeFunctionData({
+          abi: ERC20_ABI,
+          functionName: "approve",
+          args: [AAVE_LENDING_POOL as `0x${string}`, parsedAmount],
+        }) as Hex;
+
+        try {
+          const approveTxHash = await walletProvider.sendTransaction({
+            to: tokenAddress as `0x${string}`,
+            data: approveData,
+          });
+        
+          console.log(`Approval transaction: ${describeTransactionResult(approveTxHash)}`);
+        } catch (error) {
+          throw new TransactionFailedError(
+            `Token approval failed: ${error instanceof Error ? error.message : "Unknown error"}`
+          );
+        }
+      }
+
+      // Create and send the supply transaction
+      const supplyData = encodeFunctionData({
+        abi: AAVE_LENDING_POOL_ABI,
+        functionName: "supply",
+        args: [
+          tokenAddress as `0x${string}`,
+          parsedAmount,
+          (args.onBehalfOf || userAddress) as `0x${string}`,
+          DEFAULT_REFERRAL_CODE,
+        ],
       }) as Hex;
 
       try {
-        const approveTxHash = await walletProvider.sendTransaction({
-          to: tokenAddress as `0x${string}`,
-          data: approveData,
+        const supplyTxHash = await walletProvider.sendTransaction({
+          to: AAVE_LENDING_POOL as `0x${string}`,
+          data: supplyData,
         });
-        
-        console.log(`Approval transaction: ${this.getCeloscanLink(approveTxHash)}`);
+      
+        const formattedAmount = await this.formatTokenAmount(walletProvider, tokenAddress, parsedAmount);
+        return this.getTransactionMessage("supply", token, formattedAmount, supplyTxHash);
       } catch (error) {
         throw new TransactionFailedError(
-          `Token approval failed: ${error instanceof Error ? error.message : "Unknown error"}`
+          `Supply transaction failed: ${error instanceof Error ? error.message : "Unknown error"}`
         );
       }
-    }
-
-    // Create and send the supply transaction
-    const supplyData = encodeFunctionData({
-      abi: AAVE_LENDING_POOL_ABI,
-      functionName: "supply",
-      args: [
-        tokenAddress as `0x${string}`,
-        parsedAmount,
-        (args.onBehalfOf || userAddress) as `0x${string}`,
-        DEFAULT_REFERRAL_CODE,
-      ],
-    }) as Hex;
-
-    try {
-      const supplyTxHash = await walletProvider.sendTransaction({
-        to: AAVE_LENDING_POOL as `0x${string}`,
-        data: supplyData,
-      });
-      
-      const formattedAmount = await this.formatTokenAmount(walletProvider, tokenAddress, parsedAmount);
-      return this.getTransactionMessage("supply", token, formattedAmount);
-    } catch (error) {
-      throw new TransactionFailedError(
-        `Supply transaction failed: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
-    }
+    });
   }
 
   /**
@@ -522,7 +512,7 @@ You can monitor the status in the Transactions panel.`;
       });
       
       const formattedAmount = await this.formatTokenAmount(walletProvider, tokenAddress, parsedAmount);
-      return this.getTransactionMessage("borrow", token, formattedAmount);
+      return this.getTransactionMessage("borrow", token, formattedAmount, txHash);
     } catch (error) {
       throw new TransactionFailedError(
         error instanceof Error ? error.message : "Unknown error"
@@ -594,7 +584,7 @@ You can monitor the status in the Transactions panel.`;
       });
       
       const amountText = amount === "-1" ? "all borrowed" : await this.formatTokenAmount(walletProvider, tokenAddress, parsedAmountToUse);
-      return this.getTransactionMessage("repay", token, amountText);
+      return this.getTransactionMessage("repay", token, amountText, txHash);
     } catch (error) {
       throw new TransactionFailedError(
         error instanceof Error ? error.message : "Unknown error"
@@ -660,7 +650,7 @@ You can monitor the status in the Transactions panel.`;
       });
       
       const amountText = amount === "-1" ? "all" : await this.formatTokenAmount(walletProvider, tokenAddress, parsedAmount);
-      return this.getTransactionMessage("withdraw", token, amountText);
+      return this.getTransactionMessage("withdraw", token, amountText, txHash);
     } catch (error) {
       throw new TransactionFailedError(
         error instanceof Error ? error.message : "Unknown error"
@@ -890,7 +880,7 @@ You can monitor the status in the Transactions panel.`;
    * 🌐 Check if network is supported
    */
   supportsNetwork = (network: Network): boolean => {
-    return network.networkId?.includes("celo") || network.chainId === "42220";
+    return findCeloNetwork(network)?.aave !== undefined;
   };
 }
 
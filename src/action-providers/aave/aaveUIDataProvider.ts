@@ -3,13 +3,6 @@ import { formatUnits, getAddress } from "viem";
 import {
   AAVE_LENDING_POOL,
   AAVE_LENDING_POOL_ABI,
-  AAVE_PRICE_ORACLE,
-  AAVE_PRICE_ORACLE_ABI,
-  USDC_TOKEN,
-  cUSD_TOKEN,
-  cEUR_TOKEN,
-  CELO_TOKEN,
-  USDT_TOKEN,
   CELO_A_TOKEN,
   USDC_A_TOKEN,
   cUSD_A_TOKEN,
@@ -22,7 +15,6 @@ import {
   USDT_VARIABLE_DEBT_TOKEN,
   ERC20_ABI,
   NON_COLLATERAL_TOKENS,
-  TOKEN_ICONS,
   AAVE_DATA_PROVIDER,
   AAVE_DATA_PROVIDER_ABI,
   AAVE_POOL,
@@ -31,6 +23,9 @@ import {
   AAVE_WALLET_BALANCE_PROVIDER_ABI,
   AAVE_POOL_ADDRESSES_PROVIDER
 } from "./constants";
+import { getTokenAddress, getTokensWithRole, TokenSymbol } from "../../network/tokens";
+import { describePriceWarnings, getTokenPrices } from "../../network/prices";
+import { multicall } from "../../utils/multicall";
 
 // Use AAVE_LENDING_POOL_ABI for AAVE pool calls
 const AAVE_POOL_ABI = AAVE_LENDING_POOL_ABI;
@@ -40,6 +35,8 @@ const AAVE_POOL_ABI = AAVE_LENDING_POOL_ABI;
  */
 export interface AaveUserDashboard {
   dashboard: string;
+  // Warning about USD values based on prices that are not live (empty when all are)
+  priceWarning: string;
   netWorth: {
     value: string;
     formatted: string;
@@ -139,72 +136,63 @@ function checksumAddress(address: string): string {
 }
 
 /**
- * 💰 Mapping of token addresses to token information
- * Using checksummed addresses to avoid viem validation errors
+ * 🏦 AAVE market of each reserve, with fallback APYs used when the data provider is unavailable
  */
-const TOKEN_INFO: Record<string, TokenInfo> = {
-  [checksumAddress(CELO_TOKEN).toLowerCase()]: {
-    address: checksumAddress(CELO_TOKEN),
-    symbol: AaveToken.CELO,
-    aToken: checksumAddress(CELO_A_TOKEN),
-    variableDebtToken: checksumAddress(CELO_VARIABLE_DEBT_TOKEN),
-    decimals: 18,
-    isCollateral: true,
+const AAVE_RESERVES: Record<AaveToken, Pick<TokenInfo, "aToken" | "variableDebtToken" | "supplyAPY" | "borrowAPY">> = {
+  [AaveToken.CELO]: {
+    aToken: CELO_A_TOKEN,
+    variableDebtToken: CELO_VARIABLE_DEBT_TOKEN,
     supplyAPY: 0.04,
     borrowAPY: 1.11,
-    icon: TOKEN_ICONS.CELO,
-    price: 0.66 // Updated CELO price
   },
-  [checksumAddress(USDC_TOKEN).toLowerCase()]: {
-    address: checksumAddress(USDC_TOKEN),
-    symbol: AaveToken.USDC,
-    aToken: checksumAddress(USDC_A_TOKEN),
-    variableDebtToken: checksumAddress(USDC_VARIABLE_DEBT_TOKEN),
-    decimals: 6,
-    isCollateral: true,
+  [AaveToken.USDC]: {
+    aToken: USDC_A_TOKEN,
+    variableDebtToken: USDC_VARIABLE_DEBT_TOKEN,
     supplyAPY: 0.52,
     borrowAPY: 2.21,
-    icon: TOKEN_ICONS.USDC,
-    price: 1.00
   },
-  [checksumAddress(cUSD_TOKEN).toLowerCase()]: {
-    address: checksumAddress(cUSD_TOKEN),
-    symbol: AaveToken.cUSD,
-    aToken: checksumAddress(cUSD_A_TOKEN),
-    variableDebtToken: checksumAddress(cUSD_VARIABLE_DEBT_TOKEN),
-    decimals: 18,
-    isCollateral: false,
+  [AaveToken.cUSD]: {
+    aToken: cUSD_A_TOKEN,
+    variableDebtToken: cUSD_VARIABLE_DEBT_TOKEN,
     supplyAPY: 0.25,
     borrowAPY: 1.58,
-    icon: TOKEN_ICONS.cUSD,
-    price: 1.00
   },
-  [checksumAddress(cEUR_TOKEN).toLowerCase()]: {
-    address: checksumAddress(cEUR_TOKEN),
-    symbol: AaveToken.cEUR,
-    aToken: checksumAddress(cEUR_A_TOKEN),
-    variableDebtToken: checksumAddress(cEUR_VARIABLE_DEBT_TOKEN),
-    decimals: 18,
-    isCollateral: false,
+  [AaveToken.cEUR]: {
+    aToken: cEUR_A_TOKEN,
+    variableDebtToken: cEUR_VARIABLE_DEBT_TOKEN,
     supplyAPY: 0.10,
     borrowAPY: 1.00,
-    icon: TOKEN_ICONS.cEUR,
-    price: 1.06
   },
-  [checksumAddress(USDT_TOKEN).toLowerCase()]: {
-    address: checksumAddress(USDT_TOKEN),
-    symbol: AaveToken.USDT,
-    aToken: checksumAddress(USDT_A_TOKEN),
-    variableDebtToken: checksumAddress(USDT_VARIABLE_DEBT_TOKEN),
-    decimals: 6,
-    isCollateral: true,
+  [AaveToken.USDT]: {
+    aToken: USDT_A_TOKEN,
+    variableDebtToken: USDT_VARIABLE_DEBT_TOKEN,
     supplyAPY: 0.30,
     borrowAPY: 3.31,
-    icon: TOKEN_ICONS.USDT,
-    price: 1.00
-  }
+  },
 };
 
+/**
+ * 💰 Mapping of token addresses to token information
+ * Using checksummed addresses to avoid viem validation errors
+ */
+const TOKEN_INFO: Record<string, TokenInfo> = Object.fromEntries(
+  getTokensWithRole("aave").map(token => {
+    const reserve = AAVE_RESERVES[token.symbol as AaveToken];
+    return [token.address.toLowerCase(), {
+      address: token.address,
+      symbol: token.symbol,
+      aToken: checksumAddress(reserve.aToken),
+      variableDebtToken: checksumAddress(reserve.variableDebtToken),
+      decimals: token.decimals,
+      isCollateral: token.roles.includes("aave-collateral"),
+      supplyAPY: reserve.supplyAPY,
+      borrowAPY: reserve.borrowAPY,
+      icon: token.icon,
+      price: token.fallbackPriceUsd,
+    }];
+  })
+);
+
 /**
  * 🔀 Look up a token by its aToken address
  */
@@ -257,94 +245,153 @@ function formatNumber(value: number, decimals: number = 8): string {
 }
 
 /**
- * 📊 Get market rates from AAVE
+ * 📡 Contract state the dashboard is built from (token maps are keyed by lowercase address)
  */
-async function getMarketRates(walletProvider: EvmWalletProvider): Promise<{supplyRates: Record<string, number>, borrowRates: Record<string, number>}> {
-  const supplyRates: Record<string, number> = {};
-  const borrowRates: Record<string, number> = {};
-  
-  // Get rates for each supported token
-  const tokens = [CELO_TOKEN, USDC_TOKEN, cUSD_TOKEN, cEUR_TOKEN, USDT_TOKEN];
-  
-  for (const token of tokens) {
-    try {
-      // Call getReserveData from the data provider
-      const reserveData = await walletProvider.readContract({
-        address: AAVE_DATA_PROVIDER as `0x${string}`,
-        abi: AAVE_DATA_PROVIDER_ABI,
-        functionName: "getReserveData",
-        args: [token as `0x${string}`],
-      }) as any;
-      
-      if (reserveData) {
-        // Convert from ray (1e27) to percentage
-        // liquidityRate is at index 5 and variableBorrowRate at index 6
-        const liquidityRate = parseFloat(formatUnits(reserveData[5], 27)) * 100;
-        const variableBorrowRate = parseFloat(formatUnits(reserveData[6], 27)) * 100;
-        
-        supplyRates[token.toLowerCase()] = liquidityRate;
-        borrowRates[token.toLowerCase()] = variableBorrowRate;
-        
-        console.log(`Got rates for ${getTokenByAddress(token)?.symbol || 'unknown token'}: Supply: ${liquidityRate.toFixed(2)}%, Borrow: ${variableBorrowRate.toFixed(2)}%`);
-      }
-    } catch (error) {
-      console.error(`Error getting rates for ${getTokenByAddress(token)?.symbol || 'unknown token'}:`, error);
-      
-      // Use fallback rates from TOKEN_INFO
-      const tokenInfo = getTokenByAddress(token);
-      if (tokenInfo) {
-        supplyRates[token.toLowerCase()] = tokenInfo.supplyAPY;
-        borrowRates[token.toLowerCase()] = tokenInfo.borrowAPY;
-      }
-    }
-  }
-  
-  return { supplyRates, borrowRates };
+interface DashboardState {
+  prices: Record<string, number>;
+  // Warning about prices that are not live (empty when all are)
+  priceWarning: string;
+  supplyRates: Record<string, number>;
+  borrowRates: Record<string, number>;
+  accountData?: readonly [bigint, bigint, bigint, bigint, bigint, bigint];
+  suppliedBalances: Record<string, bigint>;
+  debtBalances: Record<string, bigint>;
+  walletBalances: Record<string, bigint>;
 }
 
 /**
- * 🔀 Look up a token by its address
+ * 📡 Read everything the dashboard needs through Multicall3
+ *
+ * Reserve rates, account data and all position and wallet balances are one batch, read
+ * alongside the price service. A second batch is only sent for balances the first could not read.
  */
-function getTokenByAddress(tokenAddress: string): TokenInfo | undefined {
-  const normalizedAddress = tokenAddress.toLowerCase();
-  return Object.values(TOKEN_INFO).find(
-    info => info.address.toLowerCase() === normalizedAddress
-  );
-}
+async function readDashboardState(walletProvider: EvmWalletProvider, userAddress: `0x${string}`): Promise<DashboardState> {
+  const tokens = Object.values(TOKEN_INFO);
+  const dataProvider = checksumAddress(AAVE_DATA_PROVIDER);
 
-/**
- * Get token prices from AAVE price oracle
- */
-async function getTokenPrices(walletProvider: EvmWalletProvider): Promise<Record<string, number>> {
-  const prices: Record<string, number> = {};
-  const tokens = [CELO_TOKEN, USDC_TOKEN, cUSD_TOKEN, cEUR_TOKEN, USDT_TOKEN];
-  
-  console.log("Getting token prices from price oracle at", AAVE_PRICE_ORACLE);
-  
-  try {
-    // Get prices for all tokens in one call
-    const tokenPrices = await walletProvider.readContract({
-      address: AAVE_PRICE_ORACLE as `0x${string}`,
-      abi: AAVE_PRICE_ORACLE_ABI,
-      functionName: "getAssetsPrices",
-      args: [tokens.map(t => t as `0x${string}`)],
-    }) as bigint[];
-    
-    // Process prices
-    tokens.forEach((token, i) => {
-      const price = tokenPrices[i];
-      // Oracle returns prices with 8 decimals
-      const priceUsd = Number(formatUnits(price, 8));
-      prices[token.toLowerCase()] = priceUsd;
-      console.log(`Got price for ${getTokenByAddress(token)?.symbol || 'unknown token'}: $${priceUsd}`);
+  const pricesRequest = getTokenPrices(walletProvider, tokens.map(token => token.symbol as TokenSymbol));
+  const [accountRead, walletRead, ...reserveReads] = await multicall(walletProvider, [
+    {
+      address: checksumAddress(AAVE_POOL),
+      abi: AAVE_POOL_ABI,
+      functionName: "getUserAccountData",
+      args: [userAddress],
+    },
+    {
+      address: checksumAddress(AAVE_WALLET_BALANCE_PROVIDER),
+      abi: AAVE_WALLET_BALANCE_PROVIDER_ABI,
+      functionName: "getUserWalletBalances",
+      args: [checksumAddress(AAVE_POOL_ADDRESSES_PROVIDER), userAddress],
+    },
+    // Per reserve: market rates, aToken balance, variable debt balance
+    ...tokens.flatMap(token => [
+      { address: dataProvider, abi: AAVE_DATA_PROVIDER_ABI, functionName: "getReserveData", args: [token.address] },
+      { address: token.aToken, abi: ERC20_ABI, functionName: "balanceOf", args: [userAddress] },
+      { address: token.variableDebtToken, abi: ERC20_ABI, functionName: "balanceOf", args: [userAddress] },
+    ]),
+  ]);
+
+  const prices = await pricesRequest;
+  const state: DashboardState = {
+    prices: {},
+    priceWarning: describePriceWarnings(prices),
+    supplyRates: {},
+    borrowRates: {},
+    suppliedBalances: {},
+    debtBalances: {},
+    walletBalances: {},
+  };
+
+  tokens.forEach(token => {
+    const price = prices[token.symbol as TokenSymbol]!;
+    state.prices[token.address.toLowerCase()] = price.priceUsd;
+    console.log(`Got price for ${token.symbol}: $${price.priceUsd} (${price.source})`);
+  });
+
+  if (accountRead.status === "success") {
+    state.accountData = accountRead.result;
+    console.log("Account data received:", accountRead.result);
+  } else {
+    console.error("Error fetching user account data:", accountRead.error);
+  }
+
+  const positionFallbacks: TokenInfo[] = [];
+  tokens.forEach((token, i) => {
+    const key = token.address.toLowerCase();
+    const [ratesRead, suppliedRead, debtRead] = reserveReads.slice(i * 3, i * 3 + 3);
+
+    if (ratesRead.status === "success") {
+      // Convert from ray (1e27) to percentage; liquidityRate is at index 5 and variableBorrowRate at index 6
+      state.supplyRates[key] = parseFloat(formatUnits(ratesRead.result[5], 27)) * 100;
+      state.borrowRates[key] = parseFloat(formatUnits(ratesRead.result[6], 27)) * 100;
+      console.log(`Got rates for ${token.symbol}: Supply: ${state.supplyRates[key].toFixed(2)}%, Borrow: ${state.borrowRates[key].toFixed(2)}%`);
+    } else {
+      console.error(`Error getting rates for ${token.symbol}:`, ratesRead.error);
+      // Use fallback rates from TOKEN_INFO
+      state.supplyRates[key] = token.supplyAPY;
+      state.borrowRates[key] = token.borrowAPY;
+    }
+
+    if (suppliedRead.status === "success" && debtRead.status === "success") {
+      state.suppliedBalances[key] = suppliedRead.result;
+      state.debtBalances[key] = debtRead.result;
+    } else {
+      console.log(`Direct position check failed for ${token.symbol}, trying data provider...`);
+      positionFallbacks.push(token);
+    }
+  });
+
+  if (walletRead.status === "success") {
+    const [returnedTokens, returnedBalances] = walletRead.result as [string[], bigint[]];
+    returnedTokens.forEach((tokenAddress, i) => {
+      state.walletBalances[tokenAddress.toLowerCase()] = returnedBalances[i];
     });
-  } catch (error) {
-    console.error("Error getting token prices from oracle:", error);
-    // Don't use fallback prices, throw error to ensure we're using real data
-    throw error;
+  } else {
+    console.error("Error fetching balances from WalletBalanceProvider:", walletRead.error);
   }
-  
-  return prices;
+
+  // Second batch: positions from the data provider, wallet balances from the tokens themselves
+  const walletFallbacks = walletRead.status === "failure" ? tokens : [];
+  if (positionFallbacks.length === 0 && walletFallbacks.length === 0) {
+    return state;
+  }
+
+  const fallbackReads = await multicall(walletProvider, [
+    ...positionFallbacks.map(token => ({
+      address: dataProvider,
+      abi: AAVE_DATA_PROVIDER_ABI,
+      functionName: "getUserReserveData",
+      args: [token.address, userAddress],
+    })),
+    ...walletFallbacks.map(token => ({
+      address: token.address,
+      abi: ERC20_ABI,
+      functionName: "balanceOf",
+      args: [userAddress],
+    })),
+  ]);
+
+  positionFallbacks.forEach((token, i) => {
+    const read = fallbackReads[i];
+    if (read.status === "success") {
+      // currentATokenBalance is at index 0 and currentVariableDebt at index 2
+      state.suppliedBalances[token.address.toLowerCase()] = read.result[0];
+      state.debtBalances[token.address.toLowerCase()] = read.result[2];
+    } else {
+      console.error(`Data provider check also failed for ${token.symbol}:`, read.error);
+    }
+  });
+
+  walletFallbacks.forEach((token, i) => {
+    const read = fallbackReads[positionFallbacks.length + i];
+    if (read.status === "success") {
+      state.walletBalances[token.address.toLowerCase()] = read.result;
+    } else {
+      console.log(`Direct ERC20 check also failed for ${token.symbol}:`, read.error);
+    }
+  });
+
+  return state;
 }
 
 /**
@@ -364,75 +411,40 @@ export async function getAaveDashboard(
   
   console.log(`Getting AAVE dashboard for address: ${address}`);
   
-  // Get current token prices from oracle
-  const tokenPrices = await getTokenPrices(walletProvider);
+  // Read prices, rates, account data and balances in one or two multicall batches
+  const state = await readDashboardState(walletProvider, checksumAddress(address) as `0x${string}`);
+  const tokenPrices = state.prices;
   
-  // Update TOKEN_INFO with current prices
+  // Update TOKEN_INFO with current prices and market rates
   for (const tokenKey in TOKEN_INFO) {
     const tokenInfo = TOKEN_INFO[tokenKey];
-    const price = tokenPrices[tokenInfo.address.toLowerCase()];
-    if (price) {
-      tokenInfo.price = price;
+    const key = tokenInfo.address.toLowerCase();
+    if (tokenPrices[key]) {
+      tokenInfo.price = tokenPrices[key];
     }
-  }
-  
-  // Fetch current market rates for accurate APYs
-  const { supplyRates, borrowRates } = await getMarketRates(walletProvider);
-  
-  // Update TOKEN_INFO with current rates
-  for (const tokenKey in TOKEN_INFO) {
-    const tokenInfo = TOKEN_INFO[tokenKey];
-    if (supplyRates[tokenInfo.address.toLowerCase()]) {
-      tokenInfo.supplyAPY = supplyRates[tokenInfo.address.toLowerCase()];
+    if (state.supplyRates[key]) {
+      tokenInfo.supplyAPY = state.supplyRates[key];
     }
-    if (borrowRates[tokenInfo.address.toLowerCase()]) {
-      tokenInfo.borrowAPY = borrowRates[tokenInfo.address.toLowerCase()];
+    if (state.borrowRates[key]) {
+      tokenInfo.borrowAPY = state.borrowRates[key];
     }
   }
   
-  // Fetch account data from Aave
+  // Account data from Aave (defaults if it could not be read)
   let totalCollateralETH: bigint = BigInt(0);
   let totalDebtETH: bigint = BigInt(0);
   let availableBorrowsETH: bigint = BigInt(0);
-  let currentLiquidationThreshold: bigint = BigInt(0);
   let ltv: bigint = BigInt(0);
-  let healthFactor: bigint = BigInt(0);
   let hfNumber = 99;
-    
-  try {
-    // Get user account data using properly checksummed address
-    const checksumedLendingPool = checksumAddress(AAVE_POOL);
-    const checksumedUserAddress = checksumAddress(address) as `0x${string}`;
-    
-    console.log(`Calling AAVE_POOL at ${checksumedLendingPool}`);
-    
-    // Get user account data
-    const accountData = await walletProvider.readContract({
-      address: checksumedLendingPool as `0x${string}`,
-      abi: AAVE_POOL_ABI,
-      functionName: "getUserAccountData",
-      args: [checksumedUserAddress],
-    }) as readonly [bigint, bigint, bigint, bigint, bigint, bigint];
-    
-    console.log("Account data received:", accountData);
-    
-    // Convert the big numbers to more usable values
-    totalCollateralETH = accountData[0];
-    totalDebtETH = accountData[1];
-    availableBorrowsETH = accountData[2];
-    currentLiquidationThreshold = accountData[3];
-    ltv = accountData[4];
-    healthFactor = accountData[5];
-    
+  
+  if (state.accountData) {
+    [totalCollateralETH, totalDebtETH, availableBorrowsETH, , ltv] = state.accountData;
     // Calculate health factor as a number
-    hfNumber = Number(formatUnits(healthFactor, 18));
-  } catch (error) {
-    console.error("Error fetching user account data:", error);
-    // Use defaults if error
+    hfNumber = Number(formatUnits(state.accountData[5], 18));
   }
   
   // Convert values to USD using oracle prices
-  const basePrice = tokenPrices[CELO_TOKEN.toLowerCase()]; // CELO is the base currency
+  const basePrice = tokenPrices[getTokenAddress("CELO").toLowerCase()]; // CELO is the base currency
   let totalCollateralUsd = Number(formatUnits(totalCollateralETH, 18)) * basePrice;
   const totalDebtUsd = Number(formatUnits(totalDebtETH, 18)) * basePrice;
   
@@ -472,145 +484,47 @@ export async function getAaveDashboard(
     icon: string;
   }> = [];
   
-  // Try to detect supplied assets by checking aToken balances
-  try {
-    for (const tokenKey in TOKEN_INFO) {
-      const tokenInfo = TOKEN_INFO[tokenKey];
+  // Supplied assets are aToken balances, borrowed assets are variable debt token balances
+  for (const tokenInfo of Object.values(TOKEN_INFO)) {
+    const key = tokenInfo.address.toLowerCase();
+    const balance = state.suppliedBalances[key] ?? BigInt(0);
+    
+    if (balance > BigInt(0)) {
+      const formattedBalance = formatUnits(balance, tokenInfo.decimals);
+      const balanceNumber = Number(formattedBalance);
+      const balanceUsd = balanceNumber * tokenInfo.price;
       
-      // Skip tokens with invalid or missing aToken addresses
-      if (!tokenInfo.aToken) continue;
+      console.log(`Found supplied ${tokenInfo.symbol}: ${balanceNumber} (${balanceUsd} USD)`);
       
-      // Check for aToken balances
-      try {
-        const aTokenAddress = checksumAddress(tokenInfo.aToken);
-        const checksumedUserAddress = checksumAddress(address) as `0x${string}`;
-        
-        console.log(`Checking aToken balance for ${tokenInfo.symbol} at ${aTokenAddress}`);
-        
-        let balance = BigInt(0);
-        try {
-          // Try reading token balance directly
-          balance = await walletProvider.readContract({
-            address: aTokenAddress as `0x${string}`,
-            abi: ERC20_ABI,
-            functionName: "balanceOf",
-            args: [checksumedUserAddress],
-          }) as bigint;
-        } catch (e) {
-          console.log(`Direct balance check failed for ${tokenInfo.symbol}, trying data provider...`);
-          
-          // If direct check fails, try using the data provider
-          try {
-            const tokenAddress = checksumAddress(tokenInfo.address);
-            const userReserveData = await walletProvider.readContract({
-              address: checksumAddress(AAVE_DATA_PROVIDER) as `0x${string}`,
-              abi: AAVE_DATA_PROVIDER_ABI,
-              functionName: "getUserReserveData",
-              args: [tokenAddress as `0x${string}`, checksumedUserAddress],
-            }) as any; // Use any to avoid typing issues
-            
-            if (userReserveData && Array.isArray(userReserveData) && userReserveData.length > 0) {
-              // Current aToken balance is first element
-              balance = BigInt(userReserveData[0].toString());
-            }
-          } catch (e2) {
-            console.error(`Data provider check also failed for ${tokenInfo.symbol}:`, e2);
-          }
-        }
-        
-        if (balance > BigInt(0)) {
-          const formattedBalance = formatUnits(balance, tokenInfo.decimals);
-          const balanceNumber = Number(formattedBalance);
-          const balanceUsd = balanceNumber * tokenInfo.price;
-          
-          console.log(`Found supplied ${tokenInfo.symbol}: ${balanceNumber} (${balanceUsd} USD)`);
-          
-          suppliedAssets.push({
-            symbol: tokenInfo.symbol,
-            balance: formatNumber(balanceNumber, tokenInfo.decimals === 6 ? 6 : 8),
-            balanceUsd: formatCurrency(balanceUsd),
-            apy: `${tokenInfo.supplyAPY.toFixed(2)}%`,
-            isCollateral: tokenInfo.isCollateral,
-            icon: tokenInfo.icon
-          });
-        } else {
-          console.log(`No ${tokenInfo.symbol} aToken balance found`);
-        }
-      } catch (error) {
-        console.log(`Error checking aToken balance for ${tokenInfo.symbol}:`, error);
-      }
+      suppliedAssets.push({
+        symbol: tokenInfo.symbol,
+        balance: formatNumber(balanceNumber, tokenInfo.decimals === 6 ? 6 : 8),
+        balanceUsd: formatCurrency(balanceUsd),
+        apy: `${tokenInfo.supplyAPY.toFixed(2)}%`,
+        isCollateral: tokenInfo.isCollateral,
+        icon: tokenInfo.icon
+      });
+    }
+    
+    const variableDebtBalance = state.debtBalances[key] ?? BigInt(0);
+    
+    if (variableDebtBalance > BigInt(0)) {
+      console.log(`Found ${tokenInfo.symbol} variable debt: ${formatUnits(variableDebtBalance, tokenInfo.decimals)}`);
       
-      // Check for variable debt token balances
-      try {
-        // First check directly for variable debt token balance
-        const variableDebtBalance = await walletProvider.readContract({
-          address: tokenInfo.variableDebtToken as `0x${string}`,
-          abi: ERC20_ABI,
-          functionName: "balanceOf",
-          args: [address as `0x${string}`],
-        }) as bigint;
-        
-        if (variableDebtBalance > BigInt(0)) {
-          console.log(`Found ${tokenInfo.symbol} variable debt: ${formatUnits(variableDebtBalance, tokenInfo.decimals)}`);
-          
-          // Token is borrowed
-          const balanceFormatted = formatUnits(variableDebtBalance, tokenInfo.decimals);
-          const balanceUsd = Number(balanceFormatted) * tokenInfo.price;
-          
-          borrowedAssets.push({
-            symbol: tokenInfo.symbol,
-            balance: balanceFormatted,
-            balanceUsd: formatCurrency(balanceUsd),
-            apy: `${tokenInfo.borrowAPY}%`,
-            interestMode: "Variable",
-            icon: tokenInfo.icon
-          });
-          
-          totalDebtETH += variableDebtBalance;
-        }
-      } catch (error) {
-        console.error(`Error checking variable debt for ${tokenInfo.symbol}:`, error);
-        
-        // Fallback: Use the data provider to check debt balance
-        try {
-          const userReserveData = await walletProvider.readContract({
-            address: AAVE_DATA_PROVIDER as `0x${string}`,
-            abi: AAVE_DATA_PROVIDER_ABI,
-            functionName: "getUserReserveData",
-            args: [checksumAddress(tokenInfo.address) as `0x${string}`, checksumAddress(address) as `0x${string}`],
-          }) as any;
-          
-          // Check if we received valid data
-          if (userReserveData && userReserveData.length >= 3) {
-            // currentVariableDebt is at index 2
-            const variableDebtBalance = userReserveData[2] as bigint;
-            
-            if (variableDebtBalance > BigInt(0)) {
-              console.log(`Found ${tokenInfo.symbol} variable debt through data provider: ${formatUnits(variableDebtBalance, tokenInfo.decimals)}`);
-              
-              // Token is borrowed
-              const balanceFormatted = formatUnits(variableDebtBalance, tokenInfo.decimals);
-              const balanceUsd = Number(balanceFormatted) * tokenInfo.price;
-              
-              borrowedAssets.push({
-                symbol: tokenInfo.symbol,
-                balance: balanceFormatted,
-                balanceUsd: formatCurrency(balanceUsd),
-                apy: `${tokenInfo.borrowAPY}%`,
-                interestMode: "Variable",
-                icon: tokenInfo.icon
-              });
-              
-              totalDebtETH += variableDebtBalance;
-            }
-          }
-        } catch (fallbackError) {
-          console.error(`Data provider debt check also failed for ${tokenInfo.symbol}:`, fallbackError);
-        }
-      }
+      const balanceFormatted = formatUnits(variableDebtBalance, tokenInfo.decimals);
+      const balanceUsd = Number(balanceFormatted) * tokenInfo.price;
+      
+      borrowedAssets.push({
+        symbol: tokenInfo.symbol,
+        balance: balanceFormatted,
+        balanceUsd: formatCurrency(balanceUsd),
+        apy: `${tokenInfo.borrowAPY}%`,
+        interestMode: "Variable",
+        icon: tokenInfo.icon
+      });
+      
+      totalDebtETH += variableDebtBalance;
     }
-  } catch (error) {
-    console.error("Error during token detection:", error);
   }
   
   // If there are no detected supplied assets, but we know there's collateral, use fallback
@@ -683,128 +597,25 @@ export async function getAaveDashboard(
     icon: string;
   }> = [];
   
-  try {
-    // Using WalletBalanceProvider to get all token balances efficiently
-    const checksumedUserAddress = checksumAddress(address) as `0x${string}`;
-    const walletBalanceProvider = checksumAddress(AAVE_WALLET_BALANCE_PROVIDER) as `0x${string}`;
-    
-    console.log(`Getting wallet balances from WalletBalanceProvider at ${walletBalanceProvider}`);
-    
-    // Get the addresses of all supported tokens
-    const tokenAddresses = Object.values(TOKEN_INFO).map(token => 
-      checksumAddress(token.address) as `0x${string}`
-    );
+  for (const tokenInfo of Object.values(TOKEN_INFO)) {
+    const balance = state.walletBalances[tokenInfo.address.toLowerCase()] ?? BigInt(0);
     
-    try {
-      // Call getUserWalletBalances to get all token balances in one call
-      const result = await walletProvider.readContract({
-        address: walletBalanceProvider,
-        abi: AAVE_WALLET_BALANCE_PROVIDER_ABI,
-        functionName: "getUserWalletBalances",
-        args: [AAVE_POOL_ADDRESSES_PROVIDER as `0x${string}`, checksumedUserAddress],
-      }) as [string[], bigint[]];
+    if (balance > BigInt(0)) {
+      const formattedBalance = formatUnits(balance, tokenInfo.decimals);
+      const balanceNumber = Number(formattedBalance);
+      const balanceUsd = balanceNumber * tokenInfo.price;
       
-      if (result && Array.isArray(result) && result.length === 2) {
-        const [returnedTokens, returnedBalances] = result;
-        
-        for (let i = 0; i < returnedTokens.length; i++) {
-          const tokenAddress = returnedTokens[i].toLowerCase();
-          const balance = returnedBalances[i];
-          
-          if (balance > BigInt(0)) {
-            // Find the token info for this address
-            const tokenInfo = getTokenByAddress(tokenAddress);
-            
-            if (tokenInfo) {
-              const formattedBalance = formatUnits(balance, tokenInfo.decimals);
-              const balanceNumber = Number(formattedBalance);
-              const balanceUsd = balanceNumber * tokenInfo.price;
-              
-              console.log(`Found wallet balance ${tokenInfo.symbol} via provider: ${balanceNumber} (${balanceUsd} USD)`);
-              
-              assetsToSupply.push({
-                symbol: tokenInfo.symbol,
-                balance: formatNumber(balanceNumber, tokenInfo.decimals === 6 ? 6 : 8),
-                balanceUsd: formatCurrency(balanceUsd),
-                apy: `${tokenInfo.supplyAPY.toFixed(2)}%`,
-                canBeCollateral: tokenInfo.isCollateral,
-                icon: tokenInfo.icon
-              });
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error fetching balances from WalletBalanceProvider:", error);
+      console.log(`Found wallet balance ${tokenInfo.symbol}: ${balanceNumber} (${balanceUsd} USD)`);
       
-      // Fallback to individual token balance checks
-      for (const tokenKey in TOKEN_INFO) {
-        const tokenInfo = TOKEN_INFO[tokenKey];
-        const tokenAddress = checksumAddress(tokenInfo.address);
-        
-        try {
-          console.log(`Checking wallet balance for ${tokenInfo.symbol} at ${tokenAddress}`);
-          
-          // Use balanceOf from WalletBalanceProvider for individual token
-          const balance = await walletProvider.readContract({
-            address: walletBalanceProvider,
-            abi: AAVE_WALLET_BALANCE_PROVIDER_ABI,
-            functionName: "balanceOf",
-            args: [checksumedUserAddress, tokenAddress as `0x${string}`],
-          }) as bigint;
-          
-          if (balance > BigInt(0)) {
-            const formattedBalance = formatUnits(balance, tokenInfo.decimals);
-            const balanceNumber = Number(formattedBalance);
-            const balanceUsd = balanceNumber * tokenInfo.price;
-            
-            console.log(`Found wallet balance ${tokenInfo.symbol} via individual check: ${balanceNumber} (${balanceUsd} USD)`);
-            
-            assetsToSupply.push({
-              symbol: tokenInfo.symbol,
-              balance: formatNumber(balanceNumber, tokenInfo.decimals === 6 ? 6 : 8),
-              balanceUsd: formatCurrency(balanceUsd),
-              apy: `${tokenInfo.supplyAPY.toFixed(2)}%`,
-              canBeCollateral: tokenInfo.isCollateral,
-              icon: tokenInfo.icon
-            });
-          }
-        } catch (error) {
-          console.log(`Error checking token balance for ${tokenInfo.symbol}:`, error);
-          
-          // Last resort: direct ERC20 check
-          try {
-            const balance = await walletProvider.readContract({
-              address: tokenAddress as `0x${string}`,
-              abi: ERC20_ABI,
-              functionName: "balanceOf",
-              args: [checksumedUserAddress],
-            }) as bigint;
-            
-            if (balance > BigInt(0)) {
-              const formattedBalance = formatUnits(balance, tokenInfo.decimals);
-              const balanceNumber = Number(formattedBalance);
-              const balanceUsd = balanceNumber * tokenInfo.price;
-              
-              console.log(`Found wallet balance ${tokenInfo.symbol} via direct ERC20: ${balanceNumber} (${balanceUsd} USD)`);
-              
-              assetsToSupply.push({
-                symbol: tokenInfo.symbol,
-                balance: formatNumber(balanceNumber, tokenInfo.decimals === 6 ? 6 : 8),
-                balanceUsd: formatCurrency(balanceUsd),
-                apy: `${tokenInfo.supplyAPY.toFixed(2)}%`,
-                canBeCollateral: tokenInfo.isCollateral,
-                icon: tokenInfo.icon
-              });
-            }
-          } catch (directError) {
-            console.log(`Direct ERC20 check also failed for ${tokenInfo.symbol}:`, directError);
-          }
-        }
-      }
+      assetsToSupply.push({
+        symbol: tokenInfo.symbol,
+        balance: formatNumber(balanceNumber, tokenInfo.decimals === 6 ? 6 : 8),
+        balanceUsd: formatCurrency(balanceUsd),
+        apy: `${tokenInfo.supplyAPY.toFixed(2)}%`,
+        canBeCollateral: tokenInfo.isCollateral,
+        icon: tokenInfo.icon
+      });
     }
-  } catch (error) {
-    console.error("Error checking wallet balances:", error);
   }
   
   // Calculate total supplied value and update collateral value
@@ -957,10 +768,12 @@ ${borrowedAssets.map((asset) => `- ${asset.icon} **${asset.symbol}**: ${asset.ba
 
 ${availableToBorrowAssets.length > 0 ? `#### 💵 **Assets To Borrow**
 ${availableToBorrowAssets.map((asset) => `- ${asset.icon} **${asset.symbol}**: ${asset.available} (${asset.availableUsd})`).join('\n')}` : ''}
+${state.priceWarning}
 `;
 
   return {
     dashboard,
+    priceWarning: state.priceWarning,
     netWorth: {
       value: netWorthUsd.toString(),
       formatted: formatCurrency(netWorthUsd)
@@ -1075,6 +888,10 @@ export async function getAaveDashboardSummary(
       summary += `\n💡 **Tip**: You have collateral supplied but no borrows. You can borrow against your collateral if needed.`;
     }
     
+    if (dashboard.priceWarning) {
+      summary += `\n\n${dashboard.priceWarning}`;
+    }
+    
     return summary;
   } catch (error) {
     console.error("Error generating dashboard summary:", error);
@@ -1,10 +1,7 @@
-// 🏦 AAVE Protocol Contract Addresses on Celo
+import { getTokensWithRole } from "../../network/tokens";
+
+// 🏦 AAVE Protocol Contract Addresses on Celo (token addresses are in src/network/tokens.ts)
 export const AAVE_LENDING_POOL = "0x3E59A31363E2ad014dcbc521c4a0d5757d9f3402";
-export const CELO_TOKEN = "0x471EcE3750Da237f93B8E339c536989b8978a438";
-export const USDC_TOKEN = "0xcebA9300f2b948710d2653dD7B07f33A8B32118C";
-export const cUSD_TOKEN = "0x765DE816845861e75A25fCA122bb6898B8B1282a";
-export const cEUR_TOKEN = "0xD8763CBa276a3738E6DE85b4b3bF5FDed6D6cA73";
-export const USDT_TOKEN = "0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e"; // Tether USD on Celo
 
 // New: Wallet Balance Provider contract
 export const AAVE_WALLET_BALANCE_PROVIDER = "0xB91DA65093d54a1a7cb0fe684860F568A5E57123";
@@ -43,21 +40,9 @@ export const AAVE_PRICE_ORACLE = "0x1e693D088ceFD1E95ba4c4a5F7EeA41a1Ec37e8b";
 export const AAVE_POOL = "0x3E59A31363E2ad014dcbc521c4a0d5757d9f3402";
 
 // 🚫 Tokens not available as collateral
-export const NON_COLLATERAL_TOKENS: AaveToken[] = [
-  AaveToken.cUSD,
-  AaveToken.cEUR
-];
-
-/**
- * 🎨 Token icons
- */
-export const TOKEN_ICONS: Record<string, string> = {
-  CELO: '🟡',
-  USDC: '💵',
-  USDT: '💲',
-  cUSD: '💰',
-  cEUR: '💶',
-};
+export const NON_COLLATERAL_TOKENS: AaveToken[] = getTokensWithRole("aave")
+  .filter(token => !token.roles.includes("aave-collateral"))
+  .map(token => token.symbol as AaveToken);
 
 /**
  * 💲 Default referral code for AAVE
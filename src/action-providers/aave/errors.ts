@@ -30,6 +30,14 @@ export class WrongNetworkError extends AaveError {
   }
 }
 
+// 🧪 Error for Celo networks without an AAVE deployment
+export class UnsupportedNetworkError extends AaveError {
+  constructor(network: string) {
+    super(`AAVE is not deployed on ${network}. Switch to Celo mainnet to use AAVE.`);
+    this.name = 'UnsupportedNetworkError';
+  }
+}
+
 // ❌ Error for failed transactions
 export class TransactionFailedError extends AaveError {
   constructor(message: string) {
@@ -1,13 +1,11 @@
 import { EvmWalletProvider } from "@coinbase/agentkit";
 import { formatUnits } from "viem";
 import {
-  USDC_TOKEN,
-  cUSD_TOKEN,
-  cEUR_TOKEN,
-  CELO_TOKEN,
   ERC20_ABI,
   AaveToken,
 } from "./constants";
+import { getTokensWithRole, TokenSymbol } from "../../network/tokens";
+import { describePriceWarnings, getTokenPrices } from "../../network/prices";
 
 /**
  * 🪙 Interface for scanned token data
@@ -24,42 +22,15 @@ export interface TokenData {
 }
 
 /**
- * 📋 Token registry for easy lookup
+ * 📋 Tokens that can be supplied to AAVE
  */
-const TOKEN_REGISTRY = [
-  { 
-    symbol: 'CELO', 
-    address: CELO_TOKEN, 
-    decimals: 18, 
-    supportedByAave: true, 
-    canBeCollateral: true,
-    priceUsd: 0.5
-  },
-  { 
-    symbol: 'USDC', 
-    address: USDC_TOKEN, 
-    decimals: 6, 
-    supportedByAave: true, 
-    canBeCollateral: true,
-    priceUsd: 1.0
-  },
-  { 
-    symbol: 'cUSD', 
-    address: cUSD_TOKEN, 
-    decimals: 18, 
-    supportedByAave: true, 
-    canBeCollateral: false,
-    priceUsd: 1.0
-  },
-  { 
-    symbol: 'cEUR', 
-    address: cEUR_TOKEN, 
-    decimals: 18, 
-    supportedByAave: true, 
-    canBeCollateral: false,
-    priceUsd: 1.08
-  },
-];
+const TOKEN_REGISTRY = getTokensWithRole("aave").map(token => ({
+  symbol: token.symbol,
+  address: token.address,
+  decimals: token.decimals,
+  supportedByAave: true,
+  canBeCollateral: token.roles.includes("aave-collateral"),
+}));
 
 /**
  * 🔍 Scan for supported tokens in the user's wallet
@@ -70,6 +41,7 @@ export async function scanWalletForAaveTokens(
 ): Promise<TokenData[]> {
   const address = userAddress || await walletProvider.getAddress();
   const result: TokenData[] = [];
+  const prices = await getTokenPrices(walletProvider, TOKEN_REGISTRY.map(token => token.symbol as TokenSymbol));
   
   // Check each token in the registry
   for (const token of TOKEN_REGISTRY) {
@@ -83,7 +55,7 @@ export async function scanWalletForAaveTokens(
       
       if (balance > BigInt(0)) {
         const balanceFormatted = formatUnits(balance, token.decimals);
-        const balanceUsd = (Number(balanceFormatted) * token.priceUsd).toFixed(2);
+        const balanceUsd = (Number(balanceFormatted) * (prices[token.symbol as TokenSymbol]?.priceUsd ?? 0)).toFixed(2);
         
         result.push({
           symbol: token.symbol,
@@ -124,8 +96,11 @@ export async function getWalletTokensSummary(
   
   // Get native balance (CELO)
   const nativeBalance = await walletProvider.getBalance();
+  // Live prices are served from the cache filled by the scan
+  const prices = await getTokenPrices(walletProvider, TOKEN_REGISTRY.map(token => token.symbol as TokenSymbol));
+  const celoPrice = prices.CELO!;
   const nativeBalanceFormatted = formatUnits(nativeBalance, 18);
-  const nativeBalanceUsd = (Number(nativeBalanceFormatted) * 0.5).toFixed(2); // Assuming $0.5 per CELO
+  const nativeBalanceUsd = (Number(nativeBalanceFormatted) * celoPrice.priceUsd).toFixed(2);
   
   summary += `**Native CELO Balance**: ${nativeBalanceFormatted} ($${nativeBalanceUsd})\n\n`;
   
@@ -164,5 +139,10 @@ export async function getWalletTokensSummary(
     summary += `**💡 Suggestion**: Get some USDC or CELO to supply as collateral on AAVE.\n`;
   }
   
+  const priceWarning = describePriceWarnings(prices);
+  if (priceWarning) {
+    summary += `\n${priceWarning}\n`;
+  }
+  
   return summary;
 } 
\ No newline at end of file
@@ -12,16 +12,14 @@ import {
   CheckTokenBalanceSchema,
   CheckNativeBalanceSchema,
 } from "./schemas";
-import {
-  ERC20_ABI,
-  TRACKED_TOKENS,
-  TOKEN_DECIMALS,
-  TOKEN_SYMBOLS,
-  TOKEN_PRICES_USD,
-} from "./constants";
+import { ERC20_ABI } from "./constants";
 import { getAaveDashboard } from "../aave/aaveUIDataProvider";
 import { ichiVaultActionProvider } from "../ichi-vault";
 import { IchiVaultStrategy } from "../ichi-vault/constants";
+import { CeloNetworkConfig, findCeloNetwork } from "../../network/registry";
+import { getTokens, TokenInfo, TokenSymbol } from "../../network/tokens";
+import { describePriceWarnings, getTokenPrice, getTokenPrices, TokenPrice } from "../../network/prices";
+import { multicall } from "../../utils/multicall";
 
 // 💰 Interface for token balance with USD value
 interface TokenBalance {
@@ -46,13 +44,19 @@ export class BalanceCheckerActionProvider extends ActionProvider<EvmWalletProvid
   /**
    * 🌐 Check if we're on Celo network
    */
-  private async checkNetwork(walletProvider: EvmWalletProvider): Promise<void> {
-    const network = await walletProvider.getNetwork();
-    // Accept both network ID and chain ID checks for Celo
-    if ((!network.networkId || !network.networkId.includes("celo")) && 
-        (!network.chainId || network.chainId !== "42220")) {
+  private async checkNetwork(walletProvider: EvmWalletProvider): Promise<CeloNetworkConfig> {
+    const network = findCeloNetwork(await walletProvider.getNetwork());
+    if (!network) {
       throw new Error("This action provider is configured for Celo. Please switch your network to Celo.");
     }
+    return network;
+  }
+
+  /**
+   * 📋 Get the tracked tokens deployed on a network
+   */
+  private getTrackedTokens(network: CeloNetworkConfig): TokenInfo[] {
+    return getTokens(network.id);
   }
 
   /**
@@ -93,32 +97,41 @@ export class BalanceCheckerActionProvider extends ActionProvider<EvmWalletProvid
    */
   private getUsdValue(
     formattedBalance: string,
-    tokenAddress: string
+    price: TokenPrice
   ): string {
-    // Use type assertion to handle the string index access
-    const price = TOKEN_PRICES_USD[tokenAddress as keyof typeof TOKEN_PRICES_USD] || 0;
-    const usdValue = Number(formattedBalance) * price;
+    const usdValue = Number(formattedBalance) * price.priceUsd;
     return usdValue.toFixed(2);
   }
 
+  /**
+   * ⚠️ Warn when a value is based on a price that is not live
+   */
+  private formatPriceWarning(price: TokenPrice): string {
+    const warning = describePriceWarnings({ [price.symbol]: price });
+    return warning ? `\n${warning}` : "";
+  }
+
   /**
    * 💰 Get balances for all tracked tokens
    */
   private async getAllTokenBalances(
     walletProvider: EvmWalletProvider,
     walletAddress: string,
+    network: CeloNetworkConfig,
+    prices: Partial<Record<TokenSymbol, TokenPrice>>,
     includeUSD: boolean = true
   ): Promise<TokenBalance[]> {
     const result: TokenBalance[] = [];
+    const trackedTokens = this.getTrackedTokens(network);
     
     // Get native CELO balance
     const nativeBalance = await walletProvider.getBalance();
-    const nativeToken = TRACKED_TOKENS.find(t => t.isNative);
+    const nativeToken = trackedTokens.find(t => t.isNative);
     
     if (nativeToken) {
       const formattedBalance = this.formatTokenBalance(nativeBalance, nativeToken.decimals);
       const balanceUsd = includeUSD ? 
-        this.getUsdValue(formattedBalance, nativeToken.address) : 
+        this.getUsdValue(formattedBalance, prices[nativeToken.symbol]!) : 
         "0.00";
       
       result.push({
@@ -133,36 +146,41 @@ export class BalanceCheckerActionProvider extends ActionProvider<EvmWalletProvid
       });
     }
     
-    // Get balances for all non-native tokens
-    const tokenPromises = TRACKED_TOKENS
-      .filter(token => !token.isNative)
-      .map(async (token) => {
-        const balance = await this.getTokenBalance(
-          walletProvider, 
-          token.address, 
-          walletAddress
-        );
-        
-        if (balance > BigInt(0)) {
-          const formattedBalance = this.formatTokenBalance(balance, token.decimals);
-          const balanceUsd = includeUSD ? 
-            this.getUsdValue(formattedBalance, token.address) : 
-            "0.00";
-          
-          result.push({
-            symbol: token.symbol,
-            address: token.address,
-            balance: balance.toString(),
-            balanceFormatted: formattedBalance,
-            balanceUsd: `$${balanceUsd}`,
-            decimals: token.decimals,
-            isNative: false,
-            icon: token.icon
-          });
-        }
-      });
+    // Get balances for all non-native tokens in one batched read
+    const erc20Tokens = trackedTokens.filter(token => !token.isNative);
+    const balances = await multicall<bigint>(walletProvider, erc20Tokens.map(token => ({
+      address: token.address,
+      abi: ERC20_ABI,
+      functionName: "balanceOf",
+      args: [walletAddress],
+    })));
     
-    await Promise.all(tokenPromises);
+    erc20Tokens.forEach((token, i) => {
+      const read = balances[i];
+      if (read.status === "failure") {
+        console.error(`Error getting balance for token ${token.address}:`, read.error);
+        return;
+      }
+      
+      const balance = read.result;
+      if (balance > BigInt(0)) {
+        const formattedBalance = this.formatTokenBalance(balance, token.decimals);
+        const balanceUsd = includeUSD ? 
+          this.getUsdValue(formattedBalance, prices[token.symbol]!) : 
+          "0.00";
+        
+        result.push({
+          symbol: token.symbol,
+          address: token.address,
+          balance: balance.toString(),
+          balanceFormatted: formattedBalance,
+          balanceUsd: `$${balanceUsd}`,
+          decimals: token.decimals,
+          isNative: false,
+          icon: token.icon
+        });
+      }
+    });
     
     // Sort by USD value, highest first
     return result.sort((a, b) => {
@@ -184,14 +202,17 @@ export class BalanceCheckerActionProvider extends ActionProvider<EvmWalletProvid
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof CheckBalanceSchema>
   ): Promise<string> {
-    await this.checkNetwork(walletProvider);
+    const network = await this.checkNetwork(walletProvider);
     
     const { address, includeUSD = true } = args;
     const walletAddress = address || await walletProvider.getAddress();
     
+    const prices = await getTokenPrices(walletProvider);
     const balances = await this.getAllTokenBalances(
       walletProvider,
       walletAddress,
+      network,
+      prices,
       includeUSD
     );
     
@@ -212,25 +233,27 @@ export class BalanceCheckerActionProvider extends ActionProvider<EvmWalletProvid
     let borrowPowerUsed = 0;
     let availableToBorrow = 0;
     let healthFactor = 0;
-    try {
-      const aaveData = await getAaveDashboard(walletProvider, walletAddress);
+    // AAVE is not deployed on every Celo network
+    if (network.aave) {
+      try {
+        const aaveData = await getAaveDashboard(walletProvider, walletAddress);
       
-      // Extract key data for a brief summary
-      const totalCollateralUsd = Number(aaveData.supplies.collateral.value);
-      const totalDebtUsd = Number(aaveData.borrows.balance);
-      aaveNetWorth = Number(aaveData.netWorth.value);
-      const availableBorrowsUsd = aaveData.availableToBorrow.length > 0 ? 
-        Number(aaveData.availableToBorrow[0].availableUsd.replace('$', '')) : 0;
-      const borrowPower = aaveData.borrows.powerUsed.value;
-      const healthFactorValue = aaveData.healthFactor.value;
+        // Extract key data for a brief summary
+        const totalCollateralUsd = Number(aaveData.supplies.collateral.value);
+        const totalDebtUsd = Number(aaveData.borrows.balance);
+        aaveNetWorth = Number(aaveData.netWorth.value);
+        const availableBorrowsUsd = aaveData.availableToBorrow.length > 0 ? 
+          Number(aaveData.availableToBorrow[0].availableUsd.replace('$', '')) : 0;
+        const borrowPower = aaveData.borrows.powerUsed.value;
+        const healthFactorValue = aaveData.healthFactor.value;
       
-      // Create emoji for health factor
-      let healthFactorEmoji = "🟢";
-      if (healthFactorValue < 1.1) healthFactorEmoji = "🔴";
-      else if (healthFactorValue < 1.5) healthFactorEmoji = "🟠";
-      else if (healthFactorValue < 3) healthFactorEmoji = "🟡";
+        // Create emoji for health factor
+        let healthFactorEmoji = "🟢";
+        if (healthFactorValue < 1.1) healthFactorEmoji = "🔴";
+        else if (healthFactorValue < 1.5) healthFactorEmoji = "🟠";
+        else if (healthFactorValue < 3) healthFactorEmoji = "🟡";
       
-      aaveSummary = `
+        aaveSummary = `
 ### 📊 **AAVE User Dashboard**
 - **Net Worth**: $${aaveNetWorth.toFixed(2)} USD 💰
 - **Total Collateral**: $${totalCollateralUsd.toFixed(2)} USD
@@ -240,18 +263,19 @@ export class BalanceCheckerActionProvider extends ActionProvider<EvmWalletProvid
 - **Health Factor**: ${healthFactorValue === Infinity ? "∞" : healthFactorValue.toFixed(2)} ${healthFactorEmoji} ${this.getHealthDescription(healthFactorValue)}
 `;
 
-      totalCollateral = totalCollateralUsd;
-      totalDebt = totalDebtUsd;
-      borrowPowerUsed = borrowPower;
-      availableToBorrow = availableBorrowsUsd;
-      healthFactor = healthFactorValue;
-    } catch (error) {
-      console.error("Error fetching AAVE dashboard:", error);
-      // Provide simplified version if there's an error
-      aaveSummary = `
+        totalCollateral = totalCollateralUsd;
+        totalDebt = totalDebtUsd;
+        borrowPowerUsed = borrowPower;
+        availableToBorrow = availableBorrowsUsd;
+        healthFactor = healthFactorValue;
+      } catch (error) {
+        console.error("Error fetching AAVE dashboard:", error);
+        // Provide simplified version if there's an error
+        aaveSummary = `
 ### 📊 **AAVE Dashboard**
 To view your complete AAVE lending positions, try "aave dashboard"
 `;
+      }
     }
     
     // Get ICHI vault positions
@@ -259,40 +283,42 @@ To view your complete AAVE lending positions, try "aave dashboard"
     let totalIchiValue = 0;
     let celoUsdtVaultValue = 0;
     let celoUsdcVaultValue = 0;
-    try {
-      // Create an instance of the ICHI vault provider
-      const ichiProvider = ichiVaultActionProvider();
+    // ICHI vaults are not deployed on every Celo network
+    if (network.ichi) {
+      try {
+        // Create an instance of the ICHI vault provider
+        const ichiProvider = ichiVaultActionProvider();
       
-      // Get CELO-USDT vault balance
-      const usdtVaultResponse = await ichiProvider.getVaultBalance(walletProvider, {
-        strategy: IchiVaultStrategy.CELO_USDT
-      });
+        // Get CELO-USDT vault balance
+        const usdtVaultResponse = await ichiProvider.getVaultBalance(walletProvider, {
+          strategy: IchiVaultStrategy.CELO_USDT
+        });
       
-      // Get CELO-USDC vault balance
-      const usdcVaultResponse = await ichiProvider.getVaultBalance(walletProvider, {
-        strategy: IchiVaultStrategy.CELO_USDC
-      });
+        // Get CELO-USDC vault balance
+        const usdcVaultResponse = await ichiProvider.getVaultBalance(walletProvider, {
+          strategy: IchiVaultStrategy.CELO_USDC
+        });
       
-      // Extract detailed information using regex
-      // For USDT vault
-      const usdtValueMatch = usdtVaultResponse.match(/Current Value.*\$(\d+\.\d+)/);
-      const usdtCeloMatch = usdtVaultResponse.match(/CELO: ([\d\.]+) \(\$([\d\.]+)/);
-      const usdtTokenMatch = usdtVaultResponse.match(/USDT: ([\d\.]+) \(\$([\d\.]+)/);
+        // Extract detailed information using regex
+        // For USDT vault
+        const usdtValueMatch = usdtVaultResponse.match(/Current Value.*\$(\d+\.\d+)/);
+        const usdtCeloMatch = usdtVaultResponse.match(/CELO: ([\d\.]+) \(\$([\d\.]+)/);
+        const usdtTokenMatch = usdtVaultResponse.match(/USDT: ([\d\.]+) \(\$([\d\.]+)/);
       
-      // For USDC vault
-      const usdcValueMatch = usdcVaultResponse.match(/Current Value.*\$(\d+\.\d+)/);
-      const usdcCeloMatch = usdcVaultResponse.match(/CELO: ([\d\.]+) \(\$([\d\.]+)/);
-      const usdcTokenMatch = usdcVaultResponse.match(/USDC: ([\d\.]+) \(\$([\d\.]+)/);
+        // For USDC vault
+        const usdcValueMatch = usdcVaultResponse.match(/Current Value.*\$(\d+\.\d+)/);
+        const usdcCeloMatch = usdcVaultResponse.match(/CELO: ([\d\.]+) \(\$([\d\.]+)/);
+        const usdcTokenMatch = usdcVaultResponse.match(/USDC: ([\d\.]+) \(\$([\d\.]+)/);
       
-      // Get values or default to 0
-      const usdtValue = usdtValueMatch ? parseFloat(usdtValueMatch[1]) : 0;
-      const usdcValue = usdcValueMatch ? parseFloat(usdcValueMatch[1]) : 0;
+        // Get values or default to 0
+        const usdtValue = usdtValueMatch ? parseFloat(usdtValueMatch[1]) : 0;
+        const usdcValue = usdcValueMatch ? parseFloat(usdcValueMatch[1]) : 0;
       
-      // Only include ICHI positions if we have any value
-      totalIchiValue = usdtValue + usdcValue;
+        // Only include ICHI positions if we have any value
+        totalIchiValue = usdtValue + usdcValue;
       
-      if (totalIchiValue > 0) {
-        ichiSummary = `
+        if (totalIchiValue > 0) {
+          ichiSummary = `
 ### 🌊 **ICHI Vault Positions**
 - **Total Value**: $${totalIchiValue.toFixed(2)} USD 💰
 
@@ -307,12 +333,13 @@ ${usdcTokenMatch ? `- 💵 USDC: ${usdcTokenMatch[1]} ($${usdcTokenMatch[2]} USD
 - **Value**: $${usdcValue.toFixed(2)} USD\n` : ''}
 `;
 
-        celoUsdtVaultValue = usdtValue;
-        celoUsdcVaultValue = usdcValue;
+          celoUsdtVaultValue = usdtValue;
+          celoUsdcVaultValue = usdcValue;
+        }
+      } catch (error) {
+        console.error("Error fetching ICHI vault positions:", error);
+        // Don't show any ICHI summary if there's an error
       }
-    } catch (error) {
-      console.error("Error fetching ICHI vault positions:", error);
-      // Don't show any ICHI summary if there's an error
     }
     
     // Calculate grand total including tokens, AAVE net worth, and ICHI vaults
@@ -341,6 +368,11 @@ ${usdcTokenMatch ? `- 💵 USDC: ${usdcTokenMatch[1]} ($${usdcTokenMatch[2]} USD
     // Add AAVE summary
     result += aaveSummary;
     
+    const priceWarning = includeUSD ? describePriceWarnings(prices) : "";
+    if (priceWarning) {
+      result += `\n${priceWarning}\n`;
+    }
+    
     return result;
   }
 
@@ -367,13 +399,13 @@ ${usdcTokenMatch ? `- 💵 USDC: ${usdcTokenMatch[1]} ($${usdcTokenMatch[2]} USD
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof CheckTokenBalanceSchema>
   ): Promise<string> {
-    await this.checkNetwork(walletProvider);
+    const network = await this.checkNetwork(walletProvider);
     
     const { address, tokenAddress } = args;
     const walletAddress = address || await walletProvider.getAddress();
     
     // Get token details
-    const tokenInfo = TRACKED_TOKENS.find(t => t.address.toLowerCase() === tokenAddress.toLowerCase());
+    const tokenInfo = this.getTrackedTokens(network).find(t => t.address.toLowerCase() === tokenAddress.toLowerCase());
     if (!tokenInfo) {
       return `Token with address ${tokenAddress} is not in the tracked tokens list.`;
     }
@@ -384,11 +416,13 @@ ${usdcTokenMatch ? `- 💵 USDC: ${usdcTokenMatch[1]} ($${usdcTokenMatch[2]} USD
       await this.getTokenBalance(walletProvider, tokenAddress, walletAddress);
     
     const formattedBalance = this.formatTokenBalance(balance, tokenInfo.decimals);
-    const balanceUsd = this.getUsdValue(formattedBalance, tokenAddress);
+    const price = await getTokenPrice(walletProvider, tokenInfo.symbol);
+    const balanceUsd = this.getUsdValue(formattedBalance, price);
     
     return `${tokenInfo.icon} **${tokenInfo.symbol}** Balance for ${walletAddress}:\n` +
       `Balance: ${formattedBalance} ${tokenInfo.symbol}\n` +
-      `Value: $${balanceUsd} USD`;
+      `Value: $${balanceUsd} USD` +
+      this.formatPriceWarning(price);
   }
 
   /**
@@ -403,13 +437,13 @@ ${usdcTokenMatch ? `- 💵 USDC: ${usdcTokenMatch[1]} ($${usdcTokenMatch[2]} USD
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof CheckNativeBalanceSchema>
   ): Promise<string> {
-    await this.checkNetwork(walletProvider);
+    const network = await this.checkNetwork(walletProvider);
     
     const { address } = args;
     const walletAddress = address || await walletProvider.getAddress();
     
     // Get native token details
-    const nativeToken = TRACKED_TOKENS.find(t => t.isNative);
+    const nativeToken = this.getTrackedTokens(network).find(t => t.isNative);
     if (!nativeToken) {
       return `Native token information not found.`;
     }
@@ -417,18 +451,20 @@ ${usdcTokenMatch ? `- 💵 USDC: ${usdcTokenMatch[1]} ($${usdcTokenMatch[2]} USD
     // Get native token balance
     const balance = await walletProvider.getBalance();
     const formattedBalance = this.formatTokenBalance(balance, nativeToken.decimals);
-    const balanceUsd = this.getUsdValue(formattedBalance, nativeToken.address);
+    const price = await getTokenPrice(walletProvider, nativeToken.symbol);
+    const balanceUsd = this.getUsdValue(formattedBalance, price);
     
     return `${nativeToken.icon} **${nativeToken.symbol}** Balance for ${walletAddress}:\n` +
       `Balance: ${formattedBalance} ${nativeToken.symbol}\n` +
-      `Value: $${balanceUsd} USD`;
+      `Value: $${balanceUsd} USD` +
+      this.formatPriceWarning(price);
   }
 
   /**
    * 🌐 Check if network is supported
    */
   supportsNetwork = (network: Network): boolean => {
-    return network.networkId?.includes("celo") || network.chainId === "42220";
+    return findCeloNetwork(network) !== undefined;
   };
 }
 
@@ -4,9 +4,6 @@ import { type Abi } from 'viem';
 export const ICHI_DEPOSIT_FORWARDER = "0x62fd1824C810906F449227F1f453528bb54774C2" as const;
 export const ICHI_VAULT = "0xaCEa643370334558285DD94437fC4f6B25426fA1" as const; // CELO-USDT vault
 export const ICHI_VAULT_USDC = "0xdCac915e2e98F2B9888898c2d69BcA89f764E690" as const; // CELO-USDC vault
-export const CELO_TOKEN = "0x471ece3750da237f93b8e339c536989b8978a438" as const;
-export const USDT_TOKEN = "0x48065fbbe25f71c9282ddf5e1cd6d6a887483d5e";
-export const USDC_TOKEN = "0xceba9300f2b948710d2653dd7b07f33a8b32118c";
 
 // 🔄 ICHI Deposit Forwarder ABI
 export const ICHI_DEPOSIT_FORWARDER_ABI = [
@@ -30,6 +30,14 @@ export class WrongNetworkError extends IchiVaultError {
   }
 }
 
+// 🧪 Error for Celo networks without ICHI vaults
+export class UnsupportedNetworkError extends IchiVaultError {
+  constructor(network: string) {
+    super(`ICHI vaults are not deployed on ${network}. Switch to Celo mainnet to use ICHI vaults.`);
+    this.name = 'UnsupportedNetworkError';
+  }
+}
+
 // ❌ Error for failed transactions
 export class TransactionFailedError extends IchiVaultError {
   constructor(message: string) {
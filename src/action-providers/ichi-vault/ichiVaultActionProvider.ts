@@ -24,30 +24,28 @@ import {
   ICHI_VAULT,
   ICHI_VAULT_USDC,
   ICHI_VAULT_ABI,
-  CELO_TOKEN,
   CELO_TOKEN_ABI,
   ICHI_VAULT_FACTORY,
   VAULT_DEPLOYER,
   DEFAULT_MIN_PROCEEDS,
   ERC20_ABI,
-  USDT_TOKEN,
-  USDC_TOKEN,
   ICHI_VAULT_ANALYTICS,
   ICHI_VAULT_ANALYTICS_ABI,
   IchiVaultStrategy,
 } from "./constants";
-// Import AAVE price oracle constants directly from aave constants
-import {
-  AAVE_PRICE_ORACLE,
-  AAVE_PRICE_ORACLE_ABI,
-} from "../aave/constants";
 import {
   IchiVaultError,
   InsufficientBalanceError,
   InsufficientAllowanceError,
   WrongNetworkError,
   TransactionFailedError,
+  UnsupportedNetworkError,
 } from "./errors";
+import { findCeloNetwork } from "../../network/registry";
+import { findTokenByAddress, getTokenAddress } from "../../network/tokens";
+import { describePriceWarnings, getTokenPrices } from "../../network/prices";
+import { describeTransactionResult } from "../../utils/deferred-transaction";
+import { withTransactionBundle } from "../../utils/transaction-utils";
 
 /**
  * 🏦 IchiVaultActionProvider provides actions for interacting with ICHI vaults on Celo
@@ -61,12 +59,13 @@ export class IchiVaultActionProvider extends ActionProvider<EvmWalletProvider> {
    * 🌐 Check if we're on Celo network
    */
   private async checkNetwork(walletProvider: EvmWalletProvider): Promise<void> {
-    const network = await walletProvider.getNetwork();
-    // Accept both network ID and chain ID checks for Celo
-    if ((!network.networkId || !network.networkId.includes("celo")) && 
-        (!network.chainId || network.chainId !== "42220")) {
+    const network = findCeloNetwork(await walletProvider.getNetwork());
+    if (!network) {
       throw new WrongNetworkError();
     }
+    if (!network.ichi) {
+      throw new UnsupportedNetworkError(network.name);
+    }
   }
 
   /**
@@ -80,7 +79,7 @@ export class IchiVaultActionProvider extends ActionProvider<EvmWalletProvider> {
    * 💰 Get the token1 address based on the selected strategy
    */
   private getToken1Address(strategy: IchiVaultStrategy = IchiVaultStrategy.CELO_USDT): string {
-    return strategy === IchiVaultStrategy.CELO_USDT ? USDT_TOKEN : USDC_TOKEN;
+    return strategy === IchiVaultStrategy.CELO_USDT ? getTokenAddress("USDT") : getTokenAddress("USDC");
   }
 
   /**
@@ -154,7 +153,7 @@ export class IchiVaultActionProvider extends ActionProvider<EvmWalletProvider> {
     
     const address = await walletProvider.getAddress();
     const balance = await walletProvider.readContract({
-      address: CELO_TOKEN as `0x${string}`,
+      address: getTokenAddress("CELO"),
       abi: CELO_TOKEN_ABI,
       functionName: "balanceOf",
       args: [address as `0x${string}`],
@@ -190,7 +189,7 @@ export class IchiVaultActionProvider extends ActionProvider<EvmWalletProvider> {
     
     const address = await walletProvider.getAddress();
     const allowance = await walletProvider.readContract({
-      address: CELO_TOKEN as `0x${string}`,
+      address: getTokenAddress("CELO"),
       abi: CELO_TOKEN_ABI,
       functionName: "allowance",
       args: [address as `0x${string}`, spender as `0x${string}`],
@@ -215,19 +214,12 @@ export class IchiVaultActionProvider extends ActionProvider<EvmWalletProvider> {
   }
 
   /**
-   * 🔗 Get Celoscan transaction link
-   */
-  private getCeloscanLink(txHash: string): string {
-    return `https://celoscan.io/tx/${txHash}`;
-  }
-
-  /**
-   * 📝 Format transaction success message without direct hash link
+   * 📝 Format transaction success message (deferred transactions are never linked on Celoscan)
    */
-  private getTransactionMessage(action: string, amount: string, strategy: string): string {
+  private getTransactionMessage(action: string, amount: string, strategy: string, txHash: string): string {
     return `I've submitted your request to ${action} ${amount} for the ICHI ${strategy} vault. 
 
-The transaction has been sent to your wallet for signing. Once signed, it will be processed on the blockchain.
+${describeTransactionResult(txHash)}
 
 You can monitor the status in the Transactions panel.`;
   }
@@ -341,12 +333,12 @@ Example: To approve 5 CELO, use amount: "5"
       });
 
       const tx = await walletProvider.sendTransaction({
-        to: CELO_TOKEN as `0x${string}`,
+        to: getTokenAddress("CELO"),
         data: approveData,
       });
 
       await walletProvider.waitForTransactionReceipt(tx);
-      return this.getTransactionMessage("approve", amountDisplay, strategy);
+      return this.getTransactionMessage("approve", amountDisplay, strategy, tx);
     } catch (error) {
       if (error instanceof IchiVaultError) {
         return `❌ Error: ${error.message}`;
@@ -408,7 +400,7 @@ Example: To deposit 5 CELO, use amount: "5"
         args: [
           vaultAddress as `0x${string}`,
           VAULT_DEPLOYER as `0x${string}`,
-          CELO_TOKEN as `0x${string}`,
+          getTokenAddress("CELO"),
           amountInWei,
           BigInt(minimumProceeds),
           address as `0x${string}`,
@@ -421,7 +413,7 @@ Example: To deposit 5 CELO, use amount: "5"
       });
 
       await walletProvider.waitForTransactionReceipt(tx);
-      return this.getTransactionMessage("deposit", amountDisplay, strategy);
+      return this.getTransactionMessage("deposit", amountDisplay, strategy, tx);
     } catch (error) {
       if (error instanceof IchiVaultError) {
         return `❌ Error: ${error.message}`;
@@ -473,61 +465,64 @@ Parameters:
       // Check balance with original amount
       await this.checkCeloBalance(walletProvider, originalAmount);
       
-      // Check allowance first
-      const address = await walletProvider.getAddress();
-      const allowance = await walletProvider.readContract({
-        address: CELO_TOKEN as `0x${string}`,
-        abi: ERC20_ABI,
-        functionName: "allowance",
-        args: [address as `0x${string}`, ICHI_DEPOSIT_FORWARDER as `0x${string}`]
-      }) as bigint;
+      // Approve and deposit are released to the wallet one after the other
+      return await withTransactionBundle(`Provide ${amountDisplay} CELO to ICHI ${strategy} vault`, async () => {
+        // Check allowance first
+        const address = await walletProvider.getAddress();
+        const allowance = await walletProvider.readContract({
+          address: getTokenAddress("CELO"),
+          abi: ERC20_ABI,
+          functionName: "allowance",
+          args: [address as `0x${string}`, ICHI_DEPOSIT_FORWARDER as `0x${string}`]
+        }) as bigint;
 
-      console.log(`[provideCelo] Current allowance: ${formatEther(allowance)} CELO (${allowance} wei)`);
-      console.log(`[provideCelo] Required amount: ${amountDisplay} CELO (${amountInWei} wei)`);
+        console.log(`[provideCelo] Current allowance: ${formatEther(allowance)} CELO (${allowance} wei)`);
+        console.log(`[provideCelo] Required amount: ${amountDisplay} CELO (${amountInWei} wei)`);
+
+        // If allowance is insufficient, approve tokens first
+        if (allowance < amountInWei) {
+          console.log(`[provideCelo] Approving ${amountDisplay} CELO for the ICHI deposit forwarder...`);
+          const approveData = encodeFunctionData({
+            abi: ERC20_ABI,
+            functionName: "approve",
+            args: [ICHI_DEPOSIT_FORWARDER as `0x${string}`, amountInWei]
+          });
+
+          const approveTx = await walletProvider.sendTransaction({
+            to: getTokenAddress("CELO"),
+            data: approveData,
+          });
+
+          await walletProvider.waitForTransactionReceipt(approveTx);
+          console.log(`[provideCelo] Step 1/2: CELO approval submitted. ${describeTransactionResult(approveTx)}`);
+        }
 
-      // If allowance is insufficient, approve tokens first
-      if (allowance < amountInWei) {
-        console.log(`[provideCelo] Approving ${amountDisplay} CELO for the ICHI deposit forwarder...`);
-        const approveData = encodeFunctionData({
-          abi: ERC20_ABI,
-          functionName: "approve",
-          args: [ICHI_DEPOSIT_FORWARDER as `0x${string}`, amountInWei]
+        // Now deposit the tokens
+        const minimumProceeds = strategy === IchiVaultStrategy.CELO_USDT ? "366908" : DEFAULT_MIN_PROCEEDS;
+
+        console.log(`[provideCelo] Depositing with minimum proceeds: ${minimumProceeds}`);
+
+        const depositData = encodeFunctionData({
+          abi: ICHI_DEPOSIT_FORWARDER_ABI,
+          functionName: "forwardDepositToICHIVault",
+          args: [
+            vaultAddress as `0x${string}`,
+            VAULT_DEPLOYER as `0x${string}`,
+            getTokenAddress("CELO"),
+            amountInWei,
+            BigInt(minimumProceeds),
+            address as `0x${string}`
+          ]
         });
 
-        const approveTx = await walletProvider.sendTransaction({
-          to: CELO_TOKEN as `0x${string}`,
-          data: approveData,
+        const tx = await walletProvider.sendTransaction({
+          to: ICHI_DEPOSIT_FORWARDER as `0x${string}`,
+          data: depositData,
         });
 
-        await walletProvider.waitForTransactionReceipt(approveTx);
-        console.log(`[provideCelo] Step 1/2: CELO approved successfully! Tx: ${this.getCeloscanLink(approveTx)}`);
-      }
-
-      // Now deposit the tokens
-      const minimumProceeds = strategy === IchiVaultStrategy.CELO_USDT ? "366908" : DEFAULT_MIN_PROCEEDS;
-
-      console.log(`[provideCelo] Depositing with minimum proceeds: ${minimumProceeds}`);
-
-      const depositData = encodeFunctionData({
-        abi: ICHI_DEPOSIT_FORWARDER_ABI,
-        functionName: "forwardDepositToICHIVault",
-        args: [
-          vaultAddress as `0x${string}`,
-          VAULT_DEPLOYER as `0x${string}`,
-          CELO_TOKEN as `0x${string}`,
-          amountInWei,
-          BigInt(minimumProceeds),
-          address as `0x${string}`
-        ]
-      });
-
-      const tx = await walletProvider.sendTransaction({
-        to: ICHI_DEPOSIT_FORWARDER as `0x${string}`,
-        data: depositData,
+        await walletProvider.waitForTransactionReceipt(tx);
+        return this.getTransactionMessage("provide", amountDisplay, strategy, tx);
       });
-
-      await walletProvider.waitForTransactionReceipt(tx);
-      return this.getTransactionMessage("provide", amountDisplay, strategy);
     } catch (error) {
       if (error instanceof Error) {
         return `❌ Transaction failed: ${error.message}`;
@@ -583,7 +578,7 @@ Example: To withdraw all your shares, get your balance first with get-ichi-vault
       });
 
       const receipt = await walletProvider.waitForTransactionReceipt(tx);
-      return this.getTransactionMessage("withdraw", args.shares, strategy);
+      return this.getTransactionMessage("withdraw", args.shares, strategy, tx);
     } catch (error) {
       if (error instanceof IchiVaultError) {
         return `❌ Error: ${error.message}`;
@@ -658,39 +653,15 @@ Parameters:
       }
       
       // Format amounts for display
-      const formattedCelo = await this.formatAmount(walletProvider, CELO_TOKEN, userCeloAmount);
+      const formattedCelo = await this.formatAmount(walletProvider, getTokenAddress("CELO"), userCeloAmount);
       const formattedToken1 = await this.formatAmount(walletProvider, token1Address, userToken1Amount);
       
-      // Get USD values using AAVE price oracle
-      let celoPrice = 0;
-      let token1Price = 0;
-      
-      try {
-        // Get CELO price
-        const celoPriceBigInt = await walletProvider.readContract({
-          address: AAVE_PRICE_ORACLE as `0x${string}`,
-          abi: AAVE_PRICE_ORACLE_ABI,
-          functionName: "getAssetPrice",
-          args: [CELO_TOKEN as `0x${string}`],
-        }) as bigint;
-        
-        // Get token1 price
-        const token1PriceBigInt = await walletProvider.readContract({
-          address: AAVE_PRICE_ORACLE as `0x${string}`,
-          abi: AAVE_PRICE_ORACLE_ABI,
-          functionName: "getAssetPrice",
-          args: [token1Address as `0x${string}`],
-        }) as bigint;
-        
-        // Oracle returns prices with 8 decimals
-        celoPrice = Number(formatUnits(celoPriceBigInt, 8));
-        token1Price = Number(formatUnits(token1PriceBigInt, 8));
-      } catch (e) {
-        console.error("Error getting prices from AAVE oracle:", e);
-        // Fallback prices
-        celoPrice = 0.66;
-        token1Price = 1.0;
-      }
+      // Get USD values from the price service
+      const token1Symbol = strategy === IchiVaultStrategy.CELO_USDT ? "USDT" : "USDC";
+      const prices = await getTokenPrices(walletProvider, ["CELO", token1Symbol]);
+      const celoPrice = prices.CELO!.priceUsd;
+      const token1Price = prices[token1Symbol]!.priceUsd;
+      const priceWarning = describePriceWarnings(prices);
       
       // Get correct decimals for the token1
       let token1Decimals = 18; // Default
@@ -703,7 +674,7 @@ Parameters:
       } catch (e) {
         console.error("Error getting token decimals, using default:", e);
         // Use default based on token type
-        token1Decimals = token1Address === USDC_TOKEN ? 6 : 18;
+        token1Decimals = findTokenByAddress(token1Address)?.decimals ?? 18;
       }
       
       // Calculate USD values with correct decimals
@@ -723,7 +694,7 @@ Parameters:
 - ${strategyEmoji} **${tokenSymbol}**: ${formattedToken1} ($${token1UsdValue.toFixed(2)} USD)
 
 **Current Value**: $${totalUsdValue.toFixed(2)} USD 💰
-**APR**: ≈3-5% 📈 ${this.getAprEmoji(totalUsdValue)}`;
+**APR**: ≈3-5% 📈 ${this.getAprEmoji(totalUsdValue)}${priceWarning ? `\n\n${priceWarning}` : ""}`;
     } catch (error) {
       if (error instanceof IchiVaultError) {
         return `❌ Error: ${error.message}`;
@@ -775,16 +746,17 @@ Parameters:
         functionName: "getTotalAmounts",
       }) as [bigint, bigint];
 
-      // Calculate total value in token1 terms
-      const celoPrice = await this.getCeloPrice(walletProvider, strategy);
-      const totalValueCelo = (total0 * celoPrice) / BigInt(1e18);
-      const totalValueToken1 = total1;
-      const totalValueInToken1 = totalValueCelo + totalValueToken1;
-      
       // Format amounts for display
-      const formattedTotal0 = await this.formatAmount(walletProvider, CELO_TOKEN, total0);
+      const formattedTotal0 = await this.formatAmount(walletProvider, getTokenAddress("CELO"), total0);
       const formattedTotal1 = await this.formatAmount(walletProvider, token1Address, total1);
-      const formattedTotalUsd = Number(totalValueInToken1) / (strategy === IchiVaultStrategy.CELO_USDT ? 1e6 : 1e6); // USDT and USDC both use 6 decimals
+      
+      // Value the vault with the price service (USDT and USDC both use 6 decimals)
+      const token1Symbol = strategy === IchiVaultStrategy.CELO_USDT ? "USDT" : "USDC";
+      const prices = await getTokenPrices(walletProvider, ["CELO", token1Symbol]);
+      const formattedTotalUsd =
+        Number(formatUnits(total0, 18)) * prices.CELO!.priceUsd +
+        Number(formatUnits(total1, 6)) * prices[token1Symbol]!.priceUsd;
+      const priceWarning = describePriceWarnings(prices);
       
       // Get 7-day APR from ICHI Analytics contract
       let sevenDayAPR = 36.2; // Default value matching dashboard
@@ -816,7 +788,7 @@ Parameters:
 Total Value Locked: ${formattedTotal0} + ${formattedTotal1} (≈$${formattedTotalUsd.toLocaleString()})
 
 Note: APR based on actual vault performance over the last 7 days.
-`;
+${priceWarning ? `${priceWarning}\n` : ""}`;
     } catch (error) {
       if (error instanceof IchiVaultError) {
         return `❌ Error: ${error.message}`;
@@ -828,31 +800,6 @@ Note: APR based on actual vault performance over the last 7 days.
     }
   }
 
-  /**
-   * 💱 Get CELO price in token1 (USDT/USDC)
-   */
-  private async getCeloPrice(walletProvider: EvmWalletProvider, strategy: IchiVaultStrategy = IchiVaultStrategy.CELO_USDT): Promise<bigint> {
-    try {
-      const vaultAddress = this.getVaultAddress(strategy);
-      
-      // Get the current ratio of token1/CELO from the vault
-      const [total0, total1] = await walletProvider.readContract({
-        address: vaultAddress as `0x${string}`,
-        abi: ICHI_VAULT_ABI,
-        functionName: "getTotalAmounts",
-      }) as [bigint, bigint];
-
-      if (total0 === BigInt(0)) return BigInt(0);
-
-      // Calculate CELO price in token1 (6 decimals for both USDT and USDC)
-      // total1 (token1 with 6 decimals) / total0 (CELO with 18 decimals) * 1e18
-      return (total1 * BigInt(1e18)) / total0;
-    } catch (error) {
-      console.error(`Error getting CELO price for ${strategy}:`, error);
-      return BigInt(0);
-    }
-  }
-
   /**
    * 📊 Calculate APR based on trading activity
    */
@@ -867,13 +814,8 @@ Note: APR based on actual vault performance over the last 7 days.
         functionName: "getTotalAmounts",
       }) as [bigint, bigint];
 
-      // Calculate total value in token1 terms
-      const celoPrice = await this.getCeloPrice(walletProvider, strategy);
-      const totalValueCelo = (total0 * celoPrice) / BigInt(1e18);
-      const totalValueToken1 = total1;
-      const totalValueInToken1 = totalValueCelo + totalValueToken1;
-      
-      if (totalValueInToken1 === BigInt(0)) return 0;
+      // An empty vault earns no fees
+      if (total0 === BigInt(0) && total1 === BigInt(0)) return 0;
       
       // ICHI model parameters (based on official implementation)
       const dailyFeeRate = 0.0005; // 0.05% fee per swap
@@ -931,7 +873,7 @@ Parameters:
       
       // Parse the CollectFees event to get the fees collected
       // For simplicity, we'll just report that fees were collected
-      return this.getTransactionMessage("collect fees", "0", strategy);
+      return this.getTransactionMessage("collect fees", "0", strategy, tx);
     } catch (error) {
       if (error instanceof IchiVaultError) {
         return `❌ Error: ${error.message}`;
@@ -973,11 +915,11 @@ Returns details about each available ICHI vault strategy.
       }) as [bigint, bigint];
       
       // Format amounts for display
-      const formattedUsdtCelo = await this.formatAmount(walletProvider, CELO_TOKEN, usdtTotal0);
-      const formattedUsdt = await this.formatAmount(walletProvider, USDT_TOKEN, usdtTotal1);
+      const formattedUsdtCelo = await this.formatAmount(walletProvider, getTokenAddress("CELO"), usdtTotal0);
+      const formattedUsdt = await this.formatAmount(walletProvider, getTokenAddress("USDT"), usdtTotal1);
       
-      const formattedUsdcCelo = await this.formatAmount(walletProvider, CELO_TOKEN, usdcTotal0);
-      const formattedUsdc = await this.formatAmount(walletProvider, USDC_TOKEN, usdcTotal1);
+      const formattedUsdcCelo = await this.formatAmount(walletProvider, getTokenAddress("CELO"), usdcTotal0);
+      const formattedUsdc = await this.formatAmount(walletProvider, getTokenAddress("USDC"), usdcTotal1);
       
       return `📋 Available ICHI Vault Strategies:
 
@@ -1069,9 +1011,8 @@ Returns detailed information about all your positions across different ICHI vaul
   }
 
   supportsNetwork = (network: Network): boolean => {
-    // Accept both network ID and chain ID checks for Celo
-    return network.protocolFamily === "evm" && 
-           (Boolean(network.networkId?.includes("celo")) || network.chainId === "42220");
+    // ICHI vaults are only deployed on Celo mainnet
+    return network.protocolFamily === "evm" && findCeloNetwork(network)?.ichi !== undefined;
   };
 }
 
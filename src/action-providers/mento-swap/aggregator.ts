@@ -0,0 +1,291 @@
+/**
+ * Best-execution swap quotes across Mento, Uniswap v3 and Ubeswap
+ *
+ * Every venue deployed on the network is quoted for the same pair and amount, and a venue that
+ * cannot quote the pair is left out, so pairs Mento does not serve can still be swapped
+ * elsewhere. Venues are ranked by their output after gas (exactIn) or their input plus gas
+ * (exactOut): the gas estimate of each swap is priced at SWAP_GAS_PRICE_GWEI and converted to
+ * the compared token through the price service.
+ */
+import { EvmWalletProvider } from '@coinbase/agentkit';
+import { encodeFunctionData, formatEther, formatUnits, parseUnits, type Address, type Hex } from 'viem';
+import { MENTO_BROKER_ABI, MENTO_SWAP_GAS_PER_HOP } from './constants';
+import { MentoSwapError } from './errors';
+import { getMentoSwapSteps, quoteMentoPriceImpact, quoteMentoRoute, type SwapSide } from './router';
+import {
+  encodeRouterSwap,
+  getRouterAddress,
+  getVenuePath,
+  quoteUbeswap,
+  quoteUniswapV3,
+  SWAP_VENUE_NAMES,
+  type SwapVenue,
+  type VenueHop,
+  type VenueQuote,
+} from './venues';
+import { getMaxAmountIn, getMinAmountOut, getPriceImpactBps } from '../../utils/slippage';
+import { PRICE_IMPACT_REFERENCE_DIVISOR, SWAP_GAS_PRICE_GWEI } from '../../constants/network';
+import { CeloNetworkConfig } from '../../network/registry';
+import { getTokenPrices } from '../../network/prices';
+import { TokenInfo } from '../../network/tokens';
+
+// A venue quote with its cost after gas
+export type RankedVenueQuote = VenueQuote & {
+  // Gas cost in whole units of the compared token (toToken for exactIn, fromToken for exactOut);
+  // undefined when only one venue quoted, as there is nothing to compare
+  gasCost?: number;
+  // Output after gas (exactIn) or input plus gas (exactOut), in whole units of the compared token
+  netAmount: number;
+};
+
+// Quotes of every venue for one swap
+export interface VenueComparison {
+  // Best first
+  quotes: RankedVenueQuote[];
+  // Venues that could not quote the swap
+  failures: { venue: SwapVenue; error: Error }[];
+}
+
+// A transaction of a swap, ready to send
+export interface VenueSwapStep extends VenueHop {
+  // Contract to call, which is also the spender to approve
+  to: Address;
+  data: Hex;
+  // Least the transaction may return; amountOut for exactOut
+  minAmountOut: bigint;
+  // Most the transaction may take; amountIn for exactIn
+  maxAmountIn: bigint;
+}
+
+/**
+ * Venues deployed on a network, Mento first
+ */
+export function getSwapVenues(network: CeloNetworkConfig): SwapVenue[] {
+  return [
+    'mento',
+    ...(network.uniswapV3 ? ['uniswap-v3' as const] : []),
+    ...(network.ubeswap ? ['ubeswap' as const] : []),
+  ];
+}
+
+/**
+ * Venues to quote for a venue choice: every deployed venue for 'best', or the one chosen
+ *
+ * @throws MentoSwapError if the chosen venue is not deployed on the network
+ */
+export function selectSwapVenues(network: CeloNetworkConfig, venue: SwapVenue | 'best'): SwapVenue[] {
+  const venues = getSwapVenues(network);
+  if (venue === 'best') {
+    return venues;
+  }
+  if (!venues.includes(venue)) {
+    throw new MentoSwapError(`${SWAP_VENUE_NAMES[venue]} is not available on ${network.name}.`);
+  }
+  return [venue];
+}
+
+/**
+ * Get the contract a venue's swaps are sent to, which is also the spender to approve
+ */
+export function getVenueSpender(network: CeloNetworkConfig, venue: SwapVenue): Address {
+  return venue === 'mento' ? network.mento.broker : getRouterAddress(network, venue);
+}
+
+/**
+ * Describe a venue quote, e.g. "Uniswap v3 (0.05% pool)"
+ */
+export function describeVenue(quote: VenueQuote): string {
+  return quote.venue === 'uniswap-v3'
+    ? `${SWAP_VENUE_NAMES[quote.venue]} (${quote.fee / 10000}% pool)`
+    : SWAP_VENUE_NAMES[quote.venue];
+}
+
+/**
+ * Quote one venue
+ */
+async function quoteVenue(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  venue: SwapVenue,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amount: bigint,
+  side: SwapSide
+): Promise<VenueQuote> {
+  if (venue === 'uniswap-v3') {
+    return quoteUniswapV3(walletProvider, network, tokenIn, tokenOut, amount, side);
+  }
+  if (venue === 'ubeswap') {
+    return quoteUbeswap(walletProvider, network, tokenIn, tokenOut, amount, side);
+  }
+
+  const route = await quoteMentoRoute(walletProvider, network, tokenIn, tokenOut, amount, side);
+  return {
+    venue,
+    route,
+    side,
+    hops: route.hops,
+    amountIn: route.amountIn,
+    amountOut: route.amountOut,
+    gas: BigInt(MENTO_SWAP_GAS_PER_HOP * route.hops.length),
+  };
+}
+
+/**
+ * Rank quotes by their output after gas (exactIn) or input plus gas (exactOut)
+ */
+async function rankQuotes(
+  walletProvider: EvmWalletProvider,
+  quotes: VenueQuote[],
+  token: TokenInfo,
+  side: SwapSide
+): Promise<RankedVenueQuote[]> {
+  const exactIn = side === 'exactIn';
+  const amountOf = (quote: VenueQuote) => Number(formatUnits(exactIn ? quote.amountOut : quote.amountIn, token.decimals));
+  if (quotes.length === 1) {
+    return [{ ...quotes[0], netAmount: amountOf(quotes[0]) }];
+  }
+
+  const prices = await getTokenPrices(walletProvider, ['CELO', token.symbol]);
+  const tokensPerCelo = prices.CELO!.priceUsd / prices[token.symbol]!.priceUsd;
+  const gasPrice = parseUnits(String(SWAP_GAS_PRICE_GWEI), 9);
+
+  const ranked = quotes.map(quote => {
+    const gasCost = Number(formatEther(quote.gas * gasPrice)) * tokensPerCelo;
+    return { ...quote, gasCost, netAmount: exactIn ? amountOf(quote) - gasCost : amountOf(quote) + gasCost };
+  });
+  // The sort is stable, so Mento wins ties
+  return ranked.sort((a, b) => (exactIn ? b.netAmount - a.netAmount : a.netAmount - b.netAmount));
+}
+
+/**
+ * Quote a swap on every venue and rank the quotes after gas
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param network Network whose venues are quoted
+ * @param tokenIn Token to sell
+ * @param tokenOut Token to buy
+ * @param amount Amount to sell (exactIn) or buy (exactOut), in the smallest unit of the token
+ * @param side Whether the amount is sold or bought
+ * @param venues Venues to quote (defaults to every venue deployed on the network)
+ * @returns The quotes, best first, and the venues that could not quote the swap
+ * @throws The error of Mento (or of the only venue) when no venue could quote the swap
+ */
+export async function compareSwapVenues(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amount: bigint,
+  side: SwapSide = 'exactIn',
+  venues: SwapVenue[] = getSwapVenues(network)
+): Promise<VenueComparison> {
+  const outcomes = await Promise.allSettled(
+    venues.map(venue => quoteVenue(walletProvider, network, venue, tokenIn, tokenOut, amount, side))
+  );
+
+  const quotes: VenueQuote[] = [];
+  const failures: VenueComparison['failures'] = [];
+  outcomes.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      quotes.push(outcome.value);
+      return;
+    }
+    const error = outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason));
+    console.warn(`[swap] ${SWAP_VENUE_NAMES[venues[i]]} could not quote ${tokenIn.symbol} to ${tokenOut.symbol}:`, error.message);
+    failures.push({ venue: venues[i], error });
+  });
+
+  if (quotes.length === 0) {
+    // Mento's error lists the tokens it can swap with
+    throw (failures.find(failure => failure.venue === 'mento') ?? failures[0]).error;
+  }
+
+  const ranked = await rankQuotes(walletProvider, quotes, side === 'exactIn' ? tokenOut : tokenIn, side);
+  return { quotes: ranked, failures };
+}
+
+/**
+ * Measure the price impact of a venue quote
+ *
+ * The same path (and for Uniswap v3 the same pool) is quoted for 1/PRICE_IMPACT_REFERENCE_DIVISOR
+ * of the amount, as for Mento routes.
+ *
+ * @returns Price impact in basis points
+ */
+export async function quoteVenuePriceImpact(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  quote: VenueQuote
+): Promise<bigint> {
+  if (quote.venue === 'mento') {
+    return quoteMentoPriceImpact(walletProvider, network, quote.route);
+  }
+
+  const divisor = BigInt(PRICE_IMPACT_REFERENCE_DIVISOR);
+  const scaled = (quote.side === 'exactIn' ? quote.amountIn : quote.amountOut) / divisor;
+  const amount = scaled > BigInt(0) ? scaled : BigInt(1);
+  const path = getVenuePath(quote);
+  const tokenIn = path[0];
+  const tokenOut = path[path.length - 1];
+
+  const reference = quote.venue === 'uniswap-v3'
+    ? await quoteUniswapV3(walletProvider, network, tokenIn, tokenOut, amount, quote.side, [quote.fee])
+    : await quoteUbeswap(walletProvider, network, tokenIn, tokenOut, amount, quote.side, [path]);
+  return getPriceImpactBps(quote, reference);
+}
+
+/**
+ * Work out the transactions of a venue quote
+ *
+ * Mento routes send one broker swap per hop (see getMentoSwapSteps); Uniswap v3 and Ubeswap
+ * send one router swap bounded by the slippage tolerance, with the wallet as the recipient.
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param network Network whose venues are used
+ * @param quote Quote to swap
+ * @param slippageBps Slippage tolerance of the whole swap, in basis points
+ */
+export async function getVenueSwapSteps(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  quote: VenueQuote,
+  slippageBps: bigint
+): Promise<VenueSwapStep[]> {
+  if (quote.venue === 'mento') {
+    const steps = await getMentoSwapSteps(walletProvider, network, quote.route, slippageBps);
+    // swapIn sells an exact amount, swapOut buys one
+    return steps.map(step => ({
+      ...step,
+      to: network.mento.broker,
+      data: step.side === 'exactIn'
+        ? encodeFunctionData({
+            abi: MENTO_BROKER_ABI,
+            functionName: 'swapIn',
+            args: [network.mento.exchangeProvider, step.exchangeId, step.tokenIn.address, step.tokenOut.address, step.amountIn, step.minAmountOut],
+          })
+        : encodeFunctionData({
+            abi: MENTO_BROKER_ABI,
+            functionName: 'swapOut',
+            args: [network.mento.exchangeProvider, step.exchangeId, step.tokenIn.address, step.tokenOut.address, step.amountOut, step.maxAmountIn],
+          }),
+    }));
+  }
+
+  const exactIn = quote.side === 'exactIn';
+  const minAmountOut = exactIn ? getMinAmountOut(quote.amountOut, slippageBps) : quote.amountOut;
+  const maxAmountIn = exactIn ? quote.amountIn : getMaxAmountIn(quote.amountIn, slippageBps);
+  const recipient = await walletProvider.getAddress() as Address;
+  const path = getVenuePath(quote);
+
+  return [{
+    tokenIn: path[0],
+    tokenOut: path[path.length - 1],
+    amountIn: quote.amountIn,
+    amountOut: quote.amountOut,
+    minAmountOut,
+    maxAmountIn,
+    to: getRouterAddress(network, quote.venue),
+    data: encodeRouterSwap(quote, recipient, minAmountOut, maxAmountIn),
+  }];
+}
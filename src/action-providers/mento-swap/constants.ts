@@ -1,14 +1,362 @@
 export const MENTO_BROKER_ADDRESS = '0x777A8255cA72412f0d706dc03C9D1987306B4CaD';
-export const CELO_TOKEN_ADDRESS = '0x471EcE3750Da237f93B8E339c536989b8978a438';
-export const CUSD_TOKEN_ADDRESS = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
-export const CEUR_TOKEN_ADDRESS = '0xD8763CBa276a3738E6DE85b4b3bF5FDed6D6cA73';
 
 export const EXCHANGE_PROVIDER = '0x22d9db95E6Ae61c104A7B6F6C78D7993B94ec901';
 
-// Exchange IDs from the transactions
+// Exchange IDs from the transactions, used when the exchange provider cannot be read
 export const EXCHANGE_IDS = {
   CELO_CUSD: '0x3135b662c38265d0655177091f1b647b4fef511103d06c016efdf18b46930d2c',
   CELO_CEUR: '0xb73ffc6b5123de3c8e460490543ab93a3be7d70824f1666343df49e219199b8c'
 } as const;
 
-export const SUPPORTED_TOKENS = ['CELO', 'cUSD', 'cEUR'] as const;
\ No newline at end of file
+// Tokens with the mento role in the token registry
+export const SUPPORTED_TOKENS = ['CELO', 'cUSD', 'cEUR', 'cREAL', 'eXOF', 'cKES', 'USDC', 'USDT'] as const;
+
+// Whether the amount of a swap is what is sold (swapIn) or what is bought (swapOut)
+export const SWAP_SIDES = ['exactIn', 'exactOut'] as const;
+
+// Most pools a swap is routed through
+export const MENTO_MAX_HOPS = 3;
+
+// Venues a swap can be quoted and executed on
+export const SWAP_VENUES = ['mento', 'uniswap-v3', 'ubeswap'] as const;
+
+// Uniswap v3 on Celo
+export const UNISWAP_V3_QUOTER_V2 = '0x82825d0554fA07f7FC52Ab63c961F330fdEFa8E8';
+export const UNISWAP_V3_SWAP_ROUTER = '0x5615CDAb10dc425a742d643d949a7F474C01abc4';
+
+// Pool fees quoted on Uniswap v3, in hundredths of a basis point
+export const UNISWAP_V3_FEE_TIERS = [100, 500, 3000, 10000] as const;
+
+// Ubeswap (Uniswap v2 style) router
+export const UBESWAP_ROUTER = '0xE3D8bd6Aed4F159bc8000a9cD47CffDb95F96121';
+
+// Estimated gas of a swap, used to compare venues by their output after gas
+export const MENTO_SWAP_GAS_PER_HOP = 250_000; // each Mento hop is its own transaction
+export const UNISWAP_V3_SWAP_GAS_OVERHEAD = 60_000; // router and transaction cost on top of the quoter's estimate
+export const UBESWAP_SWAP_GAS_PER_HOP = 130_000;
+
+// ABI for token interactions
+export const ERC20_ABI = [
+  {
+    "constant": true,
+    "inputs": [
+      {
+        "name": "_owner",
+        "type": "address"
+      }
+    ],
+    "name": "balanceOf",
+    "outputs": [
+      {
+        "name": "balance",
+        "type": "uint256"
+      }
+    ],
+    "payable": false,
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "constant": true,
+    "inputs": [
+      {
+        "name": "_owner",
+        "type": "address"
+      },
+      {
+        "name": "_spender",
+        "type": "address"
+      }
+    ],
+    "name": "allowance",
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "payable": false,
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "constant": false,
+    "inputs": [
+      {
+        "name": "spender",
+        "type": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "increaseAllowance",
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "payable": false,
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
+
+// ABI for Mento Broker interactions
+export const MENTO_BROKER_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "exchangeProvider", "type": "address"},
+      {"internalType": "bytes32", "name": "exchangeId", "type": "bytes32"},
+      {"internalType": "address", "name": "tokenIn", "type": "address"},
+      {"internalType": "address", "name": "tokenOut", "type": "address"},
+      {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountOutMin", "type": "uint256"}
+    ],
+    "name": "swapIn",
+    "outputs": [{"internalType": "uint256", "name": "amountOut", "type": "uint256"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "exchangeProvider", "type": "address"},
+      {"internalType": "bytes32", "name": "exchangeId", "type": "bytes32"},
+      {"internalType": "address", "name": "tokenIn", "type": "address"},
+      {"internalType": "address", "name": "tokenOut", "type": "address"},
+      {"internalType": "uint256", "name": "amountOut", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountInMax", "type": "uint256"}
+    ],
+    "name": "swapOut",
+    "outputs": [{"internalType": "uint256", "name": "amountIn", "type": "uint256"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "exchangeProvider", "type": "address"},
+      {"internalType": "bytes32", "name": "exchangeId", "type": "bytes32"},
+      {"internalType": "address", "name": "tokenIn", "type": "address"},
+      {"internalType": "address", "name": "tokenOut", "type": "address"},
+      {"internalType": "uint256", "name": "amountOut", "type": "uint256"}
+    ],
+    "name": "getAmountIn",
+    "outputs": [{"internalType": "uint256", "name": "amountIn", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "exchangeProvider",
+        "type": "address"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "exchangeId",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "tokenIn",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "tokenOut",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amountIn",
+        "type": "uint256"
+      }
+    ],
+    "name": "getAmountOut",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+// ABI for listing the pools of the exchange provider (BiPoolManager)
+export const BIPOOL_MANAGER_ABI = [
+  {
+    "inputs": [],
+    "name": "getExchanges",
+    "outputs": [
+      {
+        "components": [
+          {"internalType": "bytes32", "name": "exchangeId", "type": "bytes32"},
+          {"internalType": "address[]", "name": "assets", "type": "address[]"}
+        ],
+        "internalType": "struct IExchangeProvider.Exchange[]",
+        "name": "exchanges",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+// ABI for quoting Uniswap v3 swaps (QuoterV2 simulates the swap, so it is called rather than viewed)
+export const UNISWAP_V3_QUOTER_ABI = [
+  {
+    "inputs": [
+      {
+        "components": [
+          {"internalType": "address", "name": "tokenIn", "type": "address"},
+          {"internalType": "address", "name": "tokenOut", "type": "address"},
+          {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
+          {"internalType": "uint24", "name": "fee", "type": "uint24"},
+          {"internalType": "uint160", "name": "sqrtPriceLimitX96", "type": "uint160"}
+        ],
+        "internalType": "struct IQuoterV2.QuoteExactInputSingleParams",
+        "name": "params",
+        "type": "tuple"
+      }
+    ],
+    "name": "quoteExactInputSingle",
+    "outputs": [
+      {"internalType": "uint256", "name": "amountOut", "type": "uint256"},
+      {"internalType": "uint160", "name": "sqrtPriceX96After", "type": "uint160"},
+      {"internalType": "uint32", "name": "initializedTicksCrossed", "type": "uint32"},
+      {"internalType": "uint256", "name": "gasEstimate", "type": "uint256"}
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {"internalType": "address", "name": "tokenIn", "type": "address"},
+          {"internalType": "address", "name": "tokenOut", "type": "address"},
+          {"internalType": "uint256", "name": "amount", "type": "uint256"},
+          {"internalType": "uint24", "name": "fee", "type": "uint24"},
+          {"internalType": "uint160", "name": "sqrtPriceLimitX96", "type": "uint160"}
+        ],
+        "internalType": "struct IQuoterV2.QuoteExactOutputSingleParams",
+        "name": "params",
+        "type": "tuple"
+      }
+    ],
+    "name": "quoteExactOutputSingle",
+    "outputs": [
+      {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
+      {"internalType": "uint160", "name": "sqrtPriceX96After", "type": "uint160"},
+      {"internalType": "uint32", "name": "initializedTicksCrossed", "type": "uint32"},
+      {"internalType": "uint256", "name": "gasEstimate", "type": "uint256"}
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
+
+// ABI for swapping through a single Uniswap v3 pool (SwapRouter02)
+export const UNISWAP_V3_ROUTER_ABI = [
+  {
+    "inputs": [
+      {
+        "components": [
+          {"internalType": "address", "name": "tokenIn", "type": "address"},
+          {"internalType": "address", "name": "tokenOut", "type": "address"},
+          {"internalType": "uint24", "name": "fee", "type": "uint24"},
+          {"internalType": "address", "name": "recipient", "type": "address"},
+          {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
+          {"internalType": "uint256", "name": "amountOutMinimum", "type": "uint256"},
+          {"internalType": "uint160", "name": "sqrtPriceLimitX96", "type": "uint160"}
+        ],
+        "internalType": "struct IV3SwapRouter.ExactInputSingleParams",
+        "name": "params",
+        "type": "tuple"
+      }
+    ],
+    "name": "exactInputSingle",
+    "outputs": [{"internalType": "uint256", "name": "amountOut", "type": "uint256"}],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {"internalType": "address", "name": "tokenIn", "type": "address"},
+          {"internalType": "address", "name": "tokenOut", "type": "address"},
+          {"internalType": "uint24", "name": "fee", "type": "uint24"},
+          {"internalType": "address", "name": "recipient", "type": "address"},
+          {"internalType": "uint256", "name": "amountOut", "type": "uint256"},
+          {"internalType": "uint256", "name": "amountInMaximum", "type": "uint256"},
+          {"internalType": "uint160", "name": "sqrtPriceLimitX96", "type": "uint160"}
+        ],
+        "internalType": "struct IV3SwapRouter.ExactOutputSingleParams",
+        "name": "params",
+        "type": "tuple"
+      }
+    ],
+    "name": "exactOutputSingle",
+    "outputs": [{"internalType": "uint256", "name": "amountIn", "type": "uint256"}],
+    "stateMutability": "payable",
+    "type": "function"
+  }
+];
+
+// ABI for quoting and swapping through the Ubeswap router
+export const UBESWAP_ROUTER_ABI = [
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
+      {"internalType": "address[]", "name": "path", "type": "address[]"}
+    ],
+    "name": "getAmountsOut",
+    "outputs": [{"internalType": "uint256[]", "name": "amounts", "type": "uint256[]"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amountOut", "type": "uint256"},
+      {"internalType": "address[]", "name": "path", "type": "address[]"}
+    ],
+    "name": "getAmountsIn",
+    "outputs": [{"internalType": "uint256[]", "name": "amounts", "type": "uint256[]"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountOutMin", "type": "uint256"},
+      {"internalType": "address[]", "name": "path", "type": "address[]"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "swapExactTokensForTokens",
+    "outputs": [{"internalType": "uint256[]", "name": "amounts", "type": "uint256[]"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amountOut", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountInMax", "type": "uint256"},
+      {"internalType": "address[]", "name": "path", "type": "address[]"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "swapTokensForExactTokens",
+    "outputs": [{"internalType": "uint256[]", "name": "amounts", "type": "uint256[]"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
@@ -31,3 +31,20 @@ export class InsufficientBalanceError extends MentoSwapError {
     this.name = 'InsufficientBalanceError';
   }
 }
+
+export class UnsupportedTokenPairError extends MentoSwapError {
+  constructor(fromToken: string, toToken: string, tradableWith: string[]) {
+    const options = tradableWith.length > 0
+      ? `${fromToken} can be swapped with ${tradableWith.join(', ')}.`
+      : `No Mento pool trades ${fromToken}.`;
+    super(`Unsupported token pair: ${fromToken} to ${toToken}. ${options}`);
+    this.name = 'UnsupportedTokenPairError';
+  }
+}
+
+export class PriceImpactTooHighError extends MentoSwapError {
+  constructor(priceImpact: string, limit: string) {
+    super(`Price impact of ${priceImpact} is above the ${limit} limit. Try a smaller amount, or raise maxPriceImpact if you accept the worse rate.`);
+    this.name = 'PriceImpactTooHighError';
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Mento exchange discovery
+ *
+ * The exchange provider (BiPoolManager) lists every pool the broker can swap through. The list
+ * is read once per network and cached, so any listed pair can be swapped without hardcoding
+ * its exchange id. If the list cannot be read, the CELO/cUSD and CELO/cEUR pools of the
+ * network registry are used, and the read is retried on the next lookup.
+ */
+import { EvmWalletProvider } from '@coinbase/agentkit';
+import { isAddressEqual, type Address } from 'viem';
+import { BIPOOL_MANAGER_ABI } from './constants';
+import { CeloNetworkConfig, CeloNetworkId } from '../../network/registry';
+import { getToken } from '../../network/tokens';
+
+// A pool of the exchange provider
+export interface MentoExchange {
+  exchangeId: `0x${string}`;
+  assets: Address[];
+}
+
+// Discovered pools by network
+const exchangeCache: Map<CeloNetworkId, MentoExchange[]> = new Map();
+
+/**
+ * Pools of the network registry, for when the exchange provider cannot be read
+ */
+function getConfiguredExchanges(network: CeloNetworkConfig): MentoExchange[] {
+  const celo = getToken('CELO', network.id).address;
+  return [
+    { exchangeId: network.mento.exchangeIds.CELO_CUSD, assets: [getToken('cUSD', network.id).address, celo] },
+    { exchangeId: network.mento.exchangeIds.CELO_CEUR, assets: [getToken('cEUR', network.id).address, celo] },
+  ];
+}
+
+/**
+ * Get the pools of the Mento exchange provider of a network
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param network Network whose exchange provider is read
+ * @returns The discovered pools, or the configured ones when the exchange provider cannot be read
+ */
+export async function loadMentoExchanges(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig
+): Promise<MentoExchange[]> {
+  const cached = exchangeCache.get(network.id);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const exchanges = await walletProvider.readContract({
+      address: network.mento.exchangeProvider,
+      abi: BIPOOL_MANAGER_ABI,
+      functionName: 'getExchanges',
+      args: [],
+    }) as readonly MentoExchange[];
+
+    const discovered = exchanges.map(({ exchangeId, assets }) => ({ exchangeId, assets: [...assets] }));
+    console.log(`[mento] Discovered ${discovered.length} exchanges on ${network.name}`);
+    exchangeCache.set(network.id, discovered);
+    return discovered;
+  } catch (error) {
+    console.error('[mento] Error reading exchanges, using the configured pools:', error);
+    return getConfiguredExchanges(network);
+  }
+}
+
+/**
+ * Find the pool that swaps between two tokens, in either direction
+ *
+ * @param exchanges Pools to search
+ * @param tokenA Address of one token
+ * @param tokenB Address of the other token
+ * @returns The pool, or undefined when no pool holds both tokens
+ */
+export function findMentoExchange(
+  exchanges: MentoExchange[],
+  tokenA: Address,
+  tokenB: Address
+): MentoExchange | undefined {
+  const holds = (exchange: MentoExchange, token: Address) =>
+    exchange.assets.some(asset => isAddressEqual(asset, token));
+  return exchanges.find(exchange => holds(exchange, tokenA) && holds(exchange, tokenB));
+}
+
+/**
+ * Forget all discovered pools
+ */
+export function clearMentoExchangeCache(): void {
+  exchangeCache.clear();
+}
@@ -1,4 +1,8 @@
 export * from './mentoSwapActionProvider';
 export * from './schemas';
 export * from './errors';
-export * from './constants';
\ No newline at end of file
+export * from './constants';
+export * from './exchanges';
+export * from './router';
+export * from './venues';
+export * from './aggregator';
\ No newline at end of file
@@ -6,10 +6,10 @@ import {
   EvmWalletProvider,
 } from "@coinbase/agentkit";
 import { 
-  parseEther, 
-  formatEther, 
+  parseUnits, 
   formatUnits,
   encodeFunctionData,
+  type Address,
   type PublicClient, 
   type WalletClient 
 } from 'viem';
@@ -20,150 +20,49 @@ import {
   InsufficientAllowanceError,
   InvalidTokenError,
   WrongNetworkError,
-  InsufficientBalanceError
+  InsufficientBalanceError,
+  PriceImpactTooHighError,
+  UnsupportedTokenPairError
 } from './errors';
-
-// Constants from transaction data
-const MENTO_BROKER_ADDRESS = "0x777A8255cA72412f0d706dc03C9D1987306B4CaD";
-const EXCHANGE_PROVIDER = "0x22d9db95e6ae61c104a7b6f6c78d7993b94ec901";
-const CELO_TOKEN_ADDRESS = "0x471ece3750da237f93b8e339c536989b8978a438";
-const CEUR_TOKEN_ADDRESS = "0xd8763cba276a3738e6de85b4b3bf5fded6d6ca73";
-const CUSD_TOKEN_ADDRESS = "0x765de816845861e75a25fca122bb6898b8b1282a";
-
-const EXCHANGE_IDS = {
-  CELO_CUSD: "0x3135b662c38265d0655177091f1b647b4fef511103d06c016efdf18b46930d2c",
-  CELO_CEUR: "0xb73ffc6b5123de3c8e460490543ab93a3be7d70824f1666343df49e219199b8c"
-} as const;
-
-// ABI for token interactions
-const ERC20_ABI = [
-  {
-    "constant": true,
-    "inputs": [
-      {
-        "name": "_owner",
-        "type": "address"
-      }
-    ],
-    "name": "balanceOf",
-    "outputs": [
-      {
-        "name": "balance",
-        "type": "uint256"
-      }
-    ],
-    "payable": false,
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "constant": true,
-    "inputs": [
-      {
-        "name": "_owner",
-        "type": "address"
-      },
-      {
-        "name": "_spender",
-        "type": "address"
-      }
-    ],
-    "name": "allowance",
-    "outputs": [
-      {
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "payable": false,
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "constant": false,
-    "inputs": [
-      {
-        "name": "spender",
-        "type": "address"
-      },
-      {
-        "name": "value",
-        "type": "uint256"
-      }
-    ],
-    "name": "increaseAllowance",
-    "outputs": [
-      {
-        "name": "",
-        "type": "bool"
-      }
-    ],
-    "payable": false,
-    "stateMutability": "nonpayable",
-    "type": "function"
-  }
-];
-
-// ABI for Mento Broker interactions
-const MENTO_BROKER_ABI = [
-  {
-    "inputs": [
-      {"internalType": "address", "name": "exchangeProvider", "type": "address"},
-      {"internalType": "bytes32", "name": "exchangeId", "type": "bytes32"},
-      {"internalType": "address", "name": "tokenIn", "type": "address"},
-      {"internalType": "address", "name": "tokenOut", "type": "address"},
-      {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
-      {"internalType": "uint256", "name": "amountOutMin", "type": "uint256"}
-    ],
-    "name": "swapIn",
-    "outputs": [{"internalType": "uint256", "name": "amountOut", "type": "uint256"}],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "exchangeProvider",
-        "type": "address"
-      },
-      {
-        "internalType": "bytes32",
-        "name": "exchangeId",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "address",
-        "name": "tokenIn",
-        "type": "address"
-      },
-      {
-        "internalType": "address",
-        "name": "tokenOut",
-        "type": "address"
-      },
-      {
-        "internalType": "uint256",
-        "name": "amountIn",
-        "type": "uint256"
-      }
-    ],
-    "name": "getAmountOut",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  }
-];
+import { ERC20_ABI } from './constants';
+import { describeTransactionResult } from '../../utils/deferred-transaction';
+import { withTransactionBundle } from '../../utils/transaction-utils';
+import { CeloNetworkConfig, findCeloNetwork } from '../../network/registry';
+import { getTokensWithRole, TokenInfo, TokenSymbol } from '../../network/tokens';
+import { getVenuePath, SWAP_VENUE_NAMES, SwapVenue } from './venues';
+import {
+  compareSwapVenues,
+  describeVenue,
+  getVenueSpender,
+  getVenueSwapSteps,
+  quoteVenuePriceImpact,
+  RankedVenueQuote,
+  selectSwapVenues,
+  VenueComparison,
+  VenueSwapStep
+} from './aggregator';
+import {
+  formatBps,
+  getMaxAmountIn,
+  getMaxPriceImpactBps,
+  getMinAmountOut,
+  percentToBps
+} from '../../utils/slippage';
+import { SWAP_GAS_PRICE_GWEI } from '../../constants/network';
+
+// Common misspellings of token symbols
+const TOKEN_ALIASES: Record<string, TokenSymbol> = {
+  CELLO: 'CELO',
+  'CÚSD': 'cUSD',
+  CSUSD: 'cUSD',
+  'CÉUR': 'cEUR',
+  CSEUR: 'cEUR',
+};
 
 /**
- * 💱 MentoSwapActionProvider provides actions for swapping between CELO, cUSD, and cEUR tokens
- * through the Mento Labs broker
+ * 💱 MentoSwapActionProvider provides actions for swapping between CELO and the Mento stablecoins
+ * through the Mento Labs broker, routing through intermediate tokens when a pair has no pool of its own.
+ * Uniswap v3 and Ubeswap are quoted for the same swap, and the venue with the best output after gas wins
  */
 export class MentoSwapActionProvider extends ActionProvider<EvmWalletProvider> {
   constructor() {
@@ -171,98 +70,68 @@ export class MentoSwapActionProvider extends ActionProvider<EvmWalletProvider> {
   }
 
   /**
-   * 🌐 Check if we're on Celo network
+   * 🌐 Check if we're on a Celo network and get its Mento addresses
    */
-  private async checkNetwork(walletProvider: EvmWalletProvider): Promise<void> {
-    const network = await walletProvider.getNetwork();
-    // Accept both network ID and chain ID checks for Celo
-    if ((!network.networkId || !network.networkId.includes("celo")) && 
-        (!network.chainId || network.chainId !== "42220")) {
+  private async checkNetwork(walletProvider: EvmWalletProvider): Promise<CeloNetworkConfig> {
+    const network = findCeloNetwork(await walletProvider.getNetwork());
+    if (!network) {
       throw new WrongNetworkError();
     }
+    return network;
   }
 
   /**
-   * 🔍 Get token addresses based on token symbols
+   * 🔍 Get the token a symbol refers to
    */
-  private getTokenAddress(token: string): `0x${string}` {
+  private getTokenInfo(token: string, network: CeloNetworkConfig): TokenInfo {
     const normalizedToken = token.toUpperCase();
-    
-    switch (normalizedToken) {
-      case 'CELO':
-      case 'CELLO': // Allow common misspelling
-        return CELO_TOKEN_ADDRESS as `0x${string}`;
-      case 'CUSD':
-      case 'CÚSD':
-      case 'CSUSD':
-        return CUSD_TOKEN_ADDRESS as `0x${string}`;
-      case 'CEUR':
-      case 'CÉUR':
-      case 'CSEUR':
-        return CEUR_TOKEN_ADDRESS as `0x${string}`;
-      default:
-        throw new InvalidTokenError(token);
+    const symbol = TOKEN_ALIASES[normalizedToken] ?? normalizedToken;
+    const info = getTokensWithRole("mento", network.id).find(t => t.symbol.toUpperCase() === symbol.toUpperCase());
+    if (!info) {
+      throw new InvalidTokenError(token);
     }
+    return info;
   }
 
   /**
-   * 🔄 Get exchange ID for the token pair
+   * Format transaction success message (deferred transactions are never linked on Celoscan)
+   * Lists one transaction per hop for routed swaps
    */
-  private getExchangeId(fromToken: string, toToken: string): `0x${string}` {
-    const normalizedFromToken = fromToken.toUpperCase();
-    const normalizedToToken = toToken.toUpperCase();
-    
-    // Handle different token name variations
-    const isCeloFrom = ['CELO', 'CELLO'].includes(normalizedFromToken);
-    const isUsdFrom = ['CUSD', 'CÚSD', 'CSUSD'].includes(normalizedFromToken);
-    const isEurFrom = ['CEUR', 'CÉUR', 'CSEUR'].includes(normalizedFromToken);
-    
-    const isCeloTo = ['CELO', 'CELLO'].includes(normalizedToToken);
-    const isUsdTo = ['CUSD', 'CÚSD', 'CSUSD'].includes(normalizedToToken);
-    const isEurTo = ['CEUR', 'CÉUR', 'CSEUR'].includes(normalizedToToken);
-    
-    // CELO to stablecoins
-    if (isCeloFrom && isUsdTo) {
-      return EXCHANGE_IDS.CELO_CUSD as `0x${string}`;
-    } else if (isCeloFrom && isEurTo) {
-      return EXCHANGE_IDS.CELO_CEUR as `0x${string}`;
-    } 
-    // Stablecoins to CELO (reverse direction)
-    else if (isUsdFrom && isCeloTo) {
-      return EXCHANGE_IDS.CELO_CUSD as `0x${string}`;
-    } else if (isEurFrom && isCeloTo) {
-      return EXCHANGE_IDS.CELO_CEUR as `0x${string}`;
-    } else {
-      throw new Error(`Unsupported token pair: ${fromToken} to ${toToken}. Currently only CELO ⟷ cUSD/cEUR swaps are supported.`);
+  private getSwapMessage(description: string, steps: VenueSwapStep[], txHashes: string[]): string {
+    if (steps.length === 1) {
+      return `I've submitted your request to swap ${description}. 
+
+${describeTransactionResult(txHashes[0])}
+
+You can monitor the status in the Transactions panel.`;
     }
-  }
 
-  /**
-   * Get Celoscan transaction link
-   */
-  private getCeloscanLink(txHash: string): string {
-    return `https://celoscan.io/tx/${txHash}`;
+    const hops = steps.map((step, i) => `${i + 1}. ${step.tokenIn.symbol} ➡️ ${step.tokenOut.symbol}: ${describeTransactionResult(txHashes[i])}`);
+    return `I've submitted your request to swap ${description} via ${this.describeRoute([steps[0].tokenIn, ...steps.map(step => step.tokenOut)])}, one swap per pool.
+
+${hops.join('\n')}
+
+Any intermediate tokens left over by the slippage margins stay in your wallet. You can monitor the status in the Transactions panel.`;
   }
 
   /**
-   * Format transaction success message without direct hash link
-   * Works for both directions of swaps: CELO to stablecoins and stablecoins to CELO
+   * Describe the tokens a route passes through
    */
-  private getSwapMessage(fromToken: string, toToken: string, amount: string): string {
-    return `I've submitted your request to swap ${amount} ${fromToken} to ${toToken}. 
-
-The transaction has been sent to your wallet for signing. Once signed, it will be processed on the blockchain.
-
-You can monitor the status in the Transactions panel.`;
+  private describeRoute(tokens: TokenInfo[]): string {
+    return tokens.map(token => `${token.icon} ${token.symbol}`).join(' ➡️ ');
   }
 
   /**
    * Format approval transaction success message
    */
-  private getApprovalMessage(token: string, amount: string): string {
-    return `I've requested approval for ${amount} ${token} tokens for Mento swap.
+  private getApprovalMessage(token: string, amount: string, venue: SwapVenue, txHash?: string): string {
+    if (!txHash) {
+      return `Your current allowance already covers ${amount} ${token} for ${SWAP_VENUE_NAMES[venue]} swap. No approval is needed.`;
+    }
 
-Please check your wallet to sign the approval transaction.
+    return `I've requested approval for ${amount} ${token} tokens for ${SWAP_VENUE_NAMES[venue]} swap.
+
+${describeTransactionResult(txHash)}
 
 You can monitor the status in the Transactions panel.`;
   }
@@ -270,8 +139,10 @@ You can monitor the status in the Transactions panel.`;
   /**
    * Parse amount from user input, with improved format detection
    * Completely rewritten to fix conversion issues
+   *
+   * @param decimals Decimals of the token the amount is in
    */
-  private parseAmount(amount: string): bigint {
+  private parseAmount(amount: string, decimals: number = 18): bigint {
     console.log(`[parseAmount] Raw input: "${amount}" (${typeof amount})`);
     
     try {
@@ -282,9 +153,9 @@ You can monitor the status in the Transactions panel.`;
         amount = normalizedAmount;
       }
       
-      // Case 1: Amount with decimal point (like "0.0001") - Use parseEther
+      // Case 1: Amount with decimal point (like "0.0001") - Use parseUnits
       if (/^-?\d*\.\d+$/.test(amount)) {
-        const result = parseEther(amount);
+        const result = parseUnits(amount, decimals);
         console.log(`[parseAmount] Decimal format detected: ${amount} → ${result} wei`);
         
         // Safety check - if result is unreasonably large, something went wrong
@@ -296,10 +167,10 @@ You can monitor the status in the Transactions panel.`;
         return result;
       }
       
-      // Case 2: Plain integer that represents a small CELO amount (e.g., "1" for 1 CELO)
+      // Case 2: Plain integer that represents a small token amount (e.g., "1" for 1 CELO)
       if (/^\d+$/.test(amount) && amount.length <= 6) {
-        const result = parseEther(amount);
-        console.log(`[parseAmount] Plain integer interpreted as CELO: ${amount} → ${result} wei`);
+        const result = parseUnits(amount, decimals);
+        console.log(`[parseAmount] Plain integer interpreted as whole tokens: ${amount} → ${result} wei`);
         return result;
       }
       
@@ -310,9 +181,9 @@ You can monitor the status in the Transactions panel.`;
         return result;
       }
       
-      // Default case - try parseEther as last resort
-      console.log(`[parseAmount] Using default parseEther for: ${amount}`);
-      return parseEther(amount);
+      // Default case - try parseUnits as last resort
+      console.log(`[parseAmount] Using default parseUnits for: ${amount}`);
+      return parseUnits(amount, decimals);
       
     } catch (error) {
       console.error(`[parseAmount] Error parsing amount "${amount}":`, error);
@@ -332,33 +203,31 @@ You can monitor the status in the Transactions panel.`;
    */
   private async checkAllowance(
     walletProvider: EvmWalletProvider,
-    args: z.infer<typeof SwapParamsSchema>
+    token: TokenInfo,
+    amountInWei: bigint,
+    spender: Address
   ): Promise<boolean> {
-    const originalAmount = String(args.amount);
-    console.log(`[checkAllowance] Checking allowance for ${args.fromToken}, amount: "${originalAmount}"`);
+    const { symbol, decimals } = token;
+    console.log(`[checkAllowance] Checking allowance for ${symbol}, amount: ${formatUnits(amountInWei, decimals)}`);
     
     const walletAddress = await walletProvider.getAddress();
-    const tokenAddress = this.getTokenAddress(args.fromToken);
     
     const allowance = await walletProvider.readContract({
-      address: tokenAddress,
+      address: token.address,
       abi: ERC20_ABI,
       functionName: "allowance",
-      args: [walletAddress, MENTO_BROKER_ADDRESS],
+      args: [walletAddress, spender],
     }) as bigint;
-
-    // Parse amount to Wei with our fixed function
-    const amountInWei = this.parseAmount(originalAmount);
     
-    console.log(`[checkAllowance] Current allowance: ${formatEther(allowance)} ${args.fromToken} (${allowance} wei)`);
-    console.log(`[checkAllowance] Required amount: ${formatEther(amountInWei)} ${args.fromToken} (${amountInWei} wei)`);
+    console.log(`[checkAllowance] Current allowance: ${formatUnits(allowance, decimals)} ${symbol} (${allowance} wei)`);
+    console.log(`[checkAllowance] Required amount: ${formatUnits(amountInWei, decimals)} ${symbol} (${amountInWei} wei)`);
     
     if (allowance < amountInWei) {
-      console.log(`[checkAllowance] INSUFFICIENT ALLOWANCE: ${formatEther(allowance)} < ${formatEther(amountInWei)}`);
+      console.log(`[checkAllowance] INSUFFICIENT ALLOWANCE: ${formatUnits(allowance, decimals)} < ${formatUnits(amountInWei, decimals)}`);
       throw new InsufficientAllowanceError(
-        args.fromToken,
-        formatEther(allowance),
-        formatEther(amountInWei)
+        symbol,
+        formatUnits(allowance, decimals),
+        formatUnits(amountInWei, decimals)
       );
     } else {
       console.log(`[checkAllowance] Allowance check PASSED ✓`);
@@ -372,61 +241,133 @@ You can monitor the status in the Transactions panel.`;
    */
   private async checkBalance(
     walletProvider: EvmWalletProvider,
-    args: z.infer<typeof SwapParamsSchema>
+    token: TokenInfo,
+    amountInWei: bigint
   ): Promise<void> {
-    const originalAmount = String(args.amount);
-    console.log(`[checkBalance] Checking balance for ${args.fromToken}, amount: "${originalAmount}"`);
+    const { symbol, decimals } = token;
+    console.log(`[checkBalance] Checking balance for ${symbol}, amount: ${formatUnits(amountInWei, decimals)}`);
     
     const address = await walletProvider.getAddress();
-    const tokenAddress = this.getTokenAddress(args.fromToken);
     
     const balance = await walletProvider.readContract({
-      address: tokenAddress,
+      address: token.address,
       abi: ERC20_ABI,
       functionName: "balanceOf",
       args: [address],
     }) as bigint;
-
-    // Parse amount to Wei with our fixed function
-    const amountInWei = this.parseAmount(originalAmount);
     
-    console.log(`[checkBalance] Wallet balance: ${formatEther(balance)} ${args.fromToken} (${balance} wei)`);
-    console.log(`[checkBalance] Required amount: ${formatEther(amountInWei)} ${args.fromToken} (${amountInWei} wei)`);
+    console.log(`[checkBalance] Wallet balance: ${formatUnits(balance, decimals)} ${symbol} (${balance} wei)`);
+    console.log(`[checkBalance] Required amount: ${formatUnits(amountInWei, decimals)} ${symbol} (${amountInWei} wei)`);
     
     if (balance < amountInWei) {
-      console.log(`[checkBalance] INSUFFICIENT BALANCE: ${formatEther(balance)} < ${formatEther(amountInWei)}`);
+      console.log(`[checkBalance] INSUFFICIENT BALANCE: ${formatUnits(balance, decimals)} < ${formatUnits(amountInWei, decimals)}`);
       throw new InsufficientBalanceError(
-        args.fromToken,
-        formatEther(balance),
-        formatEther(amountInWei)
+        symbol,
+        formatUnits(balance, decimals),
+        formatUnits(amountInWei, decimals)
       );
     } else {
       console.log(`[checkBalance] Balance check PASSED ✓`);
     }
   }
 
+  /**
+   * Highest price impact a swap may have: the maxPriceImpact argument, or MAX_PRICE_IMPACT_BPS
+   */
+  private getMaxPriceImpactBps(args: z.infer<typeof SwapParamsSchema>): bigint {
+    return args.maxPriceImpact !== undefined ? percentToBps(args.maxPriceImpact) : getMaxPriceImpactBps();
+  }
+
+  /**
+   * Quote the swap on the given venues, pick the best one after gas and work out its transactions
+   * (the amount is in fromToken for exactIn and in toToken for exactOut)
+   */
+  private async planSwap(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof SwapParamsSchema>,
+    network: CeloNetworkConfig,
+    venues: SwapVenue[]
+  ): Promise<{ fromInfo: TokenInfo; toInfo: TokenInfo; comparison: VenueComparison; quote: RankedVenueQuote; steps: VenueSwapStep[] }> {
+    const fromInfo = this.getTokenInfo(args.fromToken, network);
+    const toInfo = this.getTokenInfo(args.toToken, network);
+    const amountToken = args.side === 'exactOut' ? toInfo : fromInfo;
+
+    // Parse amount to Wei for transaction - using our fixed function
+    const amountInWei = this.parseAmount(String(args.amount), amountToken.decimals);
+
+    const comparison = await compareSwapVenues(walletProvider, network, fromInfo, toInfo, amountInWei, args.side, venues);
+    const quote = comparison.quotes[0];
+    const steps = await getVenueSwapSteps(walletProvider, network, quote, percentToBps(args.slippageTolerance));
+    return { fromInfo, toInfo, comparison, quote, steps };
+  }
+
+  /**
+   * Increase a spender's allowance when it does not cover an amount, and wait for the approval
+   */
+  private async ensureAllowance(
+    walletProvider: EvmWalletProvider,
+    token: TokenInfo,
+    amount: bigint,
+    spender: Address
+  ): Promise<void> {
+    const allowance = await walletProvider.readContract({
+      address: token.address,
+      abi: ERC20_ABI,
+      functionName: "allowance",
+      args: [await walletProvider.getAddress(), spender],
+    }) as bigint;
+
+    if (allowance >= amount) {
+      return;
+    }
+
+    const approveTxHash = await walletProvider.sendTransaction({
+      to: token.address,
+      data: encodeFunctionData({
+        abi: ERC20_ABI,
+        functionName: "increaseAllowance",
+        args: [spender, amount],
+      }),
+    });
+
+    await walletProvider.waitForTransactionReceipt(approveTxHash);
+    console.log(`[executeSwap] Approval of ${formatUnits(amount, token.decimals)} ${token.symbol} submitted. ${describeTransactionResult(approveTxHash)}`);
+  }
+
   /**
    * Approve token for swapping
    */
   @CreateAction({
     name: "approve_token",
-    description: "Approve token spending for Mento swaps (CELO, cUSD, or cEUR)",
+    description: "Approve token spending for Mento swaps (CELO, cUSD, cEUR, cREAL, eXOF, cKES, USDC or USDT), or for the Uniswap v3 or Ubeswap router when venue is uniswap-v3 or ubeswap",
     schema: SwapParamsSchema,
   })
   async approveToken(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof SwapParamsSchema>
   ): Promise<string> {
-    await this.checkNetwork(walletProvider);
+    const network = await this.checkNetwork(walletProvider);
 
     // IMPORTANT: Keep original amount as received from UI/command without pre-processing
     const originalAmount = String(args.amount);
     console.log(`[approveToken] Starting approval: ${originalAmount} ${args.fromToken}`);
 
-    // Check if approval is needed (passing args directly)
+    // Without a chosen venue the Mento broker is approved
+    const venue = args.venue === 'best' ? 'mento' : args.venue;
+    const spender = getVenueSpender(network, selectSwapVenues(network, venue)[0]);
+
+    // Exact-output swaps need the most the first hop may take
+    const fromInfo = this.getTokenInfo(args.fromToken, network);
+    const amountInWei = args.side === 'exactOut'
+      ? (await this.planSwap(walletProvider, args, network, [venue])).steps[0].maxAmountIn
+      : this.parseAmount(originalAmount, fromInfo.decimals);
+    const amountDisplay = formatUnits(amountInWei, fromInfo.decimals);
+    const tokenAddress = fromInfo.address;
+
+    // Check if approval is needed
     try {
-      await this.checkAllowance(walletProvider, args);
-      return this.getApprovalMessage(args.fromToken, originalAmount);
+      await this.checkAllowance(walletProvider, fromInfo, amountInWei, spender);
+      return this.getApprovalMessage(args.fromToken, amountDisplay, venue);
     } catch (error) {
       if (!(error instanceof InsufficientAllowanceError)) {
         throw error;
@@ -434,25 +375,19 @@ You can monitor the status in the Transactions panel.`;
       // Continue with approval if insufficient allowance
     }
 
-    const tokenAddress = this.getTokenAddress(args.fromToken);
-    
-    // Parse amount to Wei for transaction - using our fixed function
-    const amountInWei = this.parseAmount(originalAmount);
-    const amountDisplay = formatEther(amountInWei);
-
-    console.log(`[approveToken] Approving ${amountDisplay} ${args.fromToken} (${amountInWei} wei) for Mento swap`);
+    console.log(`[approveToken] Approving ${amountDisplay} ${args.fromToken} (${amountInWei} wei) for ${SWAP_VENUE_NAMES[venue]} swap`);
 
     const txHash = await walletProvider.sendTransaction({
       to: tokenAddress,
       data: encodeFunctionData({
         abi: ERC20_ABI,
         functionName: "increaseAllowance",
-        args: [MENTO_BROKER_ADDRESS, amountInWei],
+        args: [spender, amountInWei],
       }),
     });
 
-    console.log(`[approveToken] Approval transaction successful: ${this.getCeloscanLink(txHash)}`);
-    return this.getApprovalMessage(args.fromToken, originalAmount);
+    console.log(`[approveToken] Approval submitted: ${describeTransactionResult(txHash)}`);
+    return this.getApprovalMessage(args.fromToken, amountDisplay, venue, txHash);
   }
 
   /**
@@ -460,92 +395,73 @@ You can monitor the status in the Transactions panel.`;
    */
   @CreateAction({
     name: "execute_swap",
-    description: "Swap between CELO, cUSD, and cEUR using Mento Protocol",
+    description: "Swap between CELO and Mento stablecoins (cUSD, cEUR, cREAL, eXOF, cKES, USDC, USDT) on the venue with the best output after gas (Mento, Uniswap v3 or Ubeswap), approving the token first if the allowance is too low. Set venue to mento, uniswap-v3 or ubeswap to use one venue only. Pairs without a Mento pool are routed through intermediate tokens with one swap per pool, and the slippage tolerance covers the whole route. Use side exactOut to receive an exact amount of toToken (e.g. 'get me exactly 100 cUSD'); the slippage tolerance then caps how much fromToken is spent",
     schema: SwapParamsSchema,
   })
   async executeSwap(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof SwapParamsSchema>
+  ): Promise<string> {
+    // The approval (if needed) and the swap are released to the wallet one after the other
+    const label = args.side === 'exactOut'
+      ? `Swap ${args.fromToken} to exactly ${args.amount} ${args.toToken}`
+      : `Swap ${args.amount} ${args.fromToken} to ${args.toToken}`;
+    return withTransactionBundle(
+      label,
+      () => this.approveAndSwap(walletProvider, args)
+    );
+  }
+
+  /**
+   * Approve the venue if needed, then swap
+   */
+  private async approveAndSwap(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof SwapParamsSchema>
   ): Promise<string> {
     try {
-      await this.checkNetwork(walletProvider);
+      const network = await this.checkNetwork(walletProvider);
       
       // IMPORTANT: Keep original amount as received from UI/command without pre-processing
       const originalAmount = String(args.amount);
       console.log(`[executeSwap] Starting swap: ${originalAmount} ${args.fromToken} to ${args.toToken} with slippage: ${args.slippageTolerance}%`);
       
-      // Normalize token names in case of misspellings or different casing
-      const normalizedFromToken = args.fromToken.toUpperCase() === 'CELLO' ? 'CELO' : args.fromToken;
-      const normalizedToToken = args.toToken;
-      
-      // Check balance and allowance (passing args directly)
-      await this.checkBalance(walletProvider, {...args, fromToken: normalizedFromToken, toToken: normalizedToToken});
-      await this.checkAllowance(walletProvider, {...args, fromToken: normalizedFromToken, toToken: normalizedToToken});
+      const { fromInfo, toInfo, quote, steps } = await this.planSwap(walletProvider, args, network, selectSwapVenues(network, args.venue));
+
+      // Refuse swaps that move the price too far before anything is sent
+      const priceImpactBps = await quoteVenuePriceImpact(walletProvider, network, quote);
+      const maxPriceImpactBps = this.getMaxPriceImpactBps(args);
+      console.log(`[executeSwap] Price impact: ${formatBps(priceImpactBps)} (limit ${formatBps(maxPriceImpactBps)})`);
+      if (priceImpactBps > maxPriceImpactBps) {
+        throw new PriceImpactTooHighError(formatBps(priceImpactBps), formatBps(maxPriceImpactBps));
+      }
 
-      const fromTokenAddress = this.getTokenAddress(normalizedFromToken);
-      const toTokenAddress = this.getTokenAddress(normalizedToToken);
-      
-      // Parse amount to Wei for transaction - using our fixed function
-      const amountInWei = this.parseAmount(originalAmount);
-      const amountDisplay = formatEther(amountInWei);
-      
-      const exchangeId = this.getExchangeId(normalizedFromToken, normalizedToToken);
+      // Check balance against the most the swap may take
+      await this.checkBalance(walletProvider, fromInfo, steps[0].maxAmountIn);
 
-      console.log(`[executeSwap] Swapping ${amountDisplay} ${normalizedFromToken} (${amountInWei} wei) to ${normalizedToToken}`);
-      
-      // Get quote to calculate minimum amount out based on slippage
-      const expectedOutput = await walletProvider.readContract({
-        address: MENTO_BROKER_ADDRESS as `0x${string}`,
-        abi: MENTO_BROKER_ABI,
-        functionName: 'getAmountOut',
-        args: [
-          EXCHANGE_PROVIDER as `0x${string}`,
-          exchangeId,
-          fromTokenAddress,
-          toTokenAddress,
-          amountInWei
-        ]
-      }) as bigint;
-      
-      // Calculate minimum amount out with slippage
-      const slippageFactor = BigInt(Math.floor((100 - args.slippageTolerance) * 100)) / BigInt(10000);
-      const minAmountOut = (expectedOutput * slippageFactor) / BigInt(100) * BigInt(100);
-      
-      console.log(`[executeSwap] Expected output: ${formatEther(expectedOutput)} ${normalizedToToken} (${expectedOutput} wei)`);
-      console.log(`[executeSwap] Minimum output with ${args.slippageTolerance}% slippage: ${formatEther(minAmountOut)} ${normalizedToToken} (${minAmountOut} wei)`);
+      console.log(`[executeSwap] Swapping ${formatUnits(quote.amountIn, fromInfo.decimals)} ${fromInfo.symbol} (${quote.amountIn} wei) to ${formatUnits(quote.amountOut, toInfo.decimals)} ${toInfo.symbol} (${quote.amountOut} wei), ${args.side}, on ${describeVenue(quote)} in ${steps.length} transaction(s)`);
 
-      // Get wallet address for logging
-      const address = await walletProvider.getAddress();
-      
-      // Check if we're using a frontend-connected wallet
-      const usingConnectedWallet = walletProvider.nativeTransfer.toString().includes('Creating pending transaction for frontend wallet');
-      
-      const txHash = await walletProvider.sendTransaction({
-        to: MENTO_BROKER_ADDRESS as `0x${string}`,
-        data: encodeFunctionData({
-          abi: MENTO_BROKER_ABI,
-          functionName: "swapIn",
-          args: [
-            EXCHANGE_PROVIDER as `0x${string}`,
-            exchangeId as `0x${string}`,
-            fromTokenAddress,
-            toTokenAddress,
-            amountInWei,
-            minAmountOut,
-          ],
-        }),
-      });
-
-      const outputMessage = usingConnectedWallet
-        ? this.getSwapMessage(normalizedFromToken, normalizedToToken, amountDisplay)
-        : this.getSwapMessage(normalizedFromToken, normalizedToToken, amountDisplay);
-
-      return outputMessage;
+      const txHashes: string[] = [];
+      for (const [i, step] of steps.entries()) {
+        // Approve the venue first if the allowance does not cover the transaction
+        await this.ensureAllowance(walletProvider, step.tokenIn, step.maxAmountIn, step.to);
+
+        console.log(`[executeSwap] Swap ${i + 1}/${steps.length}: ${step.tokenIn.symbol} to ${step.tokenOut.symbol}, in ${formatUnits(step.amountIn, step.tokenIn.decimals)} (max ${formatUnits(step.maxAmountIn, step.tokenIn.decimals)}), out ${formatUnits(step.amountOut, step.tokenOut.decimals)} (min ${formatUnits(step.minAmountOut, step.tokenOut.decimals)}) with ${args.slippageTolerance}% route slippage`);
+
+        txHashes.push(await walletProvider.sendTransaction({ to: step.to, data: step.data }));
+      }
+
+      const description = args.side === 'exactIn'
+        ? `${formatUnits(quote.amountIn, fromInfo.decimals)} ${fromInfo.symbol} to ${toInfo.symbol}`
+        : `up to ${formatUnits(steps[0].maxAmountIn, fromInfo.decimals)} ${fromInfo.symbol} for exactly ${formatUnits(quote.amountOut, toInfo.decimals)} ${toInfo.symbol}`;
+      return this.getSwapMessage(`${description} on ${describeVenue(quote)} (price impact ${formatBps(priceImpactBps)})`, steps, txHashes);
     } catch (error) {
       // Enhanced error handling for a better user experience
       if (error instanceof InsufficientBalanceError || 
           error instanceof InsufficientAllowanceError ||
           error instanceof InvalidTokenError ||
+          error instanceof UnsupportedTokenPairError ||
+          error instanceof PriceImpactTooHighError ||
           error instanceof WrongNetworkError) {
         throw error; // These are already formatted nicely for the user
       } else {
@@ -562,14 +478,14 @@ You can monitor the status in the Transactions panel.`;
    */
   @CreateAction({
     name: "get_swap_quote",
-    description: "Get a quote for swapping between CELO, cUSD, and cEUR",
+    description: "Get a quote for swapping between CELO and Mento stablecoins (cUSD, cEUR, cREAL, eXOF, cKES, USDC, USDT), comparing Mento, Uniswap v3 and Ubeswap after gas and showing the venue execute_swap would use. With side exactIn the amount is what is sold; with side exactOut it is what is bought",
     schema: SwapParamsSchema,
   })
   async getSwapQuote(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof SwapParamsSchema>
   ): Promise<string> {
-    await this.checkNetwork(walletProvider);
+    const network = await this.checkNetwork(walletProvider);
     
     // IMPORTANT: Keep original amount as received from UI/command without pre-processing
     const originalAmount = String(args.amount);
@@ -577,68 +493,87 @@ You can monitor the status in the Transactions panel.`;
     
     console.log(`[getSwapQuote] Getting quote: ${originalAmount} ${fromToken} to ${toToken}`);
     
-    // Validate token pair is supported
-    const normalizedFromToken = fromToken.toUpperCase();
-    const normalizedToToken = toToken.toUpperCase();
+    const fromInfo = this.getTokenInfo(fromToken, network);
+    const toInfo = this.getTokenInfo(toToken, network);
     
-    const isCeloFrom = ['CELO', 'CELLO'].includes(normalizedFromToken);
-    const isUsdFrom = ['CUSD', 'CÚSD', 'CSUSD'].includes(normalizedFromToken);
-    const isEurFrom = ['CEUR', 'CÉUR', 'CSEUR'].includes(normalizedFromToken);
-    
-    const isCeloTo = ['CELO', 'CELLO'].includes(normalizedToToken);
-    const isUsdTo = ['CUSD', 'CÚSD', 'CSUSD'].includes(normalizedToToken);
-    const isEurTo = ['CEUR', 'CÉUR', 'CSEUR'].includes(normalizedToToken);
-    
-    // Validate token pair: Either CELO to stable or stable to CELO, not stable to stable
-    if (!(
-      (isCeloFrom && (isUsdTo || isEurTo)) || 
-      ((isUsdFrom || isEurFrom) && isCeloTo)
-    )) {
-      throw new Error(`Unsupported token pair: ${fromToken} to ${toToken}. Only CELO ⟷ cUSD/cEUR swaps are supported.`);
-    }
-    
-    const fromTokenAddress = this.getTokenAddress(fromToken);
-    const toTokenAddress = this.getTokenAddress(toToken);
-    const exchangeId = this.getExchangeId(fromToken, toToken);
+    // The amount is sold for exactIn and bought for exactOut
+    const exactOut = args.side === 'exactOut';
+    const amountToken = exactOut ? toInfo : fromInfo;
     
     // Parse amount to Wei for transaction - using our fixed function
-    const amountInWei = this.parseAmount(originalAmount);
-    const amountDisplay = formatEther(amountInWei);
+    const amountWei = this.parseAmount(originalAmount, amountToken.decimals);
     
-    console.log(`[getSwapQuote] Requesting quote for ${amountDisplay} ${fromToken} (${amountInWei} wei) to ${toToken}`);
+    console.log(`[getSwapQuote] Requesting ${args.side} quote for ${formatUnits(amountWei, amountToken.decimals)} ${amountToken.symbol} (${amountWei} wei), ${fromToken} to ${toToken}`);
     
-    // Get expected output amount
-    const expectedOutput = await walletProvider.readContract({
-      address: MENTO_BROKER_ADDRESS as `0x${string}`,
-      abi: MENTO_BROKER_ABI,
-      functionName: 'getAmountOut',
-      args: [
-        EXCHANGE_PROVIDER as `0x${string}`,
-        exchangeId,
-        fromTokenAddress,
-        toTokenAddress,
-        amountInWei
-      ]
-    }) as bigint;
+    // Quote every venue and take the best one after gas, as execute_swap does
+    const comparison = await compareSwapVenues(
+      walletProvider, network, fromInfo, toInfo, amountWei, args.side, selectSwapVenues(network, args.venue)
+    );
+    const quote = comparison.quotes[0];
     
-    // Format the output amount
-    const formattedOutput = formatEther(expectedOutput);
+    // Format the amounts
+    const amountDisplay = formatUnits(quote.amountIn, fromInfo.decimals);
+    const formattedOutput = formatUnits(quote.amountOut, toInfo.decimals);
     const exchangeRate = Number(formattedOutput) / Number(amountDisplay);
     
-    console.log(`[getSwapQuote] Quote received: ${formattedOutput} ${toToken} (${expectedOutput} wei)`);
+    console.log(`[getSwapQuote] Quote received: ${amountDisplay} ${fromToken} to ${formattedOutput} ${toToken} on ${describeVenue(quote)} in ${quote.hops.length} hop(s)`);
     console.log(`[getSwapQuote] Exchange rate: 1 ${fromToken} = ${exchangeRate.toFixed(6)} ${toToken}`);
     
     // Generate emoji for token display
-    const fromEmoji = fromToken.toUpperCase().includes('CELO') ? '🟡 CELO' : 
-                     fromToken.toUpperCase().includes('USD') ? '💵 cUSD' : '💶 cEUR';
-    const toEmoji = toToken.toUpperCase().includes('CELO') ? '🟡 CELO' : 
-                   toToken.toUpperCase().includes('USD') ? '💵 cUSD' : '💶 cEUR';
+    const fromEmoji = `${fromInfo.icon} ${fromInfo.symbol}`;
+    const toEmoji = `${toInfo.icon} ${toInfo.symbol}`;
     
-    return `📊 **Mento Swap Quote**\n\n💱 ${amountDisplay} ${fromEmoji} ➡️ ${formattedOutput} ${toEmoji}\n📈 Exchange Rate: 1 ${fromToken} = ${exchangeRate.toFixed(6)} ${toToken}\n\n⚠️ Rate may fluctuate slightly. Use slippage tolerance when executing swap.`;
+    // Rate of every pool on the route
+    const hopRates = quote.hops.map((hop, i) => {
+      const rate = Number(formatUnits(hop.amountOut, hop.tokenOut.decimals)) / Number(formatUnits(hop.amountIn, hop.tokenIn.decimals));
+      return `  ${i + 1}. 1 ${hop.tokenIn.symbol} = ${rate.toFixed(6)} ${hop.tokenOut.symbol}`;
+    });
+    
+    const side = exactOut
+      ? `🎯 Exact output: you receive exactly ${formattedOutput} ${toInfo.symbol} for about ${amountDisplay} ${fromInfo.symbol}\n`
+      : '';
+    
+    // The same bounds execute_swap sends with the swap
+    const slippageBps = percentToBps(args.slippageTolerance);
+    const limit = exactOut
+      ? `🛡️ Maximum sold (${formatBps(slippageBps)} slippage): ${formatUnits(getMaxAmountIn(quote.amountIn, slippageBps), fromInfo.decimals)} ${fromInfo.symbol}`
+      : `🛡️ Minimum received (${formatBps(slippageBps)} slippage): ${formatUnits(getMinAmountOut(quote.amountOut, slippageBps), toInfo.decimals)} ${toInfo.symbol}`;
+    
+    const priceImpactBps = await quoteVenuePriceImpact(walletProvider, network, quote);
+    const maxPriceImpactBps = this.getMaxPriceImpactBps(args);
+    const impact = priceImpactBps > maxPriceImpactBps
+      ? `📉 Price impact: ${formatBps(priceImpactBps)} ⛔ above the ${formatBps(maxPriceImpactBps)} limit, so this swap would be refused. Try a smaller amount.`
+      : `📉 Price impact: ${formatBps(priceImpactBps)}`;
+    
+    return `📊 **${SWAP_VENUE_NAMES[quote.venue]} Swap Quote**\n\n💱 ${amountDisplay} ${fromEmoji} ➡️ ${formattedOutput} ${toEmoji}\n${side}📈 Exchange Rate: 1 ${fromToken} = ${exchangeRate.toFixed(6)} ${toToken}\n🏦 Venue: ${describeVenue(quote)}\n🛣️ Route: ${this.describeRoute(getVenuePath(quote))}\n${hopRates.join('\n')}\n${limit}\n${impact}${this.describeVenueComparison(comparison, exactOut ? fromInfo : toInfo, exactOut)}\n\n⚠️ Rate may fluctuate slightly. Use slippage tolerance when executing swap.`;
+  }
+
+  /**
+   * List the quote of every venue after gas, best first (empty when a single venue was quoted)
+   *
+   * @param token Token the venues are compared in: toToken for exactIn, fromToken for exactOut
+   */
+  private describeVenueComparison(comparison: VenueComparison, token: TokenInfo, exactOut: boolean): string {
+    const venues = comparison.quotes.length + comparison.failures.length;
+    if (venues < 2) {
+      return '';
+    }
+
+    const lines = comparison.quotes.map((quote, i) => {
+      const amount = formatUnits(exactOut ? quote.amountIn : quote.amountOut, token.decimals);
+      const gas = quote.gasCost !== undefined
+        ? `, gas ≈ ${quote.gasCost.toFixed(4)} ${token.symbol}, net ${quote.netAmount.toFixed(4)} ${token.symbol}`
+        : '';
+      return `  ${i === 0 ? '✅' : '•'} ${describeVenue(quote)}: ${amount} ${token.symbol}${gas}`;
+    });
+    const unavailable = comparison.failures.map(({ venue }) => `  • ${SWAP_VENUE_NAMES[venue]}: no quote for this pair`);
+
+    const compared = exactOut ? 'cost including gas' : 'output after gas';
+    return `\n⚖️ Venues by ${compared} (gas at ${SWAP_GAS_PRICE_GWEI} gwei):\n${[...lines, ...unavailable].join('\n')}`;
   }
 
   supportsNetwork = (network: Network): boolean => {
-    return network.networkId?.includes("celo") || network.chainId === "42220";
+    return findCeloNetwork(network) !== undefined;
   };
 }
 
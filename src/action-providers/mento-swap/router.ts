@@ -0,0 +1,288 @@
+/**
+ * Mento swap routing
+ *
+ * The broker swaps through one pool at a time, so a pair without a pool of its own is swapped
+ * through intermediate tokens (cUSD → CELO → cEUR, or through a stablecoin hub). Every path of
+ * up to MENTO_MAX_HOPS pools is quoted, one hop depth per multicall batch, and the path with
+ * the largest output (or, for exact-output swaps, the smallest input) wins. Exact-output paths
+ * are quoted backwards from the last hop with getAmountIn.
+ */
+import { EvmWalletProvider } from '@coinbase/agentkit';
+import { isAddressEqual, type Address } from 'viem';
+import { MENTO_BROKER_ABI, MENTO_MAX_HOPS, SWAP_SIDES } from './constants';
+import { MentoSwapError, UnsupportedTokenPairError } from './errors';
+import { loadMentoExchanges, MentoExchange } from './exchanges';
+import { multicall, type MulticallCall } from '../../utils/multicall';
+import { getMaxAmountIn, getMinAmountOut, getPriceImpactBps, splitSlippageBps } from '../../utils/slippage';
+import { PRICE_IMPACT_REFERENCE_DIVISOR } from '../../constants/network';
+import { CeloNetworkConfig, CeloNetworkId } from '../../network/registry';
+import { findTokenByAddress, TokenInfo } from '../../network/tokens';
+
+export type SwapSide = typeof SWAP_SIDES[number];
+
+// One pool of a path
+export interface MentoPathStep {
+  exchangeId: `0x${string}`;
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+}
+
+// A quoted hop
+export interface MentoHop extends MentoPathStep {
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+// The best quoted path between two tokens
+export interface MentoRoute {
+  side: SwapSide;
+  hops: MentoHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+// A hop ready to be sent as swapIn (exactIn) or swapOut (exactOut)
+export interface MentoSwapStep extends MentoHop {
+  side: SwapSide;
+  // Least the hop may return; amountOut for exactOut
+  minAmountOut: bigint;
+  // Most the hop may take; amountIn for exactIn
+  maxAmountIn: bigint;
+}
+
+const holds = (exchange: MentoExchange, token: Address) =>
+  exchange.assets.some(asset => isAddressEqual(asset, token));
+
+/**
+ * Find every path of pools between two tokens, shortest first
+ *
+ * Intermediate tokens must be in the token registry and no token is visited twice.
+ *
+ * @param exchanges Pools to route through
+ * @param tokenIn Token to sell
+ * @param tokenOut Token to buy
+ * @param networkId Network the tokens are looked up on
+ * @param maxHops Most pools in a path
+ */
+export function findMentoPaths(
+  exchanges: MentoExchange[],
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  networkId: CeloNetworkId,
+  maxHops: number = MENTO_MAX_HOPS
+): MentoPathStep[][] {
+  const paths: MentoPathStep[][] = [];
+
+  const extend = (path: MentoPathStep[], token: TokenInfo, visited: Address[]) => {
+    if (isAddressEqual(token.address, tokenOut.address)) {
+      paths.push(path);
+      return;
+    }
+    if (path.length === maxHops) {
+      return;
+    }
+    for (const exchange of exchanges.filter(exchange => holds(exchange, token.address))) {
+      for (const asset of exchange.assets) {
+        const next = findTokenByAddress(asset, networkId);
+        if (next && !visited.some(address => isAddressEqual(address, asset))) {
+          extend([...path, { exchangeId: exchange.exchangeId, tokenIn: token, tokenOut: next }], next, [...visited, asset]);
+        }
+      }
+    }
+  };
+
+  extend([], tokenIn, [tokenIn.address]);
+  return paths.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Symbols of the tokens a token shares a pool with
+ */
+function getTradableWith(exchanges: MentoExchange[], token: TokenInfo, networkId: CeloNetworkId): string[] {
+  const symbols = exchanges
+    .filter(exchange => holds(exchange, token.address))
+    .flatMap(({ assets }) => assets.filter(asset => !isAddressEqual(asset, token.address)))
+    .map(asset => findTokenByAddress(asset, networkId)?.symbol ?? asset);
+  return [...new Set(symbols)];
+}
+
+// getAmountOut for the amount sold, or getAmountIn for the amount bought; typed for both
+// multicall and readContract
+const quoteCall = (network: CeloNetworkConfig, step: MentoPathStep, amount: bigint, side: SwapSide) => ({
+  address: network.mento.broker,
+  abi: MENTO_BROKER_ABI,
+  functionName: side === 'exactIn' ? 'getAmountOut' : 'getAmountIn',
+  args: [network.mento.exchangeProvider, step.exchangeId, step.tokenIn.address, step.tokenOut.address, amount],
+}) satisfies MulticallCall;
+
+/**
+ * Quote one hop on its own
+ */
+async function readQuote(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  step: MentoPathStep,
+  amount: bigint,
+  side: SwapSide
+): Promise<bigint> {
+  return await walletProvider.readContract(quoteCall(network, step, amount, side)) as bigint;
+}
+
+/**
+ * Quote the best path for a swap through the Mento broker
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param network Network whose broker and pools are used
+ * @param tokenIn Token to sell
+ * @param tokenOut Token to buy
+ * @param amount Amount to sell (exactIn) or buy (exactOut), in the smallest unit of the token
+ * @param side Whether the amount is sold or bought
+ * @returns The path with the largest output (exactIn) or smallest input (exactOut); fewer hops win ties
+ * @throws UnsupportedTokenPairError if no path joins the tokens
+ * @throws MentoSwapError if no path could be quoted
+ */
+export async function quoteMentoRoute(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amount: bigint,
+  side: SwapSide = 'exactIn'
+): Promise<MentoRoute> {
+  const exchanges = await loadMentoExchanges(walletProvider, network);
+  const paths = findMentoPaths(exchanges, tokenIn, tokenOut, network.id);
+  if (paths.length === 0) {
+    throw new UnsupportedTokenPairError(tokenIn.symbol, tokenOut.symbol, getTradableWith(exchanges, tokenIn, network.id));
+  }
+
+  // Quoted hops of every path; undefined once a hop of the path fails
+  const quoted: (MentoHop[] | undefined)[] = paths.map(() => []);
+  const longest = paths[paths.length - 1].length;
+  const exactIn = side === 'exactIn';
+
+  // exactIn quotes from the first hop forwards, exactOut from the last hop backwards
+  for (let depth = 0; depth < longest; depth++) {
+    const pending = paths.map((_, i) => i).filter(i => quoted[i] && paths[i].length > depth);
+    const steps = pending.map(i => paths[i][exactIn ? depth : paths[i].length - 1 - depth]);
+    const amounts = pending.map(i => {
+      const hops = quoted[i]!;
+      if (depth === 0) {
+        return amount;
+      }
+      return exactIn ? hops[hops.length - 1].amountOut : hops[0].amountIn;
+    });
+    const results = await multicall<bigint>(
+      walletProvider,
+      pending.map((_, j) => quoteCall(network, steps[j], amounts[j], side))
+    );
+
+    results.forEach((result, j) => {
+      const i = pending[j];
+      if (result.status === 'failure') {
+        console.warn(`[mento] Could not quote ${[paths[i][0].tokenIn, ...paths[i].map(step => step.tokenOut)].map(token => token.symbol).join(' → ')}:`, result.error.message);
+        quoted[i] = undefined;
+      } else if (exactIn) {
+        quoted[i]!.push({ ...steps[j], amountIn: amounts[j], amountOut: result.result });
+      } else {
+        quoted[i]!.unshift({ ...steps[j], amountIn: result.result, amountOut: amounts[j] });
+      }
+    });
+  }
+
+  let best: MentoRoute | undefined;
+  for (const hops of quoted) {
+    if (!hops || hops.length === 0) {
+      continue;
+    }
+    const route = { side, hops, amountIn: hops[0].amountIn, amountOut: hops[hops.length - 1].amountOut };
+    const better = exactIn ? route.amountOut > (best?.amountOut ?? BigInt(-1)) : !best || route.amountIn < best.amountIn;
+    if (better) {
+      best = route;
+    }
+  }
+  if (!best) {
+    throw new MentoSwapError(`No Mento route from ${tokenIn.symbol} to ${tokenOut.symbol} could be quoted. Please try again later.`);
+  }
+  return best;
+}
+
+/**
+ * Work out the amounts to send for each hop of a route
+ *
+ * The slippage tolerance is split across the hops so that the whole route stays within it.
+ * For exactIn, each hop after the first sells the minimum output of the hop before it (the
+ * only amount the wallet is sure to hold), so it is quoted again for that amount. For exactOut,
+ * each hop before the last buys the maximum input of the hop after it, so it is quoted again
+ * for that amount.
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param network Network whose broker is used
+ * @param route Quoted route
+ * @param slippageBps Slippage tolerance of the whole route, in basis points
+ */
+export async function getMentoSwapSteps(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  route: MentoRoute,
+  slippageBps: bigint
+): Promise<MentoSwapStep[]> {
+  const hopSlippageBps = splitSlippageBps(slippageBps, route.hops.length, route.side);
+  const steps: MentoSwapStep[] = [];
+
+  if (route.side === 'exactIn') {
+    let amountIn = route.amountIn;
+    for (const hop of route.hops) {
+      const amountOut = steps.length === 0 ? hop.amountOut : await readQuote(walletProvider, network, hop, amountIn, route.side);
+      const minAmountOut = getMinAmountOut(amountOut, hopSlippageBps);
+      steps.push({ ...hop, side: route.side, amountIn, amountOut, minAmountOut, maxAmountIn: amountIn });
+      amountIn = minAmountOut;
+    }
+    return steps;
+  }
+
+  let amountOut = route.amountOut;
+  for (const hop of [...route.hops].reverse()) {
+    const amountIn = steps.length === 0 ? hop.amountIn : await readQuote(walletProvider, network, hop, amountOut, route.side);
+    const maxAmountIn = getMaxAmountIn(amountIn, hopSlippageBps);
+    steps.unshift({ ...hop, side: route.side, amountIn, amountOut, minAmountOut: amountOut, maxAmountIn });
+    amountOut = maxAmountIn;
+  }
+  return steps;
+}
+
+/**
+ * Measure the price impact of a route
+ *
+ * The same path is quoted for 1/PRICE_IMPACT_REFERENCE_DIVISOR of the amount, whose rate stands
+ * in for the price before the swap. Pool spreads apply to both quotes, so only the price
+ * movement caused by the size of the swap remains.
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param network Network whose broker is used
+ * @param route Quoted route
+ * @returns Price impact in basis points
+ */
+export async function quoteMentoPriceImpact(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  route: MentoRoute
+): Promise<bigint> {
+  const divisor = BigInt(PRICE_IMPACT_REFERENCE_DIVISOR);
+  const atLeastOne = (amount: bigint) => (amount > BigInt(0) ? amount : BigInt(1));
+
+  if (route.side === 'exactIn') {
+    const amountIn = atLeastOne(route.amountIn / divisor);
+    let amountOut = amountIn;
+    for (const hop of route.hops) {
+      amountOut = await readQuote(walletProvider, network, hop, amountOut, route.side);
+    }
+    return getPriceImpactBps(route, { amountIn, amountOut });
+  }
+
+  const amountOut = atLeastOne(route.amountOut / divisor);
+  let amountIn = amountOut;
+  for (const hop of [...route.hops].reverse()) {
+    amountIn = await readQuote(walletProvider, network, hop, amountIn, route.side);
+  }
+  return getPriceImpactBps(route, { amountIn, amountOut });
+}
@@ -1,11 +1,17 @@
 import { z } from 'zod';
-import { SUPPORTED_TOKENS } from './constants';
+import { SUPPORTED_TOKENS, SWAP_SIDES, SWAP_VENUES } from './constants';
 
 export const SwapParamsSchema = z.object({
   fromToken: z.enum(SUPPORTED_TOKENS),
   toToken: z.enum(SUPPORTED_TOKENS),
+  // An amount of fromToken to sell (exactIn) or of toToken to buy (exactOut)
   amount: z.string(),
+  side: z.enum(SWAP_SIDES).default('exactIn'),
   slippageTolerance: z.number().min(0).max(100).default(0.5),
+  // Highest price impact to accept, in percent (defaults to MAX_PRICE_IMPACT_BPS)
+  maxPriceImpact: z.number().min(0).max(100).optional(),
+  // Venue to swap on; 'best' compares every venue after gas
+  venue: z.enum(['best', ...SWAP_VENUES]).default('best'),
 });
 
 export type SwapParams = z.infer<typeof SwapParamsSchema>;
@@ -0,0 +1,312 @@
+/**
+ * Uniswap v3 and Ubeswap quotes and swaps
+ *
+ * Besides the Mento broker, CELO and the stablecoins trade on Uniswap v3 and Ubeswap pools.
+ * Uniswap v3 is quoted through QuoterV2 for the direct pool at every fee tier, and Ubeswap
+ * through its router for the direct pair and for a path through CELO. Each venue returns its
+ * best quote with an estimate of the gas its swap uses, so venues can be compared after gas.
+ * Both swap in a single router transaction, whatever the number of pools.
+ */
+import { EvmWalletProvider } from '@coinbase/agentkit';
+import { decodeFunctionData, encodeFunctionData, isAddressEqual, type Address, type Hex } from 'viem';
+import {
+  SWAP_VENUES,
+  UBESWAP_ROUTER_ABI,
+  UBESWAP_SWAP_GAS_PER_HOP,
+  UNISWAP_V3_FEE_TIERS,
+  UNISWAP_V3_QUOTER_ABI,
+  UNISWAP_V3_ROUTER_ABI,
+  UNISWAP_V3_SWAP_GAS_OVERHEAD,
+} from './constants';
+import { MentoSwapError } from './errors';
+import type { MentoRoute, SwapSide } from './router';
+import { multicall } from '../../utils/multicall';
+import { SWAP_DEADLINE_SECONDS } from '../../constants/network';
+import { CeloNetworkConfig } from '../../network/registry';
+import { getToken, TokenInfo } from '../../network/tokens';
+
+export type SwapVenue = typeof SWAP_VENUES[number];
+
+// Names of the venues as shown to the user
+export const SWAP_VENUE_NAMES: Record<SwapVenue, string> = {
+  mento: 'Mento',
+  'uniswap-v3': 'Uniswap v3',
+  ubeswap: 'Ubeswap',
+};
+
+// A quoted pool of a venue's path
+export interface VenueHop {
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+interface VenueQuoteBase {
+  side: SwapSide;
+  hops: VenueHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  // Estimated gas of the swap transactions, approvals left out
+  gas: bigint;
+}
+
+// The best quote of one venue
+export type VenueQuote =
+  | (VenueQuoteBase & { venue: 'mento'; route: MentoRoute })
+  | (VenueQuoteBase & { venue: 'uniswap-v3'; fee: number })
+  | (VenueQuoteBase & { venue: 'ubeswap' });
+
+// Quotes of the venues that swap through a single router transaction
+export type RouterVenueQuote = Exclude<VenueQuote, { venue: 'mento' }>;
+
+/**
+ * Tokens a quote passes through, from the token sold to the token bought
+ */
+export function getVenuePath(quote: VenueQuote): TokenInfo[] {
+  return [quote.hops[0].tokenIn, ...quote.hops.map(hop => hop.tokenOut)];
+}
+
+/**
+ * Get the settings of a venue, failing when it is not deployed on the network
+ */
+function getVenueConfig<T>(config: T | undefined, venue: SwapVenue, network: CeloNetworkConfig): T {
+  if (!config) {
+    throw new MentoSwapError(`${SWAP_VENUE_NAMES[venue]} is not available on ${network.name}.`);
+  }
+  return config;
+}
+
+const isBetter = (quote: VenueQuoteBase, best: VenueQuoteBase | undefined) =>
+  !best || (quote.side === 'exactIn' ? quote.amountOut > best.amountOut : quote.amountIn < best.amountIn);
+
+/**
+ * Quote a swap through the direct Uniswap v3 pools of a pair
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param network Network whose quoter is used
+ * @param tokenIn Token to sell
+ * @param tokenOut Token to buy
+ * @param amount Amount to sell (exactIn) or buy (exactOut), in the smallest unit of the token
+ * @param side Whether the amount is sold or bought
+ * @param fees Pool fees to quote (defaults to every fee tier)
+ * @returns The quote of the pool with the largest output (exactIn) or smallest input (exactOut)
+ * @throws MentoSwapError if Uniswap v3 is not deployed on the network or no pool could be quoted
+ */
+export async function quoteUniswapV3(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amount: bigint,
+  side: SwapSide,
+  fees: readonly number[] = UNISWAP_V3_FEE_TIERS
+): Promise<RouterVenueQuote> {
+  const uniswap = getVenueConfig(network.uniswapV3, 'uniswap-v3', network);
+  const exactIn = side === 'exactIn';
+
+  // Pools that do not exist at a fee tier revert, and are skipped
+  const results = await multicall<readonly [bigint, bigint, number, bigint]>(walletProvider, fees.map(fee => ({
+    address: uniswap.quoter,
+    abi: UNISWAP_V3_QUOTER_ABI,
+    functionName: exactIn ? 'quoteExactInputSingle' : 'quoteExactOutputSingle',
+    args: [
+      exactIn
+        ? { tokenIn: tokenIn.address, tokenOut: tokenOut.address, amountIn: amount, fee, sqrtPriceLimitX96: BigInt(0) }
+        : { tokenIn: tokenIn.address, tokenOut: tokenOut.address, amount, fee, sqrtPriceLimitX96: BigInt(0) },
+    ],
+  })));
+
+  let best: RouterVenueQuote | undefined;
+  results.forEach((result, i) => {
+    if (result.status === 'failure' || result.result[0] === BigInt(0)) {
+      return;
+    }
+    const [quoted, , , gasEstimate] = result.result;
+    const amountIn = exactIn ? amount : quoted;
+    const amountOut = exactIn ? quoted : amount;
+    const quote: RouterVenueQuote = {
+      venue: 'uniswap-v3',
+      fee: fees[i],
+      side,
+      hops: [{ tokenIn, tokenOut, amountIn, amountOut }],
+      amountIn,
+      amountOut,
+      gas: gasEstimate + BigInt(UNISWAP_V3_SWAP_GAS_OVERHEAD),
+    };
+    if (isBetter(quote, best)) {
+      best = quote;
+    }
+  });
+
+  if (!best) {
+    throw new MentoSwapError(`No Uniswap v3 pool quotes ${tokenIn.symbol} to ${tokenOut.symbol}.`);
+  }
+  return best;
+}
+
+/**
+ * Paths to quote on Ubeswap: the direct pair, and through CELO when neither token is CELO
+ */
+function getUbeswapPaths(tokenIn: TokenInfo, tokenOut: TokenInfo, network: CeloNetworkConfig): TokenInfo[][] {
+  const celo = getToken('CELO', network.id);
+  const viaCelo = [tokenIn, tokenOut].some(token => isAddressEqual(token.address, celo.address))
+    ? []
+    : [[tokenIn, celo, tokenOut]];
+  return [[tokenIn, tokenOut], ...viaCelo];
+}
+
+/**
+ * Quote a swap through the Ubeswap router
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param network Network whose router is used
+ * @param tokenIn Token to sell
+ * @param tokenOut Token to buy
+ * @param amount Amount to sell (exactIn) or buy (exactOut), in the smallest unit of the token
+ * @param side Whether the amount is sold or bought
+ * @param paths Paths to quote (defaults to the direct pair and the path through CELO)
+ * @returns The quote of the path with the largest output (exactIn) or smallest input (exactOut)
+ * @throws MentoSwapError if Ubeswap is not deployed on the network or no path could be quoted
+ */
+export async function quoteUbeswap(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amount: bigint,
+  side: SwapSide,
+  paths: TokenInfo[][] = getUbeswapPaths(tokenIn, tokenOut, network)
+): Promise<RouterVenueQuote> {
+  const ubeswap = getVenueConfig(network.ubeswap, 'ubeswap', network);
+  const exactIn = side === 'exactIn';
+
+  // Paths without a pair revert, and are skipped
+  const results = await multicall<readonly bigint[]>(walletProvider, paths.map(path => ({
+    address: ubeswap.router,
+    abi: UBESWAP_ROUTER_ABI,
+    functionName: exactIn ? 'getAmountsOut' : 'getAmountsIn',
+    args: [amount, path.map(token => token.address)],
+  })));
+
+  let best: RouterVenueQuote | undefined;
+  results.forEach((result, i) => {
+    if (result.status === 'failure' || result.result.some(amount => amount === BigInt(0))) {
+      return;
+    }
+    const amounts = result.result;
+    const hops = paths[i].slice(1).map((token, j) => ({
+      tokenIn: paths[i][j],
+      tokenOut: token,
+      amountIn: amounts[j],
+      amountOut: amounts[j + 1],
+    }));
+    const quote: RouterVenueQuote = {
+      venue: 'ubeswap',
+      side,
+      hops,
+      amountIn: amounts[0],
+      amountOut: amounts[amounts.length - 1],
+      gas: BigInt(UBESWAP_SWAP_GAS_PER_HOP * hops.length),
+    };
+    if (isBetter(quote, best)) {
+      best = quote;
+    }
+  });
+
+  if (!best) {
+    throw new MentoSwapError(`No Ubeswap pair quotes ${tokenIn.symbol} to ${tokenOut.symbol}.`);
+  }
+  return best;
+}
+
+/**
+ * Get the router a quote swaps through, which is also the spender to approve
+ */
+export function getRouterAddress(network: CeloNetworkConfig, venue: RouterVenueQuote['venue']): Address {
+  return venue === 'uniswap-v3'
+    ? getVenueConfig(network.uniswapV3, venue, network).router
+    : getVenueConfig(network.ubeswap, venue, network).router;
+}
+
+/**
+ * Encode the router call of a quote
+ *
+ * @param quote Quote to swap
+ * @param recipient Address that receives the bought tokens
+ * @param minAmountOut Least the swap may return; the quoted output for exactOut
+ * @param maxAmountIn Most the swap may take; the quoted input for exactIn
+ */
+export function encodeRouterSwap(
+  quote: RouterVenueQuote,
+  recipient: Address,
+  minAmountOut: bigint,
+  maxAmountIn: bigint
+): Hex {
+  const tokenIn = quote.hops[0].tokenIn.address;
+  const tokenOut = quote.hops[quote.hops.length - 1].tokenOut.address;
+
+  if (quote.venue === 'uniswap-v3') {
+    return quote.side === 'exactIn'
+      ? encodeFunctionData({
+          abi: UNISWAP_V3_ROUTER_ABI,
+          functionName: 'exactInputSingle',
+          args: [{ tokenIn, tokenOut, fee: quote.fee, recipient, amountIn: quote.amountIn, amountOutMinimum: minAmountOut, sqrtPriceLimitX96: BigInt(0) }],
+        })
+      : encodeFunctionData({
+          abi: UNISWAP_V3_ROUTER_ABI,
+          functionName: 'exactOutputSingle',
+          args: [{ tokenIn, tokenOut, fee: quote.fee, recipient, amountOut: quote.amountOut, amountInMaximum: maxAmountIn, sqrtPriceLimitX96: BigInt(0) }],
+        });
+  }
+
+  const path = getVenuePath(quote).map(token => token.address);
+  const deadline = getSwapDeadline();
+  return quote.side === 'exactIn'
+    ? encodeFunctionData({
+        abi: UBESWAP_ROUTER_ABI,
+        functionName: 'swapExactTokensForTokens',
+        args: [quote.amountIn, minAmountOut, path, recipient, deadline],
+      })
+    : encodeFunctionData({
+        abi: UBESWAP_ROUTER_ABI,
+        functionName: 'swapTokensForExactTokens',
+        args: [quote.amountOut, maxAmountIn, path, recipient, deadline],
+      });
+}
+
+/**
+ * Get the deadline of a Ubeswap swap signed from now, SWAP_DEADLINE_SECONDS ahead
+ */
+function getSwapDeadline(now: number = Date.now()): bigint {
+  return BigInt(Math.floor(now / 1000) + SWAP_DEADLINE_SECONDS);
+}
+
+/**
+ * Move the deadline of an encoded Ubeswap swap to SWAP_DEADLINE_SECONDS from now
+ *
+ * Swaps queued behind an approval can wait longer than their deadline before they are released,
+ * so they are given a new one when they can be signed.
+ *
+ * @param data Calldata of the transaction
+ * @param now Current timestamp
+ * @returns The calldata with the new deadline, or undefined when it is not a Ubeswap swap
+ */
+export function refreshSwapDeadline(data: Hex, now: number = Date.now()): Hex | undefined {
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: UBESWAP_ROUTER_ABI, data });
+  } catch {
+    return undefined;
+  }
+  if (decoded.functionName !== 'swapExactTokensForTokens' && decoded.functionName !== 'swapTokensForExactTokens') {
+    return undefined;
+  }
+
+  const [amount, limit, path, recipient] = decoded.args as readonly [bigint, bigint, Address[], Address, bigint];
+  return encodeFunctionData({
+    abi: UBESWAP_ROUTER_ABI,
+    functionName: decoded.functionName,
+    args: [amount, limit, path, recipient, getSwapDeadline(now)],
+  });
+}
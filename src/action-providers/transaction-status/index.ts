@@ -0,0 +1,4 @@
+import { transactionStatusActionProvider } from "./transactionStatusActionProvider";
+
+export { transactionStatusActionProvider };
+export default transactionStatusActionProvider;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+// 🔎 Schema for checking the outcome of a transaction
+export const GetTransactionStatusSchema = z
+  .object({
+    transactionId: z.string().optional().describe("The transaction ID returned when the transaction was created (e.g. tx-1712345678901-42)"),
+    hash: z.string().optional().describe("The on-chain transaction hash"),
+  })
+  .strip();
+
+// 📜 Schema for listing recent transactions of the connected wallet
+export const ListRecentTransactionsSchema = z
+  .object({
+    limit: z.number().int().min(1).max(20).optional().default(5).describe("Number of transactions to return"),
+  })
+  .strip();
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import {
+  ActionProvider,
+  Network,
+  CreateAction,
+  EvmWalletProvider,
+} from "@coinbase/agentkit";
+import "reflect-metadata";
+import { GetTransactionStatusSchema, ListRecentTransactionsSchema } from "./schemas";
+import {
+  PendingTransaction,
+  getTransactionById,
+  getTransactionByHash,
+  getTransactionHistory,
+  formatValueToEther,
+} from "../../utils/transaction-utils";
+import { getDeferredTransactionId } from "../../utils/deferred-transaction";
+import { getExplorerTxUrl } from "../../network/registry";
+
+// Icons for each transaction status
+const STATUS_ICONS: Record<PendingTransaction['status'], string> = {
+  pending: "⏳",
+  signed: "✍️",
+  completed: "✅",
+  failed: "❌",
+  rejected: "🚫",
+  expired: "⌛",
+  queued: "🕒",
+  cancelled: "🚫",
+};
+
+/**
+ * 🔎 TransactionStatusActionProvider reports the real outcome of transactions created by the agent
+ */
+export class TransactionStatusActionProvider extends ActionProvider<EvmWalletProvider> {
+  constructor() {
+    super("transaction-status", []);
+  }
+
+  /**
+   * 🔐 Check whether the connected wallet may see a transaction
+   */
+  private isVisibleTo(tx: PendingTransaction, walletAddress: string): boolean {
+    // Backend wallet transactions are not bound to a frontend wallet
+    if (!tx.metadata?.requiresSignature) {
+      return true;
+    }
+    return tx.metadata.walletAddress.toLowerCase() === walletAddress.toLowerCase();
+  }
+
+  /**
+   * 📝 Describe a transaction and its on-chain outcome
+   */
+  private describeTransaction(tx: PendingTransaction): string {
+    const lines = [
+      `${STATUS_ICONS[tx.status]} **Transaction ${tx.id}**: ${tx.status.toUpperCase()}`,
+      `To: ${tx.to}`,
+      `Value: ${formatValueToEther(tx.value)} CELO`,
+      `Created: ${new Date(tx.timestamp).toISOString()}`,
+    ];
+
+    if (tx.hash) {
+      lines.push(`Hash: [${tx.hash}](${getExplorerTxUrl(tx.hash)})`);
+    }
+
+    if (tx.receipt) {
+      lines.push(
+        `Block: ${tx.receipt.blockNumber}`,
+        `Gas used: ${tx.receipt.gasUsed} at ${tx.receipt.effectiveGasPrice} wei`,
+        `On-chain status: ${tx.receipt.status}`
+      );
+    } else if (tx.status === "signed") {
+      lines.push("Waiting for on-chain confirmation.");
+    } else if (tx.status === "pending") {
+      lines.push("Waiting for the wallet signature.");
+    } else if (tx.status === "queued") {
+      lines.push("Waiting for the previous step to be confirmed.");
+    }
+
+    if (tx.bundle) {
+      lines.push(`Step ${tx.bundle.step} of "${tx.bundle.label}"`);
+    }
+
+    if (tx.error) {
+      lines.push(`Error: ${tx.error}`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * 🔎 Get the status of a transaction
+   */
+  @CreateAction({
+    name: "get_transaction_status",
+    description: "Get the real outcome of a transaction created by the agent (pending signature, confirmed on-chain, reverted, rejected or expired), by transaction ID or hash",
+    schema: GetTransactionStatusSchema,
+  })
+  async getTransactionStatus(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof GetTransactionStatusSchema>
+  ): Promise<string> {
+    const { transactionId, hash } = args;
+
+    if (!transactionId && !hash) {
+      return "Please provide a transaction ID or hash.";
+    }
+
+    // Placeholder hashes of deferred transactions resolve to their transaction ID
+    const id = transactionId || getDeferredTransactionId(hash!);
+    const tx = id ? getTransactionById(id) : getTransactionByHash(hash!);
+    if (!tx || !this.isVisibleTo(tx, await walletProvider.getAddress())) {
+      return `No transaction found for ${transactionId || hash}.`;
+    }
+
+    return this.describeTransaction(tx);
+  }
+
+  /**
+   * 📜 List recent transactions of the connected wallet
+   */
+  @CreateAction({
+    name: "list_recent_transactions",
+    description: "List the most recent transactions created for the connected wallet and their outcome",
+    schema: ListRecentTransactionsSchema,
+  })
+  async listRecentTransactions(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof ListRecentTransactionsSchema>
+  ): Promise<string> {
+    const walletAddress = await walletProvider.getAddress();
+    const transactions = getTransactionHistory(walletAddress, { limit: args.limit });
+
+    if (transactions.length === 0) {
+      return `No transactions found for ${walletAddress}.`;
+    }
+
+    return `📜 **Recent transactions for ${walletAddress}**\n\n` +
+      transactions.map(tx => this.describeTransaction(tx)).join("\n\n");
+  }
+
+  /**
+   * 🌐 Check if network is supported
+   */
+  supportsNetwork = (network: Network): boolean => {
+    return network.networkId?.includes("celo") || network.chainId === "42220";
+  };
+}
+
+export const transactionStatusActionProvider = () => new TransactionStatusActionProvider();
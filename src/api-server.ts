@@ -5,25 +5,46 @@ import cors from "cors";
 import bodyParser from "body-parser";
 import { HumanMessage } from "@langchain/core/messages";
 import * as dotenv from "dotenv";
-import { initializeAgent } from "./chatbot";
-import { pendingTransactions, updateTransactionStatus, getTransactionById } from "./utils/transaction-utils";
+import { initializeAgent, validateEnvironment } from "./chatbot";
+import {
+  getTransactions,
+  getTransactionHistory,
+  getTransactionCursor,
+  parseTransactionCursor,
+  getTransactionBundle,
+  getTransactionBundles,
+  updateTransactionStatus,
+  signTransactionBundle,
+  getTransactionById,
+  expirePendingTransactions,
+  isTransactionStatus,
+  IllegalTransactionTransitionError,
+} from "./utils/transaction-utils";
+import {
+  createSession,
+  getSession,
+  endSession,
+  getActiveSessionCount,
+  cleanupSessions,
+  SESSION_EXPIRATION_MS,
+} from "./utils/session-manager";
+import { watchTransaction, resumeTransactionWatchers } from "./utils/transaction-watcher";
+import { streamAgentEvents, formatSseEvent } from "./utils/agent-stream";
+import { issueNonce, verifySignIn, getSignInDomains, cleanupNonces, SiweVerificationError } from "./utils/siwe-auth";
+import { supportsAtomicBatch, getPendingBatches } from "./utils/wallet-capabilities";
+import { getRpcHealth } from "./network/rpc";
 
 dotenv.config();
 
-// Store connected wallet address globally for use across requests
-let connectedWalletAddress: string | null = null;
-
-// Cache agent instances by wallet address
+// Cache agent instances by session token ("default" for requests without a session)
 const agentCache: Record<string, { agent: any, config: any, timestamp: number }> = {};
-// Cache expiration time (30 minutes)
-const CACHE_EXPIRATION_MS = 30 * 60 * 1000;
+// Cache expiration time (30 minutes, same as session expiry)
+const CACHE_EXPIRATION_MS = SESSION_EXPIRATION_MS;
 
 /**
- * Get or create an agent for the current wallet address
+ * Get or create an agent for a session
  */
-async function getOrCreateAgent(walletAddress: string | null) {
-  // Create a cache key - either the wallet address or "default" for no wallet
-  const cacheKey = walletAddress || "default";
+async function getOrCreateAgent(cacheKey: string, walletAddress: string | null) {
   const now = Date.now();
   
   // Check if we have a cached agent and it's not expired
@@ -31,7 +52,8 @@ async function getOrCreateAgent(walletAddress: string | null) {
     agentCache[cacheKey] && 
     now - agentCache[cacheKey].timestamp < CACHE_EXPIRATION_MS
   ) {
-    console.log(`Using cached agent for ${cacheKey}`);
+    console.log(`Using cached agent for ${cacheKey === "default" ? cacheKey : walletAddress}`);
+    agentCache[cacheKey].timestamp = now;
     return {
       agent: agentCache[cacheKey].agent,
       config: agentCache[cacheKey].config
@@ -39,9 +61,9 @@ async function getOrCreateAgent(walletAddress: string | null) {
   }
   
   // Initialize a new agent
-  console.log(`Creating new agent for ${cacheKey}`);
+  console.log(`Creating new agent for ${cacheKey === "default" ? cacheKey : walletAddress}`);
   const { agent, config } = await initializeAgent({ 
-    network: "celo", 
+    network: process.env.NETWORK_ID || "celo", 
     nonInteractive: true,
     walletAddress: walletAddress
   });
@@ -56,15 +78,68 @@ async function getOrCreateAgent(walletAddress: string | null) {
   return { agent, config };
 }
 
+/**
+ * Read the session token from the Authorization header ("Bearer <token>") or X-Session-Token
+ */
+function getSessionToken(req): string | null {
+  const authorization = req.headers["authorization"];
+  if (typeof authorization === "string" && authorization.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+
+  const headerToken = req.headers["x-session-token"];
+  if (typeof headerToken === "string" && headerToken.length > 0) {
+    return headerToken;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the session for a request, sending a 401 response when it is missing or expired
+ *
+ * @returns The session, or null if a response has already been sent
+ */
+function requireSession(req, res) {
+  const token = getSessionToken(req);
+  if (!token) {
+    res.status(401).json({
+      success: false,
+      message: 'Missing session token. Connect your wallet via /api/wallet/connect first'
+    });
+    return null;
+  }
+
+  const session = getSession(token);
+  if (!session) {
+    res.status(401).json({
+      success: false,
+      message: 'Session expired or invalid. Please reconnect your wallet'
+    });
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Check whether a transaction was created for the given wallet
+ */
+function belongsToWallet(tx, walletAddress: string): boolean {
+  return tx.metadata?.walletAddress?.toLowerCase() === walletAddress.toLowerCase();
+}
+
 /**
  * Create an Express server to expose the AI agent as an API
  */
 async function createServer() {
   try {
+    validateEnvironment();
+
     // Initialize the agent in non-interactive mode, automatically selecting Celo
     console.log("🤖 Initializing AI agent for API...");
     const { agent: defaultAgent, config: defaultConfig } = await initializeAgent({ 
-      network: "celo", 
+      network: process.env.NETWORK_ID || "celo", 
       nonInteractive: true 
     });
     console.log("✅ Agent initialization complete");
@@ -76,44 +151,87 @@ async function createServer() {
       timestamp: Date.now()
     };
 
+    // Pick up signed transactions that were not confirmed before the last restart
+    const resumed = resumeTransactionWatchers();
+    if (resumed > 0) {
+      console.log(`🔎 Resumed confirmation of ${resumed} signed transaction(s)`);
+    }
+
+    // Sign-in messages are only accepted for the configured frontend domains
+    const signInDomains = getSignInDomains();
+    if (signInDomains.length === 0) {
+      console.error("🚨 SIWE_DOMAIN is not set: wallet sign-in is disabled until it names the frontend domain(s)");
+    }
+
     // Create Express app
     const app = express();
     app.use(cors());
     app.use(bodyParser.json());
 
-    // Wallet connection endpoint
+    // Sign-in nonce endpoint
+    app.get("/api/wallet/nonce", (_, res) => {
+      const { nonce, expirationTime } = issueNonce();
+      return res.json({
+        success: true,
+        nonce,
+        expirationTime
+      });
+    });
+
+    // Wallet connection endpoint (requires a signed EIP-4361 sign-in message)
+    // Optionally accepts the wallet's EIP-5792 `capabilities` (result of wallet_getCapabilities)
     app.post("/api/wallet/connect", async (req, res) => {
       try {
-        const { walletAddress } = req.body;
+        const { message, signature, capabilities } = req.body;
         
-        if (!walletAddress) {
-          return res.status(400).json({ 
-            success: false, 
-            message: 'No wallet address provided' 
+        if (signInDomains.length === 0) {
+          return res.status(503).json({
+            success: false,
+            message: 'Wallet sign-in is disabled: SIWE_DOMAIN is not configured on the server'
           });
         }
         
-        // Validate wallet address format
-        if (!/^0x[0-9a-fA-F]{40}$/.test(walletAddress)) {
+        if (typeof message !== "string" || typeof signature !== "string") {
           return res.status(400).json({ 
             success: false, 
-            message: 'Invalid wallet address format. Must be a 0x-prefixed 20-byte hex string (40 characters after 0x)' 
+            message: 'A signed sign-in message is required. Request a nonce from /api/wallet/nonce, then send { message, signature }' 
           });
         }
         
-        console.log(`✅ Wallet connected: ${walletAddress}`);
+        // Prove wallet ownership before binding it to a session
+        const { walletAddress, chainId, expiresAt } = await verifySignIn(
+          message,
+          signature,
+          signInDomains
+        );
         
-        // Store the wallet address for future agent initializations
-        connectedWalletAddress = walletAddress;
+        // Bind the wallet to a new session
+        const atomicBatch = supportsAtomicBatch(capabilities, chainId);
+        const session = createSession(walletAddress, expiresAt, { chainId, atomicBatch });
+        console.log(`✅ Wallet connected: ${walletAddress}${atomicBatch ? ' (atomic batching)' : ''}`);
         
-        // Pre-initialize an agent for this wallet address
-        await getOrCreateAgent(walletAddress);
+        // Pre-initialize an agent for this session
+        await getOrCreateAgent(session.token, walletAddress);
         
         return res.status(200).json({ 
           success: true, 
-          message: 'Wallet address received and stored for agent communication' 
+          message: 'Wallet connected. Send the session token with every chat and transaction request',
+          walletAddress,
+          sessionToken: session.token,
+          expiresAt: new Date(expiresAt).toISOString(),
+          expiresInMs: SESSION_EXPIRATION_MS,
+          // Capabilities the server will use for this session
+          capabilities: { atomicBatch }
         });
       } catch (error) {
+        if (error instanceof SiweVerificationError) {
+          console.warn(`⚠️ Wallet sign-in rejected: ${error.message}`);
+          return res.status(401).json({
+            success: false,
+            message: error.message
+          });
+        }
+
         console.error('Error handling wallet connection:', error);
         return res.status(500).json({ 
           success: false, 
@@ -122,17 +240,47 @@ async function createServer() {
       }
     });
 
+    // Wallet disconnection endpoint
+    app.post("/api/wallet/disconnect", (req, res) => {
+      const token = getSessionToken(req);
+      if (!token || !endSession(token)) {
+        return res.status(404).json({
+          success: false,
+          message: 'No active session found'
+        });
+      }
+
+      delete agentCache[token];
+      console.log(`👋 Session ended`);
+
+      return res.json({
+        success: true,
+        message: 'Wallet disconnected'
+      });
+    });
+
     // Transaction handling endpoints
     
-    // Get pending transactions
+    // Get pending transactions for the session wallet
     app.get("/api/transactions/pending", (req, res) => {
       try {
-        // Filter transactions that are in pending state
-        const pending = pendingTransactions.filter(tx => tx.status === 'pending');
+        const session = requireSession(req, res);
+        if (!session) return;
+
+        // Filter transactions that are in pending state and belong to this wallet
+        let pending = getTransactions('pending').filter(
+          tx => belongsToWallet(tx, session.walletAddress)
+        );
+
+        // Wallets with atomic batching receive bundles as one wallet_sendCalls request instead
+        const batches = session.atomicBatch ? getPendingBatches(session.walletAddress, session.chainId) : [];
+        const batched = new Set(batches.flatMap(batch => batch.transactionIds));
+        pending = pending.filter(tx => !batched.has(tx.id));
         
         return res.json({
           success: true,
-          transactions: pending
+          transactions: pending,
+          batches
         });
       } catch (error) {
         console.error('Error fetching pending transactions:', error);
@@ -143,11 +291,210 @@ async function createServer() {
       }
     });
     
+    // Get the transaction history of the session wallet (newest first)
+    app.get("/api/transactions/history", (req, res) => {
+      try {
+        const session = requireSession(req, res);
+        if (!session) return;
+
+        const { status, limit, before } = req.query;
+        const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+        const parsedBefore = before !== undefined ? parseTransactionCursor(String(before)) : undefined;
+
+        if (
+          (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > 200)) ||
+          (before !== undefined && parsedBefore === undefined)
+        ) {
+          return res.status(400).json({
+            success: false,
+            message: "'limit' must be an integer between 1 and 200 and 'before' must be a cursor returned as 'nextCursor' or a timestamp"
+          });
+        }
+
+        const transactions = getTransactionHistory(session.walletAddress, {
+          status: typeof status === "string" ? status : undefined,
+          limit: parsedLimit,
+          before: parsedBefore
+        });
+
+        return res.json({
+          success: true,
+          transactions,
+          // Pass as 'before' to fetch the next page
+          nextCursor: transactions.length > 0 ? getTransactionCursor(transactions[transactions.length - 1]) : null
+        });
+      } catch (error) {
+        console.error('Error fetching transaction history:', error);
+        return res.status(500).json({
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown server error'
+        });
+      }
+    });
+    
+    // Get the multi-step transaction bundles of the session wallet (newest first)
+    app.get("/api/transactions/bundles", (req, res) => {
+      try {
+        const session = requireSession(req, res);
+        if (!session) return;
+
+        return res.json({
+          success: true,
+          bundles: getTransactionBundles(session.walletAddress)
+        });
+      } catch (error) {
+        console.error('Error fetching transaction bundles:', error);
+        return res.status(500).json({
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown server error'
+        });
+      }
+    });
+
+    // Get a single bundle with the progress of its steps
+    app.get("/api/transactions/bundles/:bundleId", (req, res) => {
+      try {
+        const session = requireSession(req, res);
+        if (!session) return;
+
+        const bundle = getTransactionBundle(req.params.bundleId);
+        if (!bundle || bundle.walletAddress.toLowerCase() !== session.walletAddress.toLowerCase()) {
+          return res.status(404).json({
+            success: false,
+            message: `Bundle with ID ${req.params.bundleId} not found`
+          });
+        }
+
+        return res.json({
+          success: true,
+          bundle
+        });
+      } catch (error) {
+        console.error('Error fetching transaction bundle:', error);
+        return res.status(500).json({
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown server error'
+        });
+      }
+    });
+    
+    // Report the outcome of a bundle sent as one wallet_sendCalls batch
+    app.post("/api/transactions/bundles/:bundleId/update", (req, res) => {
+      try {
+        const session = requireSession(req, res);
+        if (!session) return;
+
+        const { bundleId } = req.params;
+        const { status, hash, batchId } = req.body;
+
+        const bundle = getTransactionBundle(bundleId);
+        if (!bundle || bundle.walletAddress.toLowerCase() !== session.walletAddress.toLowerCase()) {
+          return res.status(404).json({
+            success: false,
+            message: `Bundle with ID ${bundleId} not found`
+          });
+        }
+
+        // Rejecting the current step cancels the steps queued behind it
+        if (status === 'rejected') {
+          const current = bundle.steps.find(tx => tx.bundle.step === bundle.currentStep);
+          if (!current) {
+            return res.status(409).json({
+              success: false,
+              message: `Bundle ${bundleId} has already finished`
+            });
+          }
+          updateTransactionStatus(current.id, 'rejected');
+          return res.json({
+            success: true,
+            bundle: getTransactionBundle(bundleId)
+          });
+        }
+
+        if (
+          status !== 'signed' ||
+          typeof hash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(hash) ||
+          typeof batchId !== 'string' || batchId.length === 0
+        ) {
+          return res.status(400).json({
+            success: false,
+            message: "Report 'rejected', or 'signed' with the wallet_sendCalls 'batchId' and the 32-byte transaction 'hash' from wallet_getCallsStatus"
+          });
+        }
+
+        const signed = signTransactionBundle(bundleId, hash, batchId);
+        console.log(`Bundle ${bundleId} signed as batch ${batchId}: ${signed.length} step(s), hash=${hash}`);
+
+        // Confirm every step against the batch receipt in the background
+        for (const tx of signed) {
+          watchTransaction(tx.id, hash);
+        }
+
+        return res.json({
+          success: true,
+          bundle: getTransactionBundle(bundleId)
+        });
+      } catch (error) {
+        if (error instanceof IllegalTransactionTransitionError) {
+          return res.status(409).json({
+            success: false,
+            message: error.message,
+            currentStatus: error.from
+          });
+        }
+
+        console.error(`Error updating transaction bundle:`, error);
+        return res.status(500).json({
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown server error'
+        });
+      }
+    });
+
     // Update transaction status
     app.post("/api/transactions/:txId/update", (req, res) => {
       try {
+        const session = requireSession(req, res);
+        if (!session) return;
+
         const { txId } = req.params;
-        const { status, hash } = req.body;
+        const { hash } = req.body;
+        let { status } = req.body;
+
+        if (!isTransactionStatus(status)) {
+          return res.status(400).json({
+            success: false,
+            message: `Invalid status '${status}'. Expected 'signed' (with a hash) or 'rejected'`
+          });
+        }
+
+        // Older clients report 'completed' right after sending; the watcher decides the final status
+        if (status === 'completed' && hash) {
+          status = 'signed';
+        }
+
+        if (status === 'completed' || status === 'failed') {
+          return res.status(400).json({
+            success: false,
+            message: `'${status}' is set once the transaction is confirmed on-chain. Report 'signed' with the transaction hash instead`
+          });
+        }
+
+        if (status === 'signed' && (typeof hash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(hash))) {
+          return res.status(400).json({
+            success: false,
+            message: "A 0x-prefixed 32-byte transaction 'hash' is required when reporting a signed transaction"
+          });
+        }
+
+        // Only the wallet that owns the transaction may update it
+        const existingTx = getTransactionById(txId);
+        if (!existingTx || !belongsToWallet(existingTx, session.walletAddress)) {
+          return res.status(404).json({
+            success: false,
+            message: `Transaction with ID ${txId} not found`
+          });
+        }
         
         // Use the utility function instead of directly manipulating the array
         const updatedTx = updateTransactionStatus(txId, status, hash);
@@ -160,12 +507,25 @@ async function createServer() {
         }
         
         console.log(`Transaction ${txId} updated: status=${status}, hash=${hash || 'N/A'}`);
+
+        // Confirm the receipt on-chain in the background
+        if (status === 'signed') {
+          watchTransaction(txId, hash);
+        }
         
         return res.json({
           success: true,
           transaction: updatedTx
         });
       } catch (error) {
+        if (error instanceof IllegalTransactionTransitionError) {
+          return res.status(409).json({
+            success: false,
+            message: error.message,
+            currentStatus: error.from
+          });
+        }
+
         console.error(`Error updating transaction:`, error);
         return res.status(500).json({
           success: false,
@@ -185,10 +545,20 @@ async function createServer() {
           });
         }
 
+        // Resolve the session, falling back to the default agent when no token is sent
+        let cacheKey = "default";
+        let walletAddress = null;
+        if (getSessionToken(req)) {
+          const session = requireSession(req, res);
+          if (!session) return;
+          cacheKey = session.token;
+          walletAddress = session.walletAddress;
+        }
+
         console.log(`🔍 Received query: "${userInput}"`);
         
-        // Get agent for the current wallet address
-        let { agent, config } = await getOrCreateAgent(connectedWalletAddress);
+        // Get agent for the session wallet
+        let { agent, config } = await getOrCreateAgent(cacheKey, walletAddress);
         
         let finalResponse = "";
         // Use streaming for real-time updates
@@ -211,23 +581,101 @@ async function createServer() {
       }
     });
 
+    // Streaming variant of the chat endpoint (Server-Sent Events)
+    app.post("/api/agent/chat/stream", async (req, res) => {
+      const { userInput } = req.body;
+      
+      if (!userInput || typeof userInput !== "string") {
+        return res.status(400).json({ 
+          error: "Invalid request. 'userInput' must be a non-empty string." 
+        });
+      }
+
+      // Resolve the session, falling back to the default agent when no token is sent
+      let cacheKey = "default";
+      let walletAddress = null;
+      if (getSessionToken(req)) {
+        const session = requireSession(req, res);
+        if (!session) return;
+        cacheKey = session.token;
+        walletAddress = session.walletAddress;
+      }
+
+      console.log(`🔍 Received streaming query: "${userInput}"`);
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no"
+      });
+      res.flushHeaders();
+
+      // Stop writing once the browser goes away
+      let clientClosed = false;
+      req.on("close", () => {
+        clientClosed = true;
+      });
+
+      try {
+        const { agent, config } = await getOrCreateAgent(cacheKey, walletAddress);
+
+        for await (const event of streamAgentEvents(agent, userInput, config)) {
+          if (clientClosed) break;
+          res.write(formatSseEvent(event));
+
+          if (event.type === "tool_call") {
+            console.log(`🛠️ Tool call: ${event.name}`);
+          } else if (event.type === "done") {
+            console.log(`✅ Streamed response (${event.response.length} chars)`);
+          } else if (event.type === "error") {
+            console.error("🚨 Error in /api/agent/chat/stream:", event.message);
+          }
+        }
+      } catch (err: any) {
+        console.error("🚨 Error in /api/agent/chat/stream:", err);
+        if (!clientClosed) {
+          res.write(formatSseEvent({ type: "error", message: err.message || "Unknown error occurred" }));
+        }
+      }
+
+      res.end();
+    });
+
     // Health check endpoint
     app.get("/api/health", (_, res) => {
+      const rpc = getRpcHealth();
       return res.json({ 
-        status: "ok", 
+        status: rpc.healthy ? "ok" : "degraded", 
         service: "CeloMΔIND API",
-        walletConnected: connectedWalletAddress ? true : false
+        activeSessions: getActiveSessionCount(),
+        rpc
       });
     });
 
+    // Periodically drop expired sessions, their cached agents and stale nonces, expire unsigned transactions
+    // and watch again signed transactions whose receipt has not arrived yet
+    setInterval(() => {
+      cleanupNonces();
+      expirePendingTransactions();
+      resumeTransactionWatchers();
+      for (const token of cleanupSessions()) {
+        delete agentCache[token];
+      }
+    }, 5 * 60 * 1000);
+
     // Start the server
     const PORT = process.env.PORT || 4000;
     app.listen(PORT, () => {
       console.log(`🚀 CeloMΔIND API server running on port ${PORT}`);
       console.log(`🔗 Health check: http://localhost:${PORT}/api/health`);
       console.log(`🔗 Chat endpoint: http://localhost:${PORT}/api/agent/chat`);
+      console.log(`🔗 Streaming chat endpoint: http://localhost:${PORT}/api/agent/chat/stream`);
+      console.log(`🔗 Wallet sign-in nonce: http://localhost:${PORT}/api/wallet/nonce`);
       console.log(`🔗 Wallet connection: http://localhost:${PORT}/api/wallet/connect`);
       console.log(`🔗 Pending transactions: http://localhost:${PORT}/api/transactions/pending`);
+      console.log(`🔗 Transaction history: http://localhost:${PORT}/api/transactions/history`);
+      console.log(`🔗 Transaction bundles: http://localhost:${PORT}/api/transactions/bundles`);
     });
   } catch (error) {
     console.error("🚨 Failed to start API server:", error);
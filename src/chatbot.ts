@@ -3,26 +3,34 @@ import {
   walletActionProvider,
   erc20ActionProvider,
   ViemWalletProvider,
+  EvmWalletProvider,
 } from "@coinbase/agentkit";
 
 import { getLangChainTools } from "@coinbase/agentkit-langchain";
 import { HumanMessage } from "@langchain/core/messages";
 import { MemorySaver } from "@langchain/langgraph";
 import { createReactAgent } from "@langchain/langgraph/prebuilt";
-import { ChatOpenAI } from "@langchain/openai";
 import * as dotenv from "dotenv";
 import * as readline from "readline";
 import { TelegramInterface } from "./telegram-interface";
 import "reflect-metadata";
 import { ichiVaultActionProvider } from "./action-providers/ichi-vault";
 import { aaveActionProvider } from "./action-providers/aave";
-import { createPublicClient, http } from 'viem';
-import { celo } from 'viem/chains';
+import { createPublicClient } from 'viem';
 import { privateKeyToAccount } from "viem/accounts";
-import { createWalletClient } from "viem";
+import { createWalletClient, formatEther } from "viem";
 import { balanceCheckerActionProvider } from "./action-providers/balance-checker";
-import { mentoSwapActionProvider } from "./action-providers/mento-swap";
-import { createPendingTransaction, pendingTransactions } from "./utils/transaction-utils";
+import { loadMentoExchanges, mentoSwapActionProvider } from "./action-providers/mento-swap";
+import { transactionStatusActionProvider } from "./action-providers/transaction-status";
+import { createPendingTransaction, pendingTransactions, hasUnconfirmedTransactions, isConclusiveRevert } from "./utils/transaction-utils";
+import { simulateTransaction, TransactionSimulationError } from "./utils/transaction-simulator";
+import { createDeferredHash, createDeferredReceipt, isDeferredTransaction } from "./utils/deferred-transaction";
+import { createChatModel, getChatModelConfig, getRequiredEnvironment, ChatModelConfig } from "./utils/chat-model";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { DEMO_COMMANDS } from "./constants/demo";
+import { fundForkAccount, getLocalForkConfig, isLocalForkAvailable, LocalForkConfig, LocalForkError } from "./utils/local-fork";
+import { getCeloNetworkById, setActiveCeloNetwork } from "./network/registry";
+import { createRpcTransport, getRpcUrls } from "./network/rpc";
 
 dotenv.config();
 
@@ -32,11 +40,19 @@ import type { PendingTransaction } from './utils/transaction-utils';
 /**
  * Validates that required environment variables are set
  */
-function validateEnvironment(): void {
+export function validateEnvironment(): void {
   const missingVars: string[] = [];
 
+  let llmConfig: ChatModelConfig;
+  try {
+    llmConfig = getChatModelConfig();
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
   const requiredVars = [
-    "OPENAI_API_KEY",
+    ...getRequiredEnvironment(llmConfig.provider),
     "WALLET_PRIVATE_KEY"
   ];
   
@@ -57,8 +73,6 @@ function validateEnvironment(): void {
   console.log("Environment validated successfully");
 }
 
-validateEnvironment();
-
 /**
  * Select network interactively
  */
@@ -70,9 +84,10 @@ async function selectNetwork(): Promise<string> {
 
   console.log("\nSelect network:");
   console.log("1. Celo");
+  console.log("2. Celo Alfajores (Testnet)");
 
   const answer = await new Promise<string>((resolve) => {
-    rl.question("Press 1 to continue with Celo: ", resolve);
+    rl.question("Enter your choice (1-2): ", resolve);
   });
   
   rl.close();
@@ -80,6 +95,9 @@ async function selectNetwork(): Promise<string> {
   if (answer.trim() === "1") {
     return "celo";
   }
+  if (answer.trim() === "2") {
+    return "celo-alfajores";
+  }
   
   console.log("Invalid choice, defaulting to Celo");
   return "celo";
@@ -91,18 +109,32 @@ async function selectNetwork(): Promise<string> {
  * @param options Optional parameters for non-interactive initialization
  * @returns Agent executor and config
  */
-export async function initializeAgent(options?: { network?: string, nonInteractive?: boolean, walletAddress?: string }) {
+export async function initializeAgent(options?: {
+  network?: string,
+  nonInteractive?: boolean,
+  walletAddress?: string,
+  // Overrides of the LLM settings read from the environment
+  llm?: Partial<ChatModelConfig>,
+  // Chat model and wallet provider to use instead of the configured ones (e.g. in tests)
+  chatModel?: BaseChatModel,
+  walletProvider?: EvmWalletProvider,
+  // Local anvil fork to use instead of the one configured by CELO_FORK_RPC_URL
+  localFork?: LocalForkConfig
+}) {
   try {
     console.log("Initializing agent...");
 
     // Select network either interactively or from provided option
     const selectedNetwork = options?.nonInteractive 
-      ? (options.network || "celo") 
+      ? (options.network || process.env.NETWORK_ID || "celo") 
       : await selectNetwork();
+
+    const celoNetwork = getCeloNetworkById(selectedNetwork);
+    setActiveCeloNetwork(celoNetwork.id);
       
-    console.log(`Selected network: ${selectedNetwork}`);
+    console.log(`Selected network: ${celoNetwork.name}`);
 
-    const selectedChain = celo;
+    const selectedChain = celoNetwork.chain;
 
     // Create wallet provider
     let walletProvider;
@@ -128,13 +160,24 @@ export async function initializeAgent(options?: { network?: string, nonInteracti
     // Create Viem account and client
     const account = privateKeyToAccount(privateKey as `0x${string}`);
     
-    const transport = http(selectedChain.rpcUrls.default.http[0], {
-      batch: true,
-      fetchOptions: {},
-      retryCount: 3,
-      retryDelay: 100,
-      timeout: 30_000,
-    });
+    // Send everything to a local fork of Celo mainnet when fork mode is on
+    const localFork = options?.localFork ?? getLocalForkConfig();
+    const rpcUrls = localFork ? [localFork.rpcUrl] : getRpcUrls(celoNetwork);
+
+    if (localFork) {
+      if (celoNetwork.testnet) {
+        throw new LocalForkError(`Local fork mode forks Celo mainnet and cannot run on ${celoNetwork.name}`);
+      }
+      if (!(await isLocalForkAvailable(localFork.rpcUrl))) {
+        throw new LocalForkError(`No Celo fork is answering at ${localFork.rpcUrl}. Start one with: anvil --fork-url https://forno.celo.org --chain-id 42220`);
+      }
+      const balance = await fundForkAccount(localFork.rpcUrl, account.address, localFork.funding);
+      console.log(`🧪 Local fork mode: ${localFork.rpcUrl} (${account.address} holds ${formatEther(balance)} CELO)`);
+    }
+
+    // Fail over between the configured RPC endpoints
+    const transport = createRpcTransport(rpcUrls);
+    console.log(`RPC endpoints: ${rpcUrls.join(", ")}`);
 
     const client = createWalletClient({
       account,
@@ -143,7 +186,7 @@ export async function initializeAgent(options?: { network?: string, nonInteracti
     });
 
     // Create Viem wallet provider with gas multipliers for better transaction handling
-    walletProvider = new ViemWalletProvider(client, {
+    walletProvider = options?.walletProvider ?? new ViemWalletProvider(client, {
       gasLimitMultiplier: 1.2,
       feePerGasMultiplier: 1.1
     });
@@ -158,37 +201,57 @@ export async function initializeAgent(options?: { network?: string, nonInteracti
       } else {
         console.log(`Patching wallet provider methods to use connected wallet: ${connectedWalletAddress}`);
         
+        // Simulate every transaction from the connected wallet before it is handed over for signing
+        const publicClient = createPublicClient({
+          chain: selectedChain,
+          transport,
+        });
+        const queueForSignature = async (to: string, value: string, data?: string): Promise<`0x${string}`> => {
+          const simulation = await simulateTransaction(
+            publicClient,
+            { from: connectedWalletAddress, to, value, data },
+            hasUnconfirmedTransactions(connectedWalletAddress)
+          );
+          const txId = createPendingTransaction(to, value, data, connectedWalletAddress, simulation);
+          
+          if (isConclusiveRevert(simulation)) {
+            throw new TransactionSimulationError(txId, simulation.revertReason!);
+          }
+          // Placeholder until the user signs; action providers report it as awaiting signature
+          return createDeferredHash(txId);
+        };
+        
         // 1. Patch nativeTransfer
         const origNativeTransfer = walletProvider.nativeTransfer.bind(walletProvider);
         walletProvider.nativeTransfer = async (to: `0x${string}`, value: string): Promise<`0x${string}`> => {
           console.log(`Intercepting nativeTransfer: to=${to}, value=${value}`);
-          // Use the imported utility function
-          const txId = createPendingTransaction(to, value, undefined, connectedWalletAddress);
-          return `0x${txId.replace('tx-', '')}` as `0x${string}`;
+          return queueForSignature(to, value);
         };
         
         // 2. Patch sendTransaction
         const origSendTx = walletProvider.sendTransaction.bind(walletProvider);
         walletProvider.sendTransaction = async (tx: any): Promise<`0x${string}`> => {
-          console.log(`Intercepting sendTransaction:`, JSON.stringify(tx, null, 2));
-          // Use the imported utility function
-          const txId = createPendingTransaction(
-            tx.to, 
-            tx.value ? tx.value.toString() : '0',
-            tx.data,
-            connectedWalletAddress
-          );
-          return `0x${txId.replace('tx-', '')}` as `0x${string}`;
+          console.log(`Intercepting sendTransaction:`, JSON.stringify(tx, (_, v) => typeof v === 'bigint' ? v.toString() : v, 2));
+          return queueForSignature(tx.to, tx.value ? tx.value.toString() : '0', tx.data);
+        };
+        
+        // 3. Patch waitForTransactionReceipt so deferred transactions do not block the agent
+        const origWaitForReceipt = walletProvider.waitForTransactionReceipt.bind(walletProvider);
+        walletProvider.waitForTransactionReceipt = async (txHash: `0x${string}`): Promise<any> => {
+          if (isDeferredTransaction(txHash)) {
+            return createDeferredReceipt(txHash);
+          }
+          return origWaitForReceipt(txHash);
         };
         
-        // 3. Patch getAddress
+        // 4. Patch getAddress
         const origGetAddress = walletProvider.getAddress.bind(walletProvider);
         walletProvider.getAddress = (): string => {
           console.log(`Returning connected wallet address: ${connectedWalletAddress}`);
           return connectedWalletAddress;
         };
         
-        // 4. Patch readContract (still use original but log)
+        // 5. Patch readContract (still use original but log)
         const origReadContract = walletProvider.readContract.bind(walletProvider);
         walletProvider.readContract = async (params: any) => {
           console.log(`Reading contract for connected wallet ${connectedWalletAddress}`);
@@ -200,12 +263,10 @@ export async function initializeAgent(options?: { network?: string, nonInteracti
     }
 
     // Initialize LLM
-    const llm = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0,
-    });
+    const llmConfig = { ...getChatModelConfig(), ...options?.llm };
+    const llm = options?.chatModel ?? createChatModel(llmConfig);
 
-    console.log("LLM initialized");
+    console.log(`LLM initialized (${options?.chatModel ? llm._llmType() : `${llmConfig.provider}: ${llmConfig.model}`})`);
 
     // Initialize AgentKit with action providers
     const agentkit = await AgentKit.from({
@@ -220,9 +281,13 @@ export async function initializeAgent(options?: { network?: string, nonInteracti
         aaveActionProvider(),
         balanceCheckerActionProvider(),
         mentoSwapActionProvider(),
+        transactionStatusActionProvider(),
       ],
     });
 
+    // Discover the Mento pools in the background so the first swap does not wait for them
+    void loadMentoExchanges(walletProvider, celoNetwork);
+
     const tools = await getLangChainTools(agentkit);
     const memory = new MemorySaver();
     const agentConfig = {
@@ -237,10 +302,7 @@ export async function initializeAgent(options?: { network?: string, nonInteracti
         You are CeloMΔIND, an AI-powered DeFi agent that helps users interact with the Celo blockchain ecosystem.
         Your goal is to provide personalized investment strategies, real-time market insights, and automated portfolio management.
         
-        Current Network: ${selectedNetwork === "base-mainnet" ? "Base Mainnet" : 
-                          selectedNetwork === "celo" ? "Celo" : 
-                          selectedNetwork === "alfajores" ? "Celo Alfajores (Testnet)" :
-                          selectedNetwork} 
+        Current Network: ${celoNetwork.name} 
                           
         Current User Wallet: ${connectedWalletAddress || "Using default wallet"}
 
@@ -267,12 +329,19 @@ export async function initializeAgent(options?: { network?: string, nonInteracti
         - Commands: 'check vault strategies', 'deposit in vault', 'withdraw from vault'
         
         🔹 Mento Swap:
-        - Swap between CELO, cUSD, and cEUR tokens
-        - Swap CELO to stablecoins (cUSD/cEUR) and stablecoins to CELO
+        - Swap between CELO and Mento stablecoins (cUSD, cEUR, cREAL, eXOF, cKES, USDC, USDT)
+        - Pairs without a Mento pool (e.g. cUSD to cEUR) are routed through CELO or another stablecoin; quotes show the route
         - Get real-time price quotes
         - Execute swaps with slippage protection
+        - Exact-output swaps ('get me exactly 100 cUSD') use side exactOut, with the amount in the token bought
+        - Quotes compare Mento, Uniswap v3 and Ubeswap after gas, and swaps use the best venue; pass venue only when the user asks for a specific one
         - Commands: 'swap CELO to cUSD', 'swap cUSD to CELO', 'get quote for swapping', 'approve tokens for swap'
         
+        🔹 Transaction Status:
+        - Check whether a transaction was signed, confirmed on-chain, reverted, rejected or expired
+        - List the most recent transactions of the connected wallet
+        - Commands: 'check transaction status', 'show my recent transactions'
+        
         🔹 Basic Commands:
         - Check token allowances: 'check token allowance'
         - Get wallet address: 'get wallet address'
@@ -290,6 +359,7 @@ export async function initializeAgent(options?: { network?: string, nonInteracti
         - ICHI Vaults may have deposit/withdrawal fees and minimum amounts
         - All USD values are approximations based on current market prices
         - Mento swaps may have slippage; use the slippageTolerance parameter
+        - Swaps with a price impact above the limit are refused; suggest a smaller amount, or pass maxPriceImpact only if the user accepts the worse rate
 
         First Steps:
         1) Greet the user and introduce yourself as CeloMΔIND.
@@ -304,6 +374,7 @@ export async function initializeAgent(options?: { network?: string, nonInteracti
         2) Don't ask permission or suggest checking balances first unless there's a clear need
         3) Provide the exact output of the transaction after it's processed
         4) Don't send follow-up messages about checking transaction status
+        5) When the user asks whether a transaction went through, use get_transaction_status instead of guessing
         ` : ''}
       `,
     });
@@ -358,25 +429,7 @@ async function runAutonomousMode(agent: any, config: any, interval = 10) {
 async function runDemoMode(agent: any, config: any) {
   console.log("\n🚀 Starting CeloMΔIND Demo Mode...\n");
 
-  const demoCommands = [
-    "check wallet balances",
-    "approve 0.01 USDC for aave",
-    "supply 0.01 USDC to aave",
-    "borrow 0.01 CELO from aave",
-    "aave dashboard",
-    "repay 0.01 CELO to aave",
-    "withdraw 0.01 USDC from aave",
-    "approve 0.01 CELO for ichi vault",
-    "deposit 0.01 CELO into ichi vault strategy: CELO-USDC",
-    "deposit 0.01 CELO into ichi vault strategy: CELO-USDT",
-    "check ichi vault balance",
-    "approve 0.01 CELO for mento swap",
-    "swap 0.01 CELO to cUSD with 0.5% slippage",
-    "swap 0.01 CELO to cEUR with 0.5% slippage",
-    "check wallet balances"
-  ];
-
-  for (const command of demoCommands) {
+  for (const command of DEMO_COMMANDS) {
     try {
       console.log(`\n🤖 Executing: ${command}`);
       
@@ -526,6 +579,7 @@ async function chooseMode(): Promise<"chat" | "auto" | "telegram"> {
  */
 async function main() {
   try {
+    validateEnvironment();
     console.log("Starting initialization...");
     const { agent, config } = await initializeAgent();
     console.log("Agent initialized successfully");
@@ -553,4 +607,7 @@ async function main() {
   }
 }
 
-main();
+// Only start the CLI when run directly, so the agent can be imported (e.g. by the API server or tests)
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,20 @@
+/**
+ * Commands run by the CLI and Telegram demo modes, in order
+ */
+export const DEMO_COMMANDS = [
+  "check wallet balances",
+  "approve 0.01 USDC for aave",
+  "supply 0.01 USDC to aave",
+  "borrow 0.01 CELO from aave",
+  "aave dashboard",
+  "repay 0.01 CELO to aave",
+  "withdraw 0.01 USDC from aave",
+  "approve 0.01 CELO for ichi vault",
+  "deposit 0.01 CELO into ichi vault strategy: CELO-USDC",
+  "deposit 0.01 CELO into ichi vault strategy: CELO-USDT",
+  "check ichi vault balance",
+  "approve 0.01 CELO for mento swap",
+  "swap 0.01 CELO to cUSD with 0.5% slippage",
+  "swap 0.01 CELO to cEUR with 0.5% slippage",
+  "check wallet balances",
+] as const;
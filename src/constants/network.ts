@@ -10,10 +10,26 @@ export const CELO_CHAIN_ID = '42220';
 export const GAS_LIMIT_MULTIPLIER = 1.2;
 export const FEE_PER_GAS_MULTIPLIER = 1.1;
 
-// RPC configuration
+// RPC configuration (see src/network/rpc.ts)
 export const RPC_RETRY_COUNT = 3;
 export const RPC_RETRY_DELAY = 100; // ms
-export const RPC_TIMEOUT = 30_000; // 30 seconds
+export const RPC_TIMEOUT = 10_000; // per endpoint, so a slow endpoint fails over quickly
+export const RPC_HEALTH_CHECK_INTERVAL = 30_000; // ms between ranking probes
+export const RPC_HEALTH_CHECK_TIMEOUT = 2_000; // ms
+
+// Multicall3 is deployed at the same address on Celo and Alfajores (see src/utils/multicall.ts)
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+export const MULTICALL_BATCH_SIZE = 100; // calls per aggregate3 request
+
+// Token prices (see src/network/prices.ts)
+export const PRICE_CACHE_TTL_MS = 60_000; // live prices are reused for this long
+export const PRICE_MAX_AGE_MS = 15 * 60_000; // cached prices may stand in for a failed read until this age
+
+// Swaps (see src/utils/slippage.ts)
+export const MAX_PRICE_IMPACT_BPS = 300; // swaps moving the price more than 3% are refused
+export const PRICE_IMPACT_REFERENCE_DIVISOR = 1000; // price impact compares against a quote for 1/1000 of the amount
+export const SWAP_GAS_PRICE_GWEI = 25; // gas price assumed when comparing venues by their output after gas
+export const SWAP_DEADLINE_SECONDS = 20 * 60; // router swaps revert when mined later than this
 
 // Explorer URLs
 export const CELOSCAN_TX_URL = 'https://celoscan.io/tx/';
@@ -24,13 +40,12 @@ export const TX_STATUS = {
   PENDING: 'pending',
   SIGNED: 'signed',
   REJECTED: 'rejected',
-  COMPLETED: 'completed'
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  EXPIRED: 'expired',
+  QUEUED: 'queued',
+  CANCELLED: 'cancelled'
 } as const;
 
-// Token prices fallback (when price feed is not available)
-export const TOKEN_PRICES_USD = {
-  CELO: 0.75,
-  cUSD: 1.0,
-  cEUR: 1.07,
-  USDC: 1.0,
-} as const; 
\ No newline at end of file
+// Pending transactions expire if they are not signed within this window
+export const PENDING_TX_TTL_MS = 10 * 60 * 1000; // 10 minutes 
\ No newline at end of file
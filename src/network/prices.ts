@@ -0,0 +1,245 @@
+/**
+ * Token price service
+ *
+ * USD prices come from, in order of preference: the AAVE price oracle, Mento broker quotes
+ * (in cUSD, counted at $1, with other stablecoins quoted through their discovered cUSD pools)
+ * and the CELO/USDT ratio of the ICHI vault. All sources are read in
+ * one multicall batch and live prices are cached for PRICE_CACHE_TTL_MS. When no source answers
+ * for a token, a cached price younger than PRICE_MAX_AGE_MS is used and flagged as stale, and
+ * after that the registry's fallbackPriceUsd, flagged as a fallback.
+ */
+import { EvmWalletProvider } from "@coinbase/agentkit";
+import { formatUnits, parseUnits } from "viem";
+import { PRICE_CACHE_TTL_MS, PRICE_MAX_AGE_MS } from "../constants/network";
+import { AAVE_PRICE_ORACLE, AAVE_PRICE_ORACLE_ABI } from "../action-providers/aave/constants";
+import { MENTO_BROKER_ABI } from "../action-providers/mento-swap/constants";
+import { findMentoExchange, loadMentoExchanges } from "../action-providers/mento-swap/exchanges";
+import { ICHI_VAULT, ICHI_VAULT_ABI } from "../action-providers/ichi-vault/constants";
+import { multicall, type MulticallCall } from "../utils/multicall";
+import { CELO_NETWORKS, CeloNetworkConfig, CeloNetworkId, findCeloNetwork } from "./registry";
+import { getToken, getTokens, getTokensWithRole, TokenSymbol, UnknownTokenError } from "./tokens";
+
+// Where a price came from
+export type PriceSource = "aave-oracle" | "mento" | "ichi" | "fallback";
+
+// USD price of a token
+export interface TokenPrice {
+  symbol: TokenSymbol;
+  priceUsd: number;
+  source: PriceSource;
+  // When the price was read (ms since epoch); 0 for fallback prices
+  updatedAt: number;
+  // Cached price used because no source answered
+  stale: boolean;
+  // Registry price used because no source answered and nothing recent was cached
+  isFallback: boolean;
+}
+
+export interface PriceServiceOptions {
+  // How long live prices are reused (ms)
+  ttlMs?: number;
+  // How old a cached price may be to stand in for a failed read (ms)
+  maxAgeMs?: number;
+}
+
+type LivePrice = Pick<TokenPrice, "priceUsd" | "source">;
+
+// Live prices by network, then symbol
+const priceCache: Map<CeloNetworkId, Map<TokenSymbol, TokenPrice>> = new Map();
+
+/**
+ * Read the live prices of every source in one batch
+ */
+async function readLivePrices(
+  walletProvider: EvmWalletProvider,
+  network: CeloNetworkConfig
+): Promise<Partial<Record<TokenSymbol, LivePrice>>> {
+  const oneToken = (symbol: TokenSymbol) => parseUnits("1", getToken(symbol, network.id).decimals);
+  const address = (symbol: TokenSymbol) => getToken(symbol, network.id).address;
+  const oracleTokens = network.aave ? getTokensWithRole("aave", network.id) : [];
+  const cusd = getToken("cUSD", network.id);
+
+  // Stablecoins beyond CELO, cUSD and cEUR are quoted in cUSD through their Mento pool
+  const exchanges = await loadMentoExchanges(walletProvider, network);
+  const stablecoinPools = getTokensWithRole("mento", network.id)
+    .filter(token => !["CELO", "cUSD", "cEUR"].includes(token.symbol))
+    .map(token => ({ token, exchange: findMentoExchange(exchanges, token.address, cusd.address) }))
+    .filter(({ exchange }) => exchange !== undefined);
+
+  const quote = (exchangeId: `0x${string}`, tokenIn: TokenSymbol, tokenOut: TokenSymbol): MulticallCall => ({
+    address: network.mento.broker,
+    abi: MENTO_BROKER_ABI,
+    functionName: "getAmountOut",
+    args: [network.mento.exchangeProvider, exchangeId, address(tokenIn), address(tokenOut), oneToken(tokenIn)],
+  });
+
+  const calls: MulticallCall[] = [
+    quote(network.mento.exchangeIds.CELO_CUSD, "CELO", "cUSD"),
+    quote(network.mento.exchangeIds.CELO_CEUR, "cEUR", "CELO"),
+    ...stablecoinPools.map(({ token, exchange }) => quote(exchange!.exchangeId, token.symbol, "cUSD")),
+  ];
+  if (oracleTokens.length > 0) {
+    calls.push({
+      address: AAVE_PRICE_ORACLE,
+      abi: AAVE_PRICE_ORACLE_ABI,
+      functionName: "getAssetsPrices",
+      args: [oracleTokens.map(token => token.address)],
+    });
+  }
+  if (network.ichi) {
+    calls.push({ address: ICHI_VAULT, abi: ICHI_VAULT_ABI, functionName: "getTotalAmounts" });
+  }
+
+  const [celoQuote, ceurQuote, ...rest] = await multicall(walletProvider, calls);
+  const stablecoinQuotes = rest.splice(0, stablecoinPools.length);
+  const oracleRead = oracleTokens.length > 0 ? rest.shift() : undefined;
+  const ichiRead = network.ichi ? rest.shift() : undefined;
+
+  const prices: Partial<Record<TokenSymbol, LivePrice>> = {};
+  const offer = (symbol: TokenSymbol, priceUsd: number, source: PriceSource) => {
+    if (!prices[symbol] && Number.isFinite(priceUsd) && priceUsd > 0) {
+      prices[symbol] = { priceUsd, source };
+    }
+  };
+
+  // Oracle prices have 8 decimals
+  if (oracleRead?.status === "success") {
+    oracleTokens.forEach((token, i) => offer(token.symbol, Number(formatUnits((oracleRead.result as bigint[])[i], 8)), "aave-oracle"));
+  } else if (oracleRead) {
+    console.error("Error getting prices from AAVE oracle:", oracleRead.error);
+  }
+
+  if (celoQuote.status === "success") {
+    const celoUsd = Number(formatUnits(celoQuote.result, cusd.decimals));
+    offer("CELO", celoUsd, "mento");
+    offer("cUSD", 1, "mento");
+    if (ceurQuote.status === "success") {
+      offer("cEUR", Number(formatUnits(ceurQuote.result, getToken("CELO", network.id).decimals)) * celoUsd, "mento");
+    }
+  } else {
+    console.error("Error getting Mento quotes:", celoQuote.error);
+  }
+  stablecoinQuotes.forEach((read, i) => {
+    if (read.status === "success") {
+      offer(stablecoinPools[i].token.symbol, Number(formatUnits(read.result, cusd.decimals)), "mento");
+    }
+  });
+
+  // The CELO-USDT vault holds CELO as token0 and USDT as token1
+  if (ichiRead?.status === "success") {
+    const [total0, total1] = ichiRead.result as [bigint, bigint];
+    if (total0 > BigInt(0)) {
+      const celo = Number(formatUnits(total0, getToken("CELO", network.id).decimals));
+      const usdt = Number(formatUnits(total1, getToken("USDT", network.id).decimals));
+      offer("CELO", usdt / celo, "ichi");
+    }
+  } else if (ichiRead) {
+    console.error("Error getting ICHI vault amounts:", ichiRead.error);
+  }
+
+  return prices;
+}
+
+/**
+ * Get the USD prices of the tokens of the network a wallet provider is connected to
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param symbols Tokens to price (defaults to every token of the network)
+ * @param options Overrides of the cache settings
+ * @returns Prices by symbol; every requested token deployed on the network has one
+ */
+export async function getTokenPrices(
+  walletProvider: EvmWalletProvider,
+  symbols?: TokenSymbol[],
+  options: PriceServiceOptions = {}
+): Promise<Partial<Record<TokenSymbol, TokenPrice>>> {
+  const network = findCeloNetwork(await walletProvider.getNetwork()) ?? CELO_NETWORKS.celo;
+  const tokens = getTokens(network.id).filter(token => !symbols || symbols.includes(token.symbol));
+  const ttlMs = options.ttlMs ?? PRICE_CACHE_TTL_MS;
+  const maxAgeMs = options.maxAgeMs ?? PRICE_MAX_AGE_MS;
+  const now = Date.now();
+
+  const cache = priceCache.get(network.id) ?? new Map<TokenSymbol, TokenPrice>();
+  priceCache.set(network.id, cache);
+
+  const prices: Partial<Record<TokenSymbol, TokenPrice>> = {};
+  const isFresh = (price?: TokenPrice) => price !== undefined && now - price.updatedAt < ttlMs;
+  if (tokens.every(token => isFresh(cache.get(token.symbol)))) {
+    tokens.forEach(token => (prices[token.symbol] = cache.get(token.symbol)));
+    return prices;
+  }
+
+  let live: Partial<Record<TokenSymbol, LivePrice>> = {};
+  try {
+    live = await readLivePrices(walletProvider, network);
+  } catch (error) {
+    console.error("Error reading token prices:", error);
+  }
+
+  for (const token of tokens) {
+    const livePrice = live[token.symbol];
+    const cached = cache.get(token.symbol);
+
+    if (livePrice) {
+      const price = { symbol: token.symbol, ...livePrice, updatedAt: now, stale: false, isFallback: false };
+      cache.set(token.symbol, price);
+      prices[token.symbol] = price;
+    } else if (cached && now - cached.updatedAt < maxAgeMs) {
+      prices[token.symbol] = { ...cached, stale: true };
+    } else {
+      console.warn(`No live price for ${token.symbol}, using the fallback price`);
+      prices[token.symbol] = {
+        symbol: token.symbol,
+        priceUsd: token.fallbackPriceUsd,
+        source: "fallback",
+        updatedAt: 0,
+        stale: false,
+        isFallback: true,
+      };
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Get the USD price of one token
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param symbol Token symbol
+ * @throws UnknownTokenError if the token is not deployed on the network
+ */
+export async function getTokenPrice(walletProvider: EvmWalletProvider, symbol: TokenSymbol): Promise<TokenPrice> {
+  const price = (await getTokenPrices(walletProvider, [symbol]))[symbol];
+  if (!price) {
+    const network = findCeloNetwork(await walletProvider.getNetwork()) ?? CELO_NETWORKS.celo;
+    throw new UnknownTokenError(symbol, network.id);
+  }
+  return price;
+}
+
+/**
+ * Describe the prices that did not come from a live source, for tool output
+ *
+ * @param prices Prices to check
+ * @returns A warning line, or an empty string when every price is live
+ */
+export function describePriceWarnings(prices: Partial<Record<TokenSymbol, TokenPrice>>): string {
+  const fallback = Object.values(prices).filter(price => price!.isFallback).map(price => price!.symbol);
+  const stale = Object.values(prices).filter(price => price!.stale).map(price => price!.symbol);
+  const notes: string[] = [];
+  if (fallback.length > 0) {
+    notes.push(`fallback prices for ${fallback.join(", ")}`);
+  }
+  if (stale.length > 0) {
+    notes.push(`cached prices for ${stale.join(", ")}`);
+  }
+  return notes.length > 0 ? `⚠️ Live prices unavailable: ${notes.join("; ")}. USD values are estimates.` : "";
+}
+
+/**
+ * Forget all cached prices
+ */
+export function clearPriceCache(): void {
+  priceCache.clear();
+}
@@ -0,0 +1,159 @@
+import { Network } from "@coinbase/agentkit";
+import type { Address, Chain } from "viem";
+import { celo, celoAlfajores } from "viem/chains";
+import { CELOSCAN_ADDRESS_URL, CELOSCAN_TX_URL } from "../constants/network";
+import {
+  EXCHANGE_IDS,
+  EXCHANGE_PROVIDER,
+  MENTO_BROKER_ADDRESS,
+  UBESWAP_ROUTER,
+  UNISWAP_V3_QUOTER_V2,
+  UNISWAP_V3_SWAP_ROUTER,
+} from "../action-providers/mento-swap/constants";
+import { AAVE_LENDING_POOL } from "../action-providers/aave/constants";
+import { ICHI_DEPOSIT_FORWARDER } from "../action-providers/ichi-vault/constants";
+
+// Celo networks the agent can run on
+export const CELO_NETWORK_IDS = ["celo", "celo-alfajores"] as const;
+export type CeloNetworkId = typeof CELO_NETWORK_IDS[number];
+
+// Contracts and settings of one Celo network (tokens are listed in ./tokens)
+export interface CeloNetworkConfig {
+  id: CeloNetworkId;
+  name: string;
+  chain: Chain;
+  testnet: boolean;
+  explorerTxUrl: string;
+  explorerAddressUrl: string;
+  mento: {
+    broker: Address;
+    exchangeProvider: Address;
+    exchangeIds: { CELO_CUSD: `0x${string}`; CELO_CEUR: `0x${string}` };
+  };
+  // Protocols that are only deployed on some networks
+  aave?: { pool: Address };
+  ichi?: { depositForwarder: Address };
+  uniswapV3?: { quoter: Address; router: Address };
+  ubeswap?: { router: Address };
+}
+
+/**
+ * Per-network address registry
+ *
+ * Mento exchange ids are derived from the asset symbols and the pricing module, so the
+ * CELO/cUSD and CELO/cEUR pools have the same ids on both networks.
+ */
+export const CELO_NETWORKS: Record<CeloNetworkId, CeloNetworkConfig> = {
+  celo: {
+    id: "celo",
+    name: "Celo",
+    chain: celo,
+    testnet: false,
+    explorerTxUrl: CELOSCAN_TX_URL,
+    explorerAddressUrl: CELOSCAN_ADDRESS_URL,
+    mento: {
+      broker: MENTO_BROKER_ADDRESS,
+      exchangeProvider: EXCHANGE_PROVIDER,
+      exchangeIds: EXCHANGE_IDS,
+    },
+    aave: { pool: AAVE_LENDING_POOL },
+    ichi: { depositForwarder: ICHI_DEPOSIT_FORWARDER },
+    uniswapV3: { quoter: UNISWAP_V3_QUOTER_V2, router: UNISWAP_V3_SWAP_ROUTER },
+    ubeswap: { router: UBESWAP_ROUTER },
+  },
+  "celo-alfajores": {
+    id: "celo-alfajores",
+    name: "Celo Alfajores (Testnet)",
+    chain: celoAlfajores,
+    testnet: true,
+    explorerTxUrl: "https://alfajores.celoscan.io/tx/",
+    explorerAddressUrl: "https://alfajores.celoscan.io/address/",
+    mento: {
+      broker: "0xD3Dff18E465bCa6241A244144765b4421Ac14D09",
+      exchangeProvider: "0x9B64E8EaBD1a035b148cE970d3319c5C3Ad53EC3",
+      exchangeIds: EXCHANGE_IDS,
+    },
+  },
+};
+
+// Network used for explorer links (set by initializeAgent)
+let activeNetworkId: CeloNetworkId = "celo";
+
+/**
+ * Error thrown for a network the agent cannot run on
+ */
+export class UnsupportedNetworkError extends Error {
+  constructor(network: string) {
+    super(`Unsupported network '${network}'. Expected one of: ${CELO_NETWORK_IDS.join(", ")}`);
+    this.name = "UnsupportedNetworkError";
+  }
+}
+
+/**
+ * Check whether a string is a supported Celo network id
+ */
+export function isCeloNetworkId(id: string): id is CeloNetworkId {
+  return (CELO_NETWORK_IDS as readonly string[]).includes(id);
+}
+
+/**
+ * Get the configuration of a network by id
+ *
+ * @param id Network id ("celo" or "celo-alfajores"; "alfajores" and "celo-mainnet" are accepted)
+ * @returns The network configuration
+ * @throws UnsupportedNetworkError if the network is not a Celo network
+ */
+export function getCeloNetworkById(id: string): CeloNetworkConfig {
+  const normalized = id === "alfajores" ? "celo-alfajores" : id === "celo-mainnet" ? "celo" : id;
+  if (!isCeloNetworkId(normalized)) {
+    throw new UnsupportedNetworkError(id);
+  }
+  return CELO_NETWORKS[normalized];
+}
+
+/**
+ * Find the configuration of the network a wallet provider is connected to
+ *
+ * The chain id decides when present, since AgentKit does not name every Celo network.
+ *
+ * @param network Network reported by the wallet provider
+ * @returns The network configuration, or undefined if it is not a Celo network
+ */
+export function findCeloNetwork(network: Network): CeloNetworkConfig | undefined {
+  if (network.chainId) {
+    return Object.values(CELO_NETWORKS).find(config => String(config.chain.id) === String(network.chainId));
+  }
+  if (network.networkId) {
+    try {
+      return getCeloNetworkById(network.networkId);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Set the network used for explorer links
+ *
+ * @param id Network id
+ */
+export function setActiveCeloNetwork(id: CeloNetworkId): void {
+  activeNetworkId = id;
+}
+
+/**
+ * Get the network used for explorer links
+ */
+export function getActiveCeloNetwork(): CeloNetworkConfig {
+  return CELO_NETWORKS[activeNetworkId];
+}
+
+/**
+ * Get the explorer link of a transaction on the active network
+ *
+ * @param hash Transaction hash
+ */
+export function getExplorerTxUrl(hash: string): string {
+  return `${getActiveCeloNetwork().explorerTxUrl}${hash}`;
+}
@@ -0,0 +1,176 @@
+/**
+ * RPC endpoint pool
+ *
+ * Reads go through a viem `fallback` transport over every configured endpoint. When more than
+ * one endpoint is configured, viem pings them on an interval and ranks them by latency and
+ * stability, so a slow or failing endpoint is skipped instead of timing out every tool call.
+ * Each endpoint keeps request, error and latency metrics for /api/health.
+ */
+import { fallback, http, shouldThrow, type Transport } from "viem";
+import {
+  RPC_HEALTH_CHECK_INTERVAL,
+  RPC_HEALTH_CHECK_TIMEOUT,
+  RPC_RETRY_COUNT,
+  RPC_RETRY_DELAY,
+  RPC_TIMEOUT,
+} from "../constants/network";
+import type { CeloNetworkConfig } from "./registry";
+
+// Request metrics of one RPC endpoint
+export interface RpcEndpointMetrics {
+  url: string;
+  requests: number;
+  // Requests the endpoint failed to answer (timeouts, HTTP and server errors)
+  errors: number;
+  averageLatencyMs: number;
+  lastLatencyMs?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastSuccessAt?: number;
+  // Whether the last request to the endpoint was answered
+  healthy: boolean;
+}
+
+// Health of the endpoint pool
+export interface RpcHealth {
+  healthy: boolean;
+  endpoints: RpcEndpointMetrics[];
+}
+
+// Settings of a transport over the endpoint pool
+export interface RpcTransportOptions {
+  retryCount?: number;
+  retryDelay?: number;
+  // Timeout of a request to a single endpoint (ms)
+  timeout?: number;
+  // Interval of the ranking health probes (ms); 0 turns them off
+  healthCheckInterval?: number;
+}
+
+// Metrics by endpoint URL, shared by every transport using the endpoint
+const endpointMetrics: Map<string, RpcEndpointMetrics & { totalLatencyMs: number }> = new Map();
+
+/**
+ * Get the RPC endpoints of a network
+ *
+ * CELO_RPC_URLS (comma-separated, in order of preference) takes precedence over CELO_RPC_URL;
+ * without either, the chain's default endpoint is used.
+ *
+ * @param network Network the agent runs on
+ * @param env Environment variables (defaults to process.env)
+ */
+export function getRpcUrls(network: CeloNetworkConfig, env: NodeJS.ProcessEnv = process.env): string[] {
+  const configured = (env.CELO_RPC_URLS || env.CELO_RPC_URL || "")
+    .split(",")
+    .map(url => url.trim())
+    .filter(Boolean);
+
+  const urls = configured.length > 0 ? configured : [...network.chain.rpcUrls.default.http];
+  return [...new Set(urls)];
+}
+
+/**
+ * Get (and start tracking) the metrics of an endpoint
+ */
+function getEndpointMetrics(url: string) {
+  let metrics = endpointMetrics.get(url);
+  if (!metrics) {
+    metrics = { url, requests: 0, errors: 0, averageLatencyMs: 0, totalLatencyMs: 0, healthy: true };
+    endpointMetrics.set(url, metrics);
+  }
+  return metrics;
+}
+
+/**
+ * Record the outcome of a request to an endpoint
+ *
+ * Errors the endpoint answered with (e.g. reverts) are not held against it.
+ */
+function recordRequest(url: string, latencyMs: number, error?: unknown): void {
+  const metrics = getEndpointMetrics(url);
+  metrics.requests += 1;
+  metrics.totalLatencyMs += latencyMs;
+  metrics.averageLatencyMs = Math.round(metrics.totalLatencyMs / metrics.requests);
+  metrics.lastLatencyMs = latencyMs;
+
+  if (error && !shouldThrow(error as Error)) {
+    metrics.errors += 1;
+    metrics.lastError = error instanceof Error ? error.message.split("\n")[0] : String(error);
+    metrics.lastErrorAt = Date.now();
+    metrics.healthy = false;
+  } else {
+    metrics.lastSuccessAt = Date.now();
+    metrics.healthy = true;
+  }
+}
+
+/**
+ * Wrap an endpoint transport so every request updates the endpoint metrics
+ */
+function withMetrics(url: string, transport: Transport): Transport {
+  getEndpointMetrics(url);
+
+  return (params => {
+    const instance = transport(params);
+    const request = (async (args: Parameters<typeof instance.request>[0], options?: Parameters<typeof instance.request>[1]) => {
+      const start = Date.now();
+      try {
+        const response = await instance.request(args, options);
+        recordRequest(url, Date.now() - start);
+        return response;
+      } catch (error) {
+        recordRequest(url, Date.now() - start, error);
+        throw error;
+      }
+    }) as typeof instance.request;
+    return { ...instance, request };
+  }) as Transport;
+}
+
+/**
+ * Create a transport over a pool of RPC endpoints
+ *
+ * Requests go to the best-ranked endpoint and fail over to the next one when it does not
+ * answer. Retries of the whole pool follow RPC_RETRY_COUNT and RPC_RETRY_DELAY.
+ *
+ * @param urls Endpoints in order of preference
+ * @param options Overrides of the RPC constants
+ */
+export function createRpcTransport(urls: string[], options: RpcTransportOptions = {}): Transport {
+  if (urls.length === 0) {
+    throw new Error("At least one RPC endpoint is required");
+  }
+
+  const timeout = options.timeout ?? RPC_TIMEOUT;
+  const healthCheckInterval = options.healthCheckInterval ?? RPC_HEALTH_CHECK_INTERVAL;
+  const transports = urls.map(url => withMetrics(url, http(url, { batch: true, retryCount: 0, timeout })));
+
+  return fallback(transports, {
+    retryCount: options.retryCount ?? RPC_RETRY_COUNT,
+    retryDelay: options.retryDelay ?? RPC_RETRY_DELAY,
+    // Ranking only matters with a choice of endpoints
+    rank: urls.length > 1 && healthCheckInterval > 0 && {
+      interval: healthCheckInterval,
+      timeout: RPC_HEALTH_CHECK_TIMEOUT,
+      ping: ({ transport }) => transport.request({ method: "eth_blockNumber" }),
+    },
+  });
+}
+
+/**
+ * Get the metrics of every endpoint used so far
+ */
+export function getRpcHealth(): RpcHealth {
+  const endpoints = [...endpointMetrics.values()].map(({ totalLatencyMs, ...metrics }) => ({ ...metrics }));
+  return {
+    healthy: endpoints.length === 0 || endpoints.some(endpoint => endpoint.healthy),
+    endpoints,
+  };
+}
+
+/**
+ * Forget all endpoint metrics
+ */
+export function resetRpcMetrics(): void {
+  endpointMetrics.clear();
+}
@@ -0,0 +1,223 @@
+import { getAddress, type Address } from "viem";
+import type { CeloNetworkId } from "./registry";
+
+// Symbols of the tokens the agent knows about
+export const TOKEN_SYMBOLS = ["CELO", "cUSD", "cEUR", "cREAL", "eXOF", "cKES", "USDC", "USDT"] as const;
+export type TokenSymbol = typeof TOKEN_SYMBOLS[number];
+
+// Protocols a token can be used with
+export type TokenRole = "mento" | "aave" | "aave-collateral" | "ichi";
+
+// A token as deployed on one network
+export interface TokenInfo {
+  symbol: TokenSymbol;
+  name: string;
+  // Checksummed address
+  address: Address;
+  decimals: number;
+  icon: string;
+  // CELO is both the native currency and an ERC-20 token
+  isNative: boolean;
+  // USD price used when no price source answers
+  fallbackPriceUsd: number;
+  roles: readonly TokenRole[];
+}
+
+// A token with its address on every network it is deployed on
+interface TokenDefinition extends Omit<TokenInfo, "address"> {
+  addresses: Partial<Record<CeloNetworkId, Address>>;
+}
+
+/**
+ * Token registry
+ *
+ * Adding a token means adding an entry here; the action providers, the balance checker and
+ * the calldata decoder of pending transactions pick it up from this list. Roles only apply
+ * where the protocol is deployed (AAVE and ICHI are mainnet only); which Mento pairs can be
+ * swapped is discovered on-chain (see mento-swap/exchanges.ts).
+ */
+const TOKEN_DEFINITIONS: readonly TokenDefinition[] = [
+  {
+    symbol: "CELO",
+    name: "Celo",
+    decimals: 18,
+    icon: "🟡",
+    isNative: true,
+    fallbackPriceUsd: 0.5,
+    roles: ["mento", "aave", "aave-collateral", "ichi"],
+    addresses: {
+      celo: "0x471EcE3750Da237f93B8E339c536989b8978a438",
+      "celo-alfajores": "0xF194afDf50B03e69Bd7D057c1Aa9e10c9954E4C9",
+    },
+  },
+  {
+    symbol: "cUSD",
+    name: "Celo Dollar",
+    decimals: 18,
+    icon: "💲",
+    isNative: false,
+    fallbackPriceUsd: 1.0,
+    roles: ["mento", "aave"],
+    addresses: {
+      celo: "0x765DE816845861e75A25fCA122bb6898B8B1282a",
+      "celo-alfajores": "0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1",
+    },
+  },
+  {
+    symbol: "cEUR",
+    name: "Celo Euro",
+    decimals: 18,
+    icon: "💶",
+    isNative: false,
+    fallbackPriceUsd: 1.08,
+    roles: ["mento", "aave"],
+    addresses: {
+      celo: "0xD8763CBa276a3738E6DE85b4b3bF5FDed6D6cA73",
+      "celo-alfajores": "0x10c892A6EC43a53E45D0B916B4b7D383B1b78C0F",
+    },
+  },
+  {
+    symbol: "cREAL",
+    name: "Celo Brazilian Real",
+    decimals: 18,
+    icon: "🇧🇷",
+    isNative: false,
+    fallbackPriceUsd: 0.18,
+    roles: ["mento"],
+    addresses: {
+      celo: "0xe8537a3d056DA446677B9E9d6c5dB704EaAb4787",
+      "celo-alfajores": "0xE4D517785D091D3c54818832dB6094bcc2744545",
+    },
+  },
+  {
+    symbol: "eXOF",
+    name: "ECO CFA",
+    decimals: 18,
+    icon: "🌍",
+    isNative: false,
+    fallbackPriceUsd: 0.0016,
+    roles: ["mento"],
+    addresses: {
+      celo: "0x73F93dcc49cB8A239e2032663e9475dd5ef29A08",
+      "celo-alfajores": "0xB0FA15e002516d0301884059c0aaC0F0C72b019D",
+    },
+  },
+  {
+    symbol: "cKES",
+    name: "Celo Kenyan Shilling",
+    decimals: 18,
+    icon: "🇰🇪",
+    isNative: false,
+    fallbackPriceUsd: 0.0077,
+    roles: ["mento"],
+    addresses: {
+      celo: "0x456a3D042C0DbD3db53D5489e98dFb038553B0d0",
+      "celo-alfajores": "0x1E0433C1769271ECcF4CFF9FDdD515eefE6CdF92",
+    },
+  },
+  {
+    symbol: "USDC",
+    name: "USD Coin",
+    decimals: 6,
+    icon: "💵",
+    isNative: false,
+    fallbackPriceUsd: 1.0,
+    roles: ["mento", "aave", "aave-collateral", "ichi"],
+    addresses: {
+      celo: "0xcebA9300f2b948710d2653dD7B07f33A8B32118C",
+      "celo-alfajores": "0x2F25deB3848C207fc8E0c34035B3Ba7fC157602B",
+    },
+  },
+  {
+    symbol: "USDT",
+    name: "Tether USD",
+    decimals: 6,
+    icon: "💵",
+    isNative: false,
+    fallbackPriceUsd: 1.0,
+    roles: ["mento", "aave", "aave-collateral", "ichi"],
+    addresses: {
+      celo: "0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e",
+    },
+  },
+];
+
+/**
+ * Error thrown for a token that is not deployed on a network
+ */
+export class UnknownTokenError extends Error {
+  constructor(symbol: string, networkId: CeloNetworkId) {
+    super(`Token ${symbol} is not available on ${networkId}`);
+    this.name = "UnknownTokenError";
+  }
+}
+
+/**
+ * Get the tokens deployed on a network, in registry order
+ *
+ * @param networkId Network id (defaults to Celo mainnet)
+ */
+export function getTokens(networkId: CeloNetworkId = "celo"): TokenInfo[] {
+  return TOKEN_DEFINITIONS.flatMap(({ addresses, ...token }) => {
+    const address = addresses[networkId];
+    return address ? [{ ...token, address: getAddress(address) }] : [];
+  });
+}
+
+/**
+ * Get the tokens of a network that can be used with a protocol
+ *
+ * @param role Protocol role
+ * @param networkId Network id (defaults to Celo mainnet)
+ */
+export function getTokensWithRole(role: TokenRole, networkId: CeloNetworkId = "celo"): TokenInfo[] {
+  return getTokens(networkId).filter(token => token.roles.includes(role));
+}
+
+/**
+ * Get a token by symbol
+ *
+ * @param symbol Token symbol
+ * @param networkId Network id (defaults to Celo mainnet)
+ * @throws UnknownTokenError if the token is not deployed on the network
+ */
+export function getToken(symbol: TokenSymbol, networkId: CeloNetworkId = "celo"): TokenInfo {
+  const token = getTokens(networkId).find(t => t.symbol === symbol);
+  if (!token) {
+    throw new UnknownTokenError(symbol, networkId);
+  }
+  return token;
+}
+
+/**
+ * Get the address of a token by symbol
+ *
+ * @param symbol Token symbol
+ * @param networkId Network id (defaults to Celo mainnet)
+ * @throws UnknownTokenError if the token is not deployed on the network
+ */
+export function getTokenAddress(symbol: TokenSymbol, networkId: CeloNetworkId = "celo"): Address {
+  return getToken(symbol, networkId).address;
+}
+
+/**
+ * Find a token by address (case-insensitive)
+ *
+ * @param address Token address
+ * @param networkId Network to search; all networks when omitted
+ * @returns The token, or undefined if it is not in the registry
+ */
+export function findTokenByAddress(address: string, networkId?: CeloNetworkId): TokenInfo | undefined {
+  const lower = address.toLowerCase();
+  const networkIds = networkId
+    ? [networkId]
+    : [...new Set(TOKEN_DEFINITIONS.flatMap(token => Object.keys(token.addresses) as CeloNetworkId[]))];
+
+  for (const id of networkIds) {
+    const token = getTokens(id).find(t => t.address.toLowerCase() === lower);
+    if (token) {
+      return token;
+    }
+  }
+  return undefined;
+}
@@ -1,5 +1,6 @@
 import TelegramBot from "node-telegram-bot-api";
 import { HumanMessage } from "@langchain/core/messages";
+import { DEMO_COMMANDS } from "./constants/demo";
 
 interface TelegramInterfaceOptions {
   onExit: () => void;
@@ -276,28 +277,10 @@ collect fees from ichi vault
 
       await this.bot.sendMessage(chatId, "🚀 Starting CeloMΔIND Demo Mode...\nExecuting all actions automatically with 5-second intervals.");
 
-      const demoCommands = [
-        "check wallet balances",
-        "approve 0.01 USDC for aave",
-        "supply 0.01 USDC to aave",
-        "borrow 0.01 CELO from aave",
-        "aave dashboard",
-        "repay 0.01 CELO to aave",
-        "withdraw 0.01 USDC from aave",
-        "approve 0.01 CELO for ichi vault",
-        "deposit 0.01 CELO into ichi vault strategy: CELO-USDC",
-        "deposit 0.01 CELO into ichi vault strategy: CELO-USDT",
-        "check ichi vault balance",
-        "approve 0.01 CELO for mento swap",
-        "swap 0.01 CELO to cUSD with 0.5% slippage",
-        "swap 0.01 CELO to cEUR with 0.5% slippage",
-        "check wallet balances"
-      ];
-
       let currentStep = 1;
-      const totalSteps = demoCommands.length;
+      const totalSteps = DEMO_COMMANDS.length;
 
-      for (const command of demoCommands) {
+      for (const command of DEMO_COMMANDS) {
         try {
           await this.bot.sendMessage(chatId, `🔄 Step ${currentStep}/${totalSteps}\n🤖 Executing: ${command}`);
           
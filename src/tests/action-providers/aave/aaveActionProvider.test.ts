@@ -0,0 +1,187 @@
+/**
+ * Tests for the AAVE action provider against fixture-backed contract reads
+ */
+
+import { getAddress, maxUint256, parseEther, parseUnits } from 'viem';
+import { aaveActionProvider } from '../../../action-providers/aave';
+import {
+  AAVE_LENDING_POOL,
+  AAVE_LENDING_POOL_ABI,
+  ERC20_ABI,
+} from '../../../action-providers/aave/constants';
+import { getTokenAddress } from '../../../network/tokens';
+import { ALFAJORES_NETWORK, erc20Fixture, invokeAction, MockWalletProvider } from '../../helpers/mock-wallet-provider';
+
+const CELO_TOKEN = getTokenAddress('CELO');
+const USDC_TOKEN = getTokenAddress('USDC');
+
+describe('AaveActionProvider', () => {
+  const wallet = getAddress('0xabcdef1234567890abcdef1234567890abcdef12');
+  const provider = aaveActionProvider();
+
+  // Account data tuple: collateral, debt, available borrows, liquidation threshold, LTV, health factor
+  const accountData = (debt: bigint, healthFactor: bigint) =>
+    [parseEther('10'), debt, parseEther('5'), BigInt(8000), BigInt(7500), healthFactor];
+
+  const createWallet = (options: { usdcAllowance?: bigint; healthFactor?: bigint; debt?: bigint } = {}) =>
+    new MockWalletProvider({
+      address: wallet,
+      fixtures: {
+        [USDC_TOKEN]: erc20Fixture({
+          balances: { [wallet]: parseUnits('100', 6) },
+          allowances: { [wallet]: { [AAVE_LENDING_POOL]: options.usdcAllowance ?? parseUnits('50', 6) } },
+          decimals: 6,
+          symbol: 'USDC',
+        }),
+        [CELO_TOKEN]: erc20Fixture({
+          balances: { [wallet]: parseEther('20') },
+          allowances: { [wallet]: { [AAVE_LENDING_POOL]: maxUint256 } },
+          symbol: 'CELO',
+        }),
+        [AAVE_LENDING_POOL]: {
+          getUserAccountData: accountData(options.debt ?? parseEther('1'), options.healthFactor ?? parseEther('2')),
+        },
+      },
+    });
+
+  let walletProvider: MockWalletProvider;
+
+  beforeEach(() => {
+    walletProvider = createWallet();
+  });
+
+  test('rejects networks other than Celo', async () => {
+    walletProvider = new MockWalletProvider({
+      network: { protocolFamily: 'evm', chainId: '8453', networkId: 'base-mainnet' },
+    });
+
+    await expect(invokeAction(provider, walletProvider, 'supply_to_aave', { token: 'USDC', amount: '1' }))
+      .rejects.toThrow('configured for Celo');
+  });
+
+  test('reports that AAVE is not deployed on Alfajores', async () => {
+    walletProvider = new MockWalletProvider({ network: ALFAJORES_NETWORK });
+
+    expect(provider.supportsNetwork(ALFAJORES_NETWORK)).toBe(false);
+    await expect(invokeAction(provider, walletProvider, 'supply_to_aave', { token: 'USDC', amount: '1' }))
+      .rejects.toThrow('AAVE is not deployed on Celo Alfajores (Testnet)');
+  });
+
+  describe('approve_token_for_aave', () => {
+    test('approves the lending pool for the amount in token units', async () => {
+      const result = await invokeAction(provider, walletProvider, 'approve_token_for_aave', { token: 'USDC', amount: '10' });
+
+      expect(walletProvider.transactions).toHaveLength(1);
+      expect(walletProvider.transactions[0].to).toBe(USDC_TOKEN);
+      expect(walletProvider.decodeTransaction(0, ERC20_ABI)).toEqual({
+        functionName: 'approve',
+        args: [AAVE_LENDING_POOL, parseUnits('10', 6)],
+      });
+      expect(result).toContain('approval for 10 USDC');
+      expect(result).toContain(walletProvider.transactions[0].hash);
+    });
+
+    test('refuses to approve more than the wallet holds', async () => {
+      await expect(invokeAction(provider, walletProvider, 'approve_token_for_aave', { token: 'USDC', amount: '1000' }))
+        .rejects.toThrow('Insufficient USDC balance. You have 100 but need 1000');
+      expect(walletProvider.transactions).toHaveLength(0);
+    });
+  });
+
+  describe('supply_to_aave', () => {
+    test('supplies within the allowance on behalf of the wallet', async () => {
+      await invokeAction(provider, walletProvider, 'supply_to_aave', { token: 'USDC', amount: '10' });
+
+      expect(walletProvider.transactions[0].to).toBe(AAVE_LENDING_POOL);
+      expect(walletProvider.decodeTransaction(0, AAVE_LENDING_POOL_ABI)).toEqual({
+        functionName: 'supply',
+        args: [USDC_TOKEN, parseUnits('10', 6), wallet, 0],
+      });
+    });
+
+    test('requires an allowance covering the amount', async () => {
+      await expect(invokeAction(provider, walletProvider, 'supply_to_aave', { token: 'USDC', amount: '60' }))
+        .rejects.toThrow('Insufficient USDC allowance');
+      expect(walletProvider.transactions).toHaveLength(0);
+    });
+  });
+
+  describe('provide_to_aave', () => {
+    test('approves before supplying when the allowance is short', async () => {
+      await invokeAction(provider, walletProvider, 'provide_to_aave', { token: 'USDC', amount: '60' });
+
+      expect(walletProvider.transactions.map(tx => tx.to)).toEqual([USDC_TOKEN, AAVE_LENDING_POOL]);
+      expect(walletProvider.decodeTransaction(0, ERC20_ABI).functionName).toBe('approve');
+      expect(walletProvider.decodeTransaction(1, AAVE_LENDING_POOL_ABI).functionName).toBe('supply');
+    });
+
+    test('only supplies when the allowance already covers the amount', async () => {
+      await invokeAction(provider, walletProvider, 'provide_to_aave', { token: 'USDC', amount: '10' });
+
+      expect(walletProvider.transactions.map(tx => tx.to)).toEqual([AAVE_LENDING_POOL]);
+    });
+  });
+
+  describe('borrow_from_aave', () => {
+    test('borrows at the variable rate by default', async () => {
+      await invokeAction(provider, walletProvider, 'borrow_from_aave', { token: 'CELO', amount: '1' });
+
+      expect(walletProvider.decodeTransaction(0, AAVE_LENDING_POOL_ABI)).toEqual({
+        functionName: 'borrow',
+        args: [CELO_TOKEN, parseEther('1'), BigInt(2), 0, wallet],
+      });
+    });
+
+    test('refuses to borrow when the health factor is too low', async () => {
+      walletProvider = createWallet({ healthFactor: parseEther('0.01') });
+
+      await expect(invokeAction(provider, walletProvider, 'borrow_from_aave', { token: 'CELO', amount: '1' }))
+        .rejects.toThrow(/health factor/i);
+      expect(walletProvider.transactions).toHaveLength(0);
+    });
+  });
+
+  describe('repay_aave_loan', () => {
+    test('repays the whole debt when the amount is -1', async () => {
+      const result = await invokeAction(provider, walletProvider, 'repay_aave_loan', { token: 'CELO', amount: '-1' });
+
+      expect(walletProvider.decodeTransaction(0, AAVE_LENDING_POOL_ABI)).toEqual({
+        functionName: 'repay',
+        args: [CELO_TOKEN, maxUint256, BigInt(2), wallet],
+      });
+      expect(result).toContain('repay all borrowed CELO');
+    });
+  });
+
+  describe('withdraw_from_aave', () => {
+    test('refuses a partial withdrawal with debt and a low health factor', async () => {
+      walletProvider = createWallet({ healthFactor: parseEther('0.01') });
+
+      await expect(invokeAction(provider, walletProvider, 'withdraw_from_aave', { token: 'USDC', amount: '1' }))
+        .rejects.toThrow(/health factor/i);
+    });
+
+    test('allows withdrawals without debt regardless of the health factor', async () => {
+      walletProvider = createWallet({ healthFactor: parseEther('0.01'), debt: BigInt(0) });
+
+      await invokeAction(provider, walletProvider, 'withdraw_from_aave', { token: 'USDC', amount: '1' });
+
+      expect(walletProvider.decodeTransaction(0, AAVE_LENDING_POOL_ABI)).toEqual({
+        functionName: 'withdraw',
+        args: [USDC_TOKEN, parseUnits('1', 6), wallet],
+      });
+    });
+  });
+
+  test('get_aave_user_data reads the account data of the wallet', async () => {
+    const result = await invokeAction(provider, walletProvider, 'get_aave_user_data');
+
+    expect(walletProvider.reads).toContainEqual({
+      address: AAVE_LENDING_POOL,
+      functionName: 'getUserAccountData',
+      args: [wallet],
+    });
+    expect(result).toContain('**Health Factor:** 2.00');
+    expect(result).toContain('healthy 🟢');
+  });
+});
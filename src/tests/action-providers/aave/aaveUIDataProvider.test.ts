@@ -0,0 +1,112 @@
+/**
+ * Tests for the AAVE dashboard against fixture-backed contract reads
+ */
+
+import { getAddress, parseEther, parseUnits } from 'viem';
+import { getAaveDashboard } from '../../../action-providers/aave/aaveUIDataProvider';
+import {
+  AAVE_DATA_PROVIDER,
+  AAVE_POOL,
+  AAVE_PRICE_ORACLE,
+  AAVE_WALLET_BALANCE_PROVIDER,
+  CELO_A_TOKEN,
+  cUSD_VARIABLE_DEBT_TOKEN,
+} from '../../../action-providers/aave/constants';
+import { clearPriceCache } from '../../../network/prices';
+import { getTokenAddress } from '../../../network/tokens';
+import { ANY_CONTRACT, MockWalletProvider } from '../../helpers/mock-wallet-provider';
+
+const CELO_TOKEN = getTokenAddress('CELO');
+const CUSD_TOKEN = getTokenAddress('cUSD');
+
+describe('getAaveDashboard', () => {
+  const wallet = getAddress('0xabcdef1234567890abcdef1234567890abcdef12');
+
+  // Reserve data tuple with a 2% supply rate and a 5% variable borrow rate (in ray)
+  const reserveData = [
+    BigInt(0), BigInt(0), BigInt(0), BigInt(0), BigInt(0),
+    parseUnits('0.02', 27), parseUnits('0.05', 27),
+    BigInt(0), BigInt(0), BigInt(0), BigInt(0), 0,
+  ];
+
+  let walletProvider: MockWalletProvider;
+
+  beforeEach(() => {
+    clearPriceCache();
+    walletProvider = new MockWalletProvider({
+      address: wallet,
+      fixtures: {
+        [AAVE_PRICE_ORACLE]: {
+          // Oracle prices have 8 decimals; CELO at $0.50, everything else at $1
+          getAssetsPrices: ([assets]: readonly any[]) =>
+            assets.map((asset: string) => (asset === CELO_TOKEN ? parseUnits('0.5', 8) : parseUnits('1', 8))),
+        },
+        [AAVE_POOL]: {
+          getUserAccountData: [parseEther('10'), parseEther('1'), parseEther('5'), BigInt(8000), BigInt(7500), parseEther('2')],
+        },
+        [AAVE_DATA_PROVIDER]: {
+          getReserveData: reserveData,
+          getUserReserveData: [parseEther('4'), BigInt(0), BigInt(0), BigInt(0), BigInt(0), BigInt(0), BigInt(0), 0, true],
+        },
+        [AAVE_WALLET_BALANCE_PROVIDER]: {
+          getUserWalletBalances: [[CUSD_TOKEN], [parseEther('5')]],
+        },
+        [CELO_A_TOKEN]: { balanceOf: parseEther('10') },
+        [cUSD_VARIABLE_DEBT_TOKEN]: { balanceOf: parseEther('1') },
+        [ANY_CONTRACT]: { balanceOf: BigInt(0) },
+      },
+    });
+  });
+
+  const aggregateReads = () => walletProvider.reads.filter(read => read.functionName === 'aggregate3');
+
+  test('reads rates, positions and wallet balances in one multicall batch next to the prices', async () => {
+    const dashboard = await getAaveDashboard(walletProvider);
+
+    // One batch for the dashboard, one for the price service
+    expect(aggregateReads()).toHaveLength(2);
+    expect(dashboard.supplies.assets).toEqual([
+      expect.objectContaining({ symbol: 'CELO', balance: '10', balanceUsd: '$5.00', apy: '2.00%' }),
+    ]);
+    expect(dashboard.borrows.assets).toEqual([
+      expect.objectContaining({ symbol: 'cUSD', balance: '1', balanceUsd: '$1.00', interestMode: 'Variable' }),
+    ]);
+    expect(dashboard.assetsToSupply).toEqual([
+      expect.objectContaining({ symbol: 'cUSD', balance: '5', balanceUsd: '$5.00' }),
+    ]);
+    expect(dashboard.healthFactor.value).toBe(2);
+    expect(dashboard.priceWarning).toBe('');
+  });
+
+  test('reads positions from the data provider in a second batch when a token balance fails', async () => {
+    walletProvider.setFixture(CELO_A_TOKEN, {
+      balanceOf: () => {
+        throw new Error('execution reverted');
+      },
+    });
+
+    const dashboard = await getAaveDashboard(walletProvider);
+
+    expect(aggregateReads()).toHaveLength(3);
+    expect(walletProvider.reads).toContainEqual({
+      address: getAddress(AAVE_DATA_PROVIDER),
+      functionName: 'getUserReserveData',
+      args: [CELO_TOKEN, wallet],
+    });
+    expect(dashboard.supplies.assets).toEqual([expect.objectContaining({ symbol: 'CELO', balance: '4' })]);
+  });
+
+  test('flags registry prices when no price source answers', async () => {
+    walletProvider.setFixture(AAVE_PRICE_ORACLE, {
+      getAssetsPrices: () => {
+        throw new Error('execution reverted');
+      },
+    });
+
+    const dashboard = await getAaveDashboard(walletProvider);
+
+    expect(dashboard.supplies.assets).toEqual([expect.objectContaining({ symbol: 'CELO', balanceUsd: '$5.00' })]);
+    expect(dashboard.priceWarning).toContain('fallback prices for CELO, cUSD, cEUR, USDC, USDT');
+    expect(dashboard.dashboard).toContain(dashboard.priceWarning);
+  });
+});
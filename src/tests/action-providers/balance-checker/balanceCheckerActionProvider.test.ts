@@ -0,0 +1,82 @@
+/**
+ * Tests for the balance checker action provider against fixture-backed contract reads
+ */
+
+import { getAddress, parseEther, parseUnits } from 'viem';
+import * as aaveDashboard from '../../../action-providers/aave/aaveUIDataProvider';
+import { balanceCheckerActionProvider } from '../../../action-providers/balance-checker';
+import { getTokenAddress } from '../../../network/tokens';
+import { erc20Fixture, invokeAction, MockWalletProvider } from '../../helpers/mock-wallet-provider';
+
+const CUSD_TOKEN = getTokenAddress('cUSD');
+
+describe('BalanceCheckerActionProvider', () => {
+  const wallet = getAddress('0xabcdef1234567890abcdef1234567890abcdef12');
+  const provider = balanceCheckerActionProvider();
+
+  let walletProvider: MockWalletProvider;
+
+  beforeEach(() => {
+    walletProvider = new MockWalletProvider({
+      address: wallet,
+      balance: parseEther('10'),
+      fixtures: {
+        [getTokenAddress('USDC')]: erc20Fixture({ balances: { [wallet]: parseUnits('3', 6) }, decimals: 6 }),
+        [getTokenAddress('USDT')]: erc20Fixture({ decimals: 6 }),
+        [CUSD_TOKEN]: erc20Fixture({ balances: { [wallet]: parseEther('20') } }),
+        [getTokenAddress('cEUR')]: erc20Fixture({}),
+      },
+    });
+  });
+
+  test('check_wallet_balances lists held tokens by USD value', async () => {
+    const result = await invokeAction(provider, walletProvider, 'check_wallet_balances');
+
+    // 20 cUSD, 10 CELO at $0.50 and 3 USDC; empty balances are left out
+    expect(result).toContain('**Total Portfolio Value**: $28.00 USD');
+    const lines = result.split('\n').filter(line => line.startsWith('- ') && line.includes('**: '));
+    expect(lines.slice(0, 3)).toEqual([
+      '- 💲 **cUSD**: 20 ($20.00)',
+      '- 🟡 **CELO**: 10 ($5.00)',
+      '- 💵 **USDC**: 3 ($3.00)',
+    ]);
+    expect(result).not.toContain('**cEUR**');
+  });
+
+  test('check_wallet_balances still answers when the AAVE dashboard cannot be read', async () => {
+    jest.spyOn(aaveDashboard, 'getAaveDashboard').mockRejectedValueOnce(new Error('RPC unavailable'));
+
+    const result = await invokeAction(provider, walletProvider, 'check_wallet_balances');
+
+    expect(result).toContain('try "aave dashboard"');
+  });
+
+  test('check_token_balance reads the balance of a tracked token', async () => {
+    const result = await invokeAction(provider, walletProvider, 'check_token_balance', { tokenAddress: CUSD_TOKEN });
+
+    expect(walletProvider.reads).toContainEqual({ address: CUSD_TOKEN, functionName: 'balanceOf', args: [wallet] });
+    expect(result).toContain('Balance: 20 cUSD');
+    expect(result).toContain('Value: $20.00 USD');
+  });
+
+  test('check_token_balance rejects untracked tokens', async () => {
+    const token = '0x0000000000000000000000000000000000000001';
+
+    const result = await invokeAction(provider, walletProvider, 'check_token_balance', { tokenAddress: token });
+
+    expect(result).toBe(`Token with address ${token} is not in the tracked tokens list.`);
+  });
+
+  test('check_native_balance reports the CELO balance of the wallet', async () => {
+    const result = await invokeAction(provider, walletProvider, 'check_native_balance');
+
+    expect(result).toContain('Balance: 10 CELO');
+    expect(result).toContain('Value: $5.00 USD');
+  });
+
+  test('flags values based on fallback prices', async () => {
+    const result = await invokeAction(provider, walletProvider, 'check_native_balance');
+
+    expect(result).toContain('⚠️ Live prices unavailable: fallback prices for CELO');
+  });
+});
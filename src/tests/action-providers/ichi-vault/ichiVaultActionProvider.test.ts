@@ -0,0 +1,117 @@
+/**
+ * Tests for the ICHI vault action provider against fixture-backed contract reads
+ */
+
+import { getAddress, parseEther, parseUnits } from 'viem';
+import { ichiVaultActionProvider } from '../../../action-providers/ichi-vault';
+import {
+  ERC20_ABI,
+  ICHI_DEPOSIT_FORWARDER,
+  ICHI_DEPOSIT_FORWARDER_ABI,
+  ICHI_VAULT,
+  ICHI_VAULT_USDC,
+  VAULT_DEPLOYER,
+} from '../../../action-providers/ichi-vault/constants';
+import { AAVE_PRICE_ORACLE } from '../../../action-providers/aave/constants';
+import { getTokenAddress } from '../../../network/tokens';
+import { ALFAJORES_NETWORK, erc20Fixture, invokeAction, MockWalletProvider } from '../../helpers/mock-wallet-provider';
+
+const CELO_TOKEN = getTokenAddress('CELO');
+const USDT_TOKEN = getTokenAddress('USDT');
+
+describe('IchiVaultActionProvider', () => {
+  const wallet = getAddress('0xabcdef1234567890abcdef1234567890abcdef12');
+  const provider = ichiVaultActionProvider();
+
+  const createWallet = (options: { forwarderAllowance?: bigint; shares?: bigint } = {}) =>
+    new MockWalletProvider({
+      address: wallet,
+      fixtures: {
+        [CELO_TOKEN]: erc20Fixture({
+          balances: { [wallet]: parseEther('10') },
+          allowances: { [wallet]: { [ICHI_DEPOSIT_FORWARDER]: options.forwarderAllowance ?? BigInt(0) } },
+          symbol: 'CELO',
+        }),
+        [USDT_TOKEN]: erc20Fixture({ decimals: 6, symbol: 'USDT' }),
+        [ICHI_VAULT]: {
+          ...erc20Fixture({ balances: { [wallet]: options.shares ?? BigInt(0) }, totalSupply: parseEther('100') }),
+          // 100 CELO and 50 USDT
+          getTotalAmounts: [parseEther('100'), parseUnits('50', 6)],
+        },
+        [AAVE_PRICE_ORACLE]: {
+          // Prices with 8 decimals: CELO at $0.50, USDT at $1
+          getAssetPrice: ([asset]: readonly any[]) =>
+            String(asset).toLowerCase() === CELO_TOKEN.toLowerCase() ? BigInt(50_000_000) : BigInt(100_000_000),
+        },
+      },
+    });
+
+  let walletProvider: MockWalletProvider;
+
+  beforeEach(() => {
+    walletProvider = createWallet();
+  });
+
+  describe('provide_celo_to_ichi_vault', () => {
+    test('approves the deposit forwarder, then deposits into the selected vault', async () => {
+      const result = await invokeAction(provider, walletProvider, 'provide_celo_to_ichi_vault', {
+        amount: '2',
+        strategy: 'CELO-USDC',
+      });
+
+      expect(walletProvider.transactions.map(tx => tx.to)).toEqual([CELO_TOKEN, ICHI_DEPOSIT_FORWARDER]);
+      expect(walletProvider.decodeTransaction(0, ERC20_ABI)).toEqual({
+        functionName: 'approve',
+        args: [ICHI_DEPOSIT_FORWARDER, parseEther('2')],
+      });
+      expect(walletProvider.decodeTransaction(1, ICHI_DEPOSIT_FORWARDER_ABI)).toEqual({
+        functionName: 'forwardDepositToICHIVault',
+        args: [ICHI_VAULT_USDC, getAddress(VAULT_DEPLOYER), getAddress(CELO_TOKEN), parseEther('2'), BigInt(299125), wallet],
+      });
+      expect(result).toContain('provide 2 for the ICHI CELO-USDC vault');
+    });
+
+    test('deposits without approving when the allowance covers the amount', async () => {
+      walletProvider = createWallet({ forwarderAllowance: parseEther('5') });
+
+      await invokeAction(provider, walletProvider, 'provide_celo_to_ichi_vault', { amount: '2' });
+
+      expect(walletProvider.transactions.map(tx => tx.to)).toEqual([ICHI_DEPOSIT_FORWARDER]);
+      expect(walletProvider.decodeTransaction(0, ICHI_DEPOSIT_FORWARDER_ABI).args?.[0]).toBe(ICHI_VAULT);
+    });
+
+    test('reports an insufficient balance without sending anything', async () => {
+      const result = await invokeAction(provider, walletProvider, 'provide_celo_to_ichi_vault', { amount: '20' });
+
+      expect(result).toMatch(/^❌ .*Insufficient CELO balance/);
+      expect(walletProvider.transactions).toHaveLength(0);
+    });
+  });
+
+  describe('get-ichi-vault-balance', () => {
+    test('values the share of the vault holdings with oracle prices', async () => {
+      walletProvider = createWallet({ shares: parseEther('10') });
+
+      const result = await invokeAction(provider, walletProvider, 'get-ichi-vault-balance', { strategy: 'CELO-USDT' });
+
+      // 10% of the vault: 10 CELO ($5) and 5 USDT ($5)
+      expect(result).toContain('**CELO**: 10 CELO ($5.00 USD)');
+      expect(result).toContain('**USDT**: 5 USDT ($5.00 USD)');
+      expect(result).toContain('**Current Value**: $10.00 USD');
+    });
+
+    test('reports when the wallet has no position', async () => {
+      const result = await invokeAction(provider, walletProvider, 'get-ichi-vault-balance', {});
+
+      expect(result).toContain("You don't have any position in the CELO-USDT vault");
+    });
+  });
+
+  test('reports that ICHI vaults are not deployed on Alfajores', async () => {
+    walletProvider = new MockWalletProvider({ network: ALFAJORES_NETWORK });
+
+    expect(provider.supportsNetwork(ALFAJORES_NETWORK)).toBe(false);
+    await expect(invokeAction(provider, walletProvider, 'get-ichi-vault-balance', {}))
+      .resolves.toContain('ICHI vaults are not deployed on Celo Alfajores (Testnet)');
+  });
+});
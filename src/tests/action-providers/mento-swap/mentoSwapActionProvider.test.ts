@@ -0,0 +1,535 @@
+/**
+ * Tests for the Mento swap action provider against fixture-backed contract reads
+ */
+
+import { getAddress, parseEther, parseUnits } from 'viem';
+import {
+  clearMentoExchangeCache,
+  mentoSwapActionProvider,
+  ERC20_ABI,
+  EXCHANGE_IDS,
+  EXCHANGE_PROVIDER,
+  MENTO_BROKER_ABI,
+  MENTO_BROKER_ADDRESS,
+  UBESWAP_ROUTER,
+  UBESWAP_ROUTER_ABI,
+  UNISWAP_V3_QUOTER_V2,
+  UNISWAP_V3_ROUTER_ABI,
+  UNISWAP_V3_SWAP_ROUTER,
+} from '../../../action-providers/mento-swap';
+import { CELO_NETWORKS } from '../../../network/registry';
+import { getTokenAddress } from '../../../network/tokens';
+import { ALFAJORES_NETWORK, erc20Fixture, invokeAction, MockWalletProvider } from '../../helpers/mock-wallet-provider';
+
+const CELO_TOKEN_ADDRESS = getTokenAddress('CELO');
+const CUSD_TOKEN_ADDRESS = getTokenAddress('cUSD');
+const CKES_TOKEN_ADDRESS = getTokenAddress('cKES');
+const USDC_TOKEN_ADDRESS = getTokenAddress('USDC');
+
+// Pools listed by the exchange provider, beyond the two configured CELO pools
+const CUSD_CKES = `0x${'1'.padStart(64, '0')}`;
+const CUSD_USDC = `0x${'2'.padStart(64, '0')}`;
+const CELO_CKES = `0x${'3'.padStart(64, '0')}`;
+
+// Token addresses are passed to the contracts in lowercase
+const toLowerCase = (value: unknown) => (typeof value === 'string' ? value.toLowerCase() : value);
+
+describe('MentoSwapActionProvider', () => {
+  const wallet = getAddress('0xabcdef1234567890abcdef1234567890abcdef12');
+  const provider = mentoSwapActionProvider();
+
+  const createWallet = (celoAllowance: bigint) =>
+    new MockWalletProvider({
+      address: wallet,
+      fixtures: {
+        [CELO_TOKEN_ADDRESS]: erc20Fixture({
+          balances: { [wallet]: parseEther('10') },
+          allowances: { [wallet]: { [MENTO_BROKER_ADDRESS]: celoAllowance } },
+          symbol: 'CELO',
+        }),
+        [MENTO_BROKER_ADDRESS]: {
+          // One CELO buys two cUSD
+          getAmountOut: (args: readonly any[]) => (args[4] as bigint) * BigInt(2),
+          getAmountIn: (args: readonly any[]) => (args[4] as bigint) / BigInt(2),
+        },
+      },
+    });
+
+  let walletProvider: MockWalletProvider;
+
+  beforeEach(() => {
+    clearMentoExchangeCache();
+    walletProvider = createWallet(parseEther('5'));
+  });
+
+  const listExchanges = () =>
+    walletProvider.setFixture(EXCHANGE_PROVIDER, {
+      getExchanges: [
+        { exchangeId: EXCHANGE_IDS.CELO_CUSD, assets: [CUSD_TOKEN_ADDRESS, CELO_TOKEN_ADDRESS] },
+        { exchangeId: CUSD_CKES, assets: [CUSD_TOKEN_ADDRESS, CKES_TOKEN_ADDRESS] },
+        { exchangeId: CUSD_USDC, assets: [CUSD_TOKEN_ADDRESS, USDC_TOKEN_ADDRESS] },
+      ],
+    });
+
+  describe('get_swap_quote', () => {
+    test('quotes the broker output and exchange rate', async () => {
+      const result = await invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '1.5',
+      });
+
+      const quote = walletProvider.reads.find(read => read.functionName === 'getAmountOut');
+      expect(quote?.address).toBe(MENTO_BROKER_ADDRESS);
+      expect(quote?.args.map(toLowerCase)).toEqual(
+        [EXCHANGE_PROVIDER, EXCHANGE_IDS.CELO_CUSD, CELO_TOKEN_ADDRESS, CUSD_TOKEN_ADDRESS].map(toLowerCase).concat(parseEther('1.5'))
+      );
+      expect(result).toContain('1.5 🟡 CELO ➡️ 3 💲 cUSD');
+      expect(result).toContain('1 CELO = 2.000000 cUSD');
+      expect(result).toContain('Minimum received (0.50% slippage): 2.985 cUSD');
+      expect(result).toContain('Price impact: 0.00%');
+    });
+
+    test('quotes the input needed for an exact output', async () => {
+      const result = await invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '3',
+        side: 'exactOut',
+      });
+
+      const quote = walletProvider.reads.find(read => read.functionName === 'getAmountIn');
+      expect(quote?.args[4]).toBe(parseEther('3'));
+      expect(result).toContain('1.5 🟡 CELO ➡️ 3 💲 cUSD');
+      expect(result).toContain('you receive exactly 3 cUSD for about 1.5 CELO');
+    });
+
+    test('routes pairs without a pool through CELO with the rate of every hop', async () => {
+      const result = await invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'cUSD',
+        toToken: 'cEUR',
+        amount: '1',
+      });
+
+      expect(result).toContain('1 💲 cUSD ➡️ 4 💶 cEUR');
+      expect(result).toContain('Route: 💲 cUSD ➡️ 🟡 CELO ➡️ 💶 cEUR');
+      expect(result).toContain('1. 1 cUSD = 2.000000 CELO');
+      expect(result).toContain('2. 1 CELO = 2.000000 cEUR');
+    });
+
+    test('picks the path with the largest output', async () => {
+      listExchanges();
+      // The cKES/cUSD pool pays ten times what the direct pool does
+      walletProvider.setFixture(EXCHANGE_PROVIDER, {
+        getExchanges: [
+          { exchangeId: EXCHANGE_IDS.CELO_CUSD, assets: [CUSD_TOKEN_ADDRESS, CELO_TOKEN_ADDRESS] },
+          { exchangeId: CUSD_CKES, assets: [CUSD_TOKEN_ADDRESS, CKES_TOKEN_ADDRESS] },
+          { exchangeId: CELO_CKES, assets: [CELO_TOKEN_ADDRESS, CKES_TOKEN_ADDRESS] },
+        ],
+      });
+      walletProvider.setFixture(MENTO_BROKER_ADDRESS, {
+        getAmountOut: ([, exchangeId, , , amountIn]: readonly any[]) =>
+          exchangeId === CUSD_CKES ? (amountIn as bigint) * BigInt(20) : (amountIn as bigint) * BigInt(2),
+      });
+
+      const result = await invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'CELO',
+        toToken: 'cKES',
+        amount: '1',
+      });
+
+      expect(result).toContain('1 🟡 CELO ➡️ 40 🇰🇪 cKES');
+      expect(result).toContain('Route: 🟡 CELO ➡️ 💲 cUSD ➡️ 🇰🇪 cKES');
+    });
+
+    test('quotes any pair listed by the exchange provider', async () => {
+      listExchanges();
+
+      const result = await invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'cKES',
+        toToken: 'cUSD',
+        amount: '100',
+      });
+
+      const quote = walletProvider.reads.find(read => read.functionName === 'getAmountOut');
+      expect(quote?.args.slice(1, 4).map(toLowerCase)).toEqual(
+        [CUSD_CKES, CKES_TOKEN_ADDRESS, CUSD_TOKEN_ADDRESS].map(toLowerCase)
+      );
+      expect(result).toContain('100 🇰🇪 cKES ➡️ 200 💲 cUSD');
+    });
+
+    test('reads amounts in the decimals of the token', async () => {
+      listExchanges();
+
+      const result = await invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'USDC',
+        toToken: 'cUSD',
+        amount: '2.5',
+      });
+
+      const quote = walletProvider.reads.find(read => read.functionName === 'getAmountOut');
+      expect(quote?.args[4]).toBe(parseUnits('2.5', 6));
+      expect(result).toContain('2.5 💵 USDC');
+    });
+
+    test('lists the tokens a token can be swapped with when no pool holds the pair', async () => {
+      listExchanges();
+
+      await expect(invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'cKES',
+        toToken: 'cEUR',
+        amount: '1',
+      })).rejects.toThrow('Unsupported token pair: cKES to cEUR. cKES can be swapped with cUSD.');
+    });
+
+    test('reads the exchanges once and reuses them', async () => {
+      listExchanges();
+      const args = { fromToken: 'cKES', toToken: 'cUSD', amount: '1' };
+
+      await invokeAction(provider, walletProvider, 'get_swap_quote', args);
+      await invokeAction(provider, walletProvider, 'get_swap_quote', args);
+
+      expect(walletProvider.reads.filter(read => read.functionName === 'getExchanges')).toHaveLength(1);
+    });
+  });
+
+  describe('execute_swap', () => {
+    test('swaps through the broker when the allowance covers the amount', async () => {
+      const result = await invokeAction(provider, walletProvider, 'execute_swap', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '1',
+      });
+
+      expect(walletProvider.transactions).toHaveLength(1);
+      expect(walletProvider.transactions[0].to).toBe(MENTO_BROKER_ADDRESS);
+
+      const { functionName, args } = walletProvider.decodeTransaction(0, MENTO_BROKER_ABI);
+      expect(functionName).toBe('swapIn');
+      expect(args?.slice(0, 5)).toEqual([
+        getAddress(EXCHANGE_PROVIDER),
+        EXCHANGE_IDS.CELO_CUSD,
+        CELO_TOKEN_ADDRESS,
+        CUSD_TOKEN_ADDRESS,
+        parseEther('1'),
+      ]);
+      expect(result).toContain(walletProvider.transactions[0].hash);
+    });
+
+    test('increases the allowance and waits for it before swapping', async () => {
+      walletProvider = createWallet(BigInt(0));
+      const waitForReceipt = jest.spyOn(walletProvider, 'waitForTransactionReceipt');
+
+      await invokeAction(provider, walletProvider, 'execute_swap', { fromToken: 'CELO', toToken: 'cUSD', amount: '1' });
+
+      expect(walletProvider.transactions.map(tx => tx.to?.toLowerCase())).toEqual(
+        [CELO_TOKEN_ADDRESS, MENTO_BROKER_ADDRESS].map(toLowerCase)
+      );
+      expect(walletProvider.decodeTransaction(0, ERC20_ABI)).toEqual({
+        functionName: 'increaseAllowance',
+        args: [MENTO_BROKER_ADDRESS, parseEther('1')],
+      });
+      expect(waitForReceipt).toHaveBeenCalledWith(walletProvider.transactions[0].hash);
+    });
+
+    test('sends one swap per hop within the slippage tolerance of the whole route', async () => {
+      walletProvider.setFixture(CUSD_TOKEN_ADDRESS, erc20Fixture({
+        balances: { [wallet]: parseEther('10') },
+        allowances: { [wallet]: { [MENTO_BROKER_ADDRESS]: parseEther('5') } },
+      }));
+
+      const result = await invokeAction(provider, walletProvider, 'execute_swap', {
+        fromToken: 'cUSD',
+        toToken: 'cEUR',
+        amount: '1',
+        slippageTolerance: 1,
+      });
+
+      const [first, second] = [0, 1].map(i => walletProvider.decodeTransaction(i, MENTO_BROKER_ABI).args!);
+      expect(walletProvider.transactions).toHaveLength(2);
+      expect(first.slice(2, 5)).toEqual([CUSD_TOKEN_ADDRESS, CELO_TOKEN_ADDRESS, parseEther('1')]);
+      // The second hop sells the CELO the first hop is sure to return
+      expect(second.slice(2, 5)).toEqual([CELO_TOKEN_ADDRESS, getTokenAddress('cEUR'), first[5]]);
+      // One cUSD is quoted at 4 cEUR, so at least 3.96 cEUR must arrive
+      expect(second[5] as bigint).toBeGreaterThanOrEqual(parseEther('3.96'));
+      expect(second[5] as bigint).toBeLessThan(parseEther('4'));
+      expect(result).toContain('via 💲 cUSD ➡️ 🟡 CELO ➡️ 💶 cEUR');
+    });
+
+    test('buys an exact output with swapOut, capping the input by the slippage tolerance', async () => {
+      const result = await invokeAction(provider, walletProvider, 'execute_swap', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '3',
+        side: 'exactOut',
+        slippageTolerance: 1,
+      });
+
+      expect(walletProvider.transactions).toHaveLength(1);
+      expect(walletProvider.decodeTransaction(0, MENTO_BROKER_ABI)).toEqual({
+        functionName: 'swapOut',
+        args: [
+          getAddress(EXCHANGE_PROVIDER),
+          EXCHANGE_IDS.CELO_CUSD,
+          CELO_TOKEN_ADDRESS,
+          CUSD_TOKEN_ADDRESS,
+          parseEther('3'),
+          parseEther('1.515'),
+        ],
+      });
+      expect(result).toContain('swap up to 1.515 CELO for exactly 3 cUSD');
+    });
+
+    test('buys the maximum input of each later hop on routed exact-output swaps', async () => {
+      walletProvider.setFixture(CUSD_TOKEN_ADDRESS, erc20Fixture({
+        balances: { [wallet]: parseEther('10') },
+        allowances: { [wallet]: { [MENTO_BROKER_ADDRESS]: parseEther('5') } },
+      }));
+
+      await invokeAction(provider, walletProvider, 'execute_swap', {
+        fromToken: 'cUSD',
+        toToken: 'cEUR',
+        amount: '4',
+        side: 'exactOut',
+        slippageTolerance: 1,
+      });
+
+      const [first, second] = [0, 1].map(i => walletProvider.decodeTransaction(i, MENTO_BROKER_ABI).args!);
+      expect(second.slice(2, 5)).toEqual([CELO_TOKEN_ADDRESS, getTokenAddress('cEUR'), parseEther('4')]);
+      // The first hop buys the most CELO the second hop may take
+      expect(first.slice(2, 5)).toEqual([CUSD_TOKEN_ADDRESS, CELO_TOKEN_ADDRESS, second[5]]);
+      // Four cEUR are quoted at one cUSD, so at most 1.01 cUSD may be spent
+      expect(first[5] as bigint).toBeGreaterThan(parseEther('1'));
+      expect(first[5] as bigint).toBeLessThanOrEqual(parseEther('1.01'));
+    });
+
+    test('checks the balance against the input an exact output needs', async () => {
+      await expect(invokeAction(provider, walletProvider, 'execute_swap', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '30',
+        side: 'exactOut',
+        slippageTolerance: 1,
+      })).rejects.toThrow('You have 10 CELO, but the operation requires 15.15 CELO');
+      expect(walletProvider.transactions).toHaveLength(0);
+    });
+
+    describe('price impact', () => {
+      // Past 5 CELO the pool only pays one cUSD per CELO instead of two
+      const shallowPool = {
+        getAmountOut: ([, , , , amountIn]: readonly any[]) =>
+          (amountIn as bigint) > parseEther('5') ? (amountIn as bigint) : (amountIn as bigint) * BigInt(2),
+      };
+
+      beforeEach(() => {
+        walletProvider.setFixture(MENTO_BROKER_ADDRESS, shallowPool);
+      });
+
+      test('refuses swaps above the price impact limit', async () => {
+        await expect(invokeAction(provider, walletProvider, 'execute_swap', {
+          fromToken: 'CELO',
+          toToken: 'cUSD',
+          amount: '6',
+        })).rejects.toThrow('Price impact of 50.00% is above the 3.00% limit');
+        expect(walletProvider.transactions).toHaveLength(0);
+      });
+
+      test('swaps when the caller raises the limit', async () => {
+        const result = await invokeAction(provider, walletProvider, 'execute_swap', {
+          fromToken: 'CELO',
+          toToken: 'cUSD',
+          amount: '6',
+          maxPriceImpact: 60,
+        });
+
+        expect(walletProvider.decodeTransaction(0, ERC20_ABI).functionName).toBe('increaseAllowance');
+        expect(walletProvider.decodeTransaction(1, MENTO_BROKER_ABI).functionName).toBe('swapIn');
+        expect(result).toContain('price impact 50.00%');
+      });
+
+      test('warns in the quote when a swap would be refused', async () => {
+        const result = await invokeAction(provider, walletProvider, 'get_swap_quote', {
+          fromToken: 'CELO',
+          toToken: 'cUSD',
+          amount: '6',
+        });
+
+        expect(result).toContain('Price impact: 50.00% ⛔ above the 3.00% limit');
+      });
+    });
+
+    test('refuses to swap more than the wallet holds', async () => {
+      await expect(invokeAction(provider, walletProvider, 'execute_swap', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '20',
+      })).rejects.toThrow('Insufficient CELO balance');
+      expect(walletProvider.transactions).toHaveLength(0);
+    });
+  });
+
+  describe('approve_token', () => {
+    test('skips the approval when the allowance already covers the amount', async () => {
+      const result = await invokeAction(provider, walletProvider, 'approve_token', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '1',
+      });
+
+      expect(walletProvider.transactions).toHaveLength(0);
+      expect(result).toContain('already covers 1 CELO');
+    });
+
+    test('increases the allowance of the broker', async () => {
+      const result = await invokeAction(provider, walletProvider, 'approve_token', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '6',
+      });
+
+      expect(walletProvider.decodeTransaction(0, ERC20_ABI)).toEqual({
+        functionName: 'increaseAllowance',
+        args: [MENTO_BROKER_ADDRESS, parseEther('6')],
+      });
+      expect(result).toContain('approval for 6 CELO');
+    });
+  });
+
+  describe('venues', () => {
+    // The 0.05% Uniswap v3 pool pays 2.02 cUSD per CELO, 1% better than Mento; other fee tiers have no pool
+    const uniswapQuoter = {
+      quoteExactInputSingle: ([{ amountIn, fee }]: readonly any[]) => {
+        if (fee !== 500) {
+          throw new Error('execution reverted');
+        }
+        return [((amountIn as bigint) * BigInt(202)) / BigInt(100), BigInt(0), 0, BigInt(100000)];
+      },
+    };
+
+    test('quotes every venue and picks the best output after gas', async () => {
+      walletProvider.setFixture(UNISWAP_V3_QUOTER_V2, uniswapQuoter);
+
+      const result = await invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '1.5',
+      });
+
+      expect(result).toContain('Uniswap v3 Swap Quote');
+      expect(result).toContain('1.5 🟡 CELO ➡️ 3.03 💲 cUSD');
+      expect(result).toContain('Venue: Uniswap v3 (0.05% pool)');
+      expect(result).toContain('✅ Uniswap v3 (0.05% pool): 3.03 cUSD');
+      expect(result).toContain('• Mento: 3 cUSD');
+      expect(result).toContain('• Ubeswap: no quote for this pair');
+      expect(result).toContain('Price impact: 0.00%');
+    });
+
+    test('keeps Mento when a better rate is eaten by gas', async () => {
+      // 0.002 cUSD more than Mento for 0.001 CELO, but with ten times the gas
+      walletProvider.setFixture(UNISWAP_V3_QUOTER_V2, {
+        quoteExactInputSingle: ([{ amountIn }]: readonly any[]) =>
+          [(amountIn as bigint) * BigInt(4), BigInt(0), 0, BigInt(2500000)],
+      });
+
+      const result = await invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '0.001',
+      });
+
+      expect(result).toContain('Mento Swap Quote');
+      expect(result).toContain('0.001 🟡 CELO ➡️ 0.002 💲 cUSD');
+    });
+
+    test('swaps on the Uniswap v3 router after approving it', async () => {
+      walletProvider.setFixture(UNISWAP_V3_QUOTER_V2, uniswapQuoter);
+
+      const result = await invokeAction(provider, walletProvider, 'execute_swap', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '1.5',
+      });
+
+      expect(walletProvider.transactions.map(tx => tx.to?.toLowerCase())).toEqual(
+        [CELO_TOKEN_ADDRESS, UNISWAP_V3_SWAP_ROUTER].map(toLowerCase)
+      );
+      expect(walletProvider.decodeTransaction(0, ERC20_ABI).args).toEqual([UNISWAP_V3_SWAP_ROUTER, parseEther('1.5')]);
+      expect(walletProvider.decodeTransaction(1, UNISWAP_V3_ROUTER_ABI)).toEqual({
+        functionName: 'exactInputSingle',
+        args: [{
+          tokenIn: CELO_TOKEN_ADDRESS,
+          tokenOut: CUSD_TOKEN_ADDRESS,
+          fee: 500,
+          recipient: wallet,
+          amountIn: parseEther('1.5'),
+          amountOutMinimum: parseEther('3.01485'),
+          sqrtPriceLimitX96: BigInt(0),
+        }],
+      });
+      expect(result).toContain('on Uniswap v3 (0.05% pool)');
+    });
+
+    test('swaps pairs Mento does not serve on Ubeswap', async () => {
+      // One CELO buys 0.5 USDC
+      walletProvider.setFixture(UBESWAP_ROUTER, {
+        getAmountsIn: ([amountOut, path]: readonly any[]) => {
+          if (path.length !== 2) {
+            throw new Error('execution reverted');
+          }
+          return [(amountOut as bigint) * BigInt(2) * BigInt(10) ** BigInt(12), amountOut];
+        },
+      });
+
+      const result = await invokeAction(provider, walletProvider, 'execute_swap', {
+        fromToken: 'CELO',
+        toToken: 'USDC',
+        amount: '4',
+        side: 'exactOut',
+        slippageTolerance: 1,
+      });
+
+      const { functionName, args } = walletProvider.decodeTransaction(1, UBESWAP_ROUTER_ABI);
+      expect(walletProvider.transactions[1].to).toBe(UBESWAP_ROUTER);
+      expect(functionName).toBe('swapTokensForExactTokens');
+      expect(args?.slice(0, 4)).toEqual([parseUnits('4', 6), parseEther('8.08'), [CELO_TOKEN_ADDRESS, USDC_TOKEN_ADDRESS], wallet]);
+      expect(args?.[4] as bigint).toBeGreaterThan(BigInt(Math.floor(Date.now() / 1000)));
+      expect(result).toContain('swap up to 8.08 CELO for exactly 4 USDC on Ubeswap');
+    });
+
+    test('refuses venues that are not deployed on the network', async () => {
+      walletProvider = new MockWalletProvider({ network: ALFAJORES_NETWORK });
+
+      await expect(invokeAction(provider, walletProvider, 'get_swap_quote', {
+        fromToken: 'CELO',
+        toToken: 'cUSD',
+        amount: '1',
+        venue: 'ubeswap',
+      })).rejects.toThrow('Ubeswap is not available on Celo Alfajores (Testnet).');
+    });
+  });
+
+  test('swaps through the Alfajores broker on the testnet', async () => {
+    const { mento } = CELO_NETWORKS['celo-alfajores'];
+    const tokens = { CELO: getTokenAddress('CELO', 'celo-alfajores'), cUSD: getTokenAddress('cUSD', 'celo-alfajores') };
+    walletProvider = new MockWalletProvider({
+      address: wallet,
+      network: ALFAJORES_NETWORK,
+      fixtures: {
+        [tokens.CELO]: erc20Fixture({
+          balances: { [wallet]: parseEther('10') },
+          allowances: { [wallet]: { [mento.broker]: parseEther('5') } },
+          symbol: 'CELO',
+        }),
+        [mento.broker]: { getAmountOut: (args: readonly any[]) => args[4] as bigint },
+      },
+    });
+
+    await invokeAction(provider, walletProvider, 'execute_swap', { fromToken: 'CELO', toToken: 'cUSD', amount: '1' });
+
+    expect(walletProvider.transactions[0].to?.toLowerCase()).toBe(mento.broker.toLowerCase());
+    const { args } = walletProvider.decodeTransaction(0, MENTO_BROKER_ABI);
+    expect(args?.slice(0, 4).map(toLowerCase)).toEqual(
+      [mento.exchangeProvider, mento.exchangeIds.CELO_CUSD, tokens.CELO, tokens.cUSD].map(toLowerCase)
+    );
+  });
+});
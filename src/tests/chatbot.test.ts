@@ -0,0 +1,89 @@
+/**
+ * End-to-end tests of the agent: the scripted chat model drives the real createReactAgent
+ * graph and AgentKit tools against a mocked wallet provider, without network access
+ */
+
+import { maxUint256, parseEther } from 'viem';
+import { AIMessage, BaseMessage, HumanMessage, ToolMessage } from '@langchain/core/messages';
+import { initializeAgent } from '../chatbot';
+import { DEMO_COMMANDS } from '../constants/demo';
+import { ScriptedChatModel } from '../utils/scripted-chat-model';
+import { MENTO_BROKER_ADDRESS } from '../action-providers/mento-swap/constants';
+import { ANY_CONTRACT, MockWalletProvider } from './helpers/mock-wallet-provider';
+import { DEMO_TOOL_CALLS, respondToDemoCommand } from './helpers/demo-tool-calls';
+
+describe('Agent', () => {
+  const originalEnv = process.env;
+  let walletProvider: MockWalletProvider;
+
+  // Contract reads answered the way the Celo contracts would for a funded wallet
+  const fixtures = {
+    [ANY_CONTRACT]: {
+      balanceOf: parseEther('1000'),
+      allowance: maxUint256,
+      decimals: 18,
+      symbol: 'TOKEN',
+      // Half a cUSD per CELO, for any amount
+      getAmountOut: (args: readonly any[]) => (args[4] as bigint) / BigInt(2),
+      getUserAccountData: [parseEther('10'), parseEther('1'), parseEther('5'), BigInt(8000), BigInt(7500), parseEther('2')],
+      getTotalAmounts: [parseEther('100'), parseEther('50')],
+      totalSupply: parseEther('1000'),
+    },
+  };
+
+  beforeAll(() => {
+    process.env = {
+      ...originalEnv,
+      WALLET_PRIVATE_KEY: '0x4c0883a69102937d6231471b5dbb6208ffd70c02a813d7f2da1c54f2e3be9f38',
+    };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  beforeEach(() => {
+    walletProvider = new MockWalletProvider({ balance: parseEther('1000'), fixtures });
+  });
+
+  const createAgent = (model: ScriptedChatModel) =>
+    initializeAgent({ nonInteractive: true, chatModel: model, walletProvider });
+
+  test('answers with the scripted reply when no tool is called', async () => {
+    const { agent, config } = await createAgent(new ScriptedChatModel(['Hello, I am CeloMΔIND.']));
+
+    const result = await agent.invoke({ messages: [new HumanMessage('hi')] }, config);
+
+    expect(result.messages[result.messages.length - 1].content).toBe('Hello, I am CeloMΔIND.');
+  });
+
+  test('runs a scripted swap through the Mento tool and the wallet provider', async () => {
+    const model = new ScriptedChatModel([
+      { toolCalls: [DEMO_TOOL_CALLS['swap 0.01 CELO to cUSD with 0.5% slippage']] },
+      'Your swap was sent.',
+    ]);
+    const { agent, config } = await createAgent(model);
+
+    const result = await agent.invoke({ messages: [new HumanMessage('swap 0.01 CELO to cUSD')] }, config);
+    const toolMessage = result.messages.find((message: BaseMessage) => message instanceof ToolMessage);
+
+    const swap = walletProvider.transactions.find(tx => tx.to === MENTO_BROKER_ADDRESS);
+
+    expect(swap).toBeDefined();
+    expect(toolMessage?.content).toContain(swap!.hash);
+    expect(result.messages[result.messages.length - 1]).toBeInstanceOf(AIMessage);
+    expect(result.messages[result.messages.length - 1].content).toBe('Your swap was sent.');
+  });
+
+  test.each([...new Set(DEMO_COMMANDS)])('demo command "%s" reaches its tool with valid arguments', async command => {
+    const { agent, config } = await createAgent(new ScriptedChatModel(respondToDemoCommand));
+
+    const result = await agent.invoke({ messages: [new HumanMessage(command)] }, config);
+    const toolMessages = result.messages.filter((message: BaseMessage) => message instanceof ToolMessage);
+
+    expect(toolMessages).toHaveLength(1);
+    expect(toolMessages[0].name).toBe(DEMO_TOOL_CALLS[command].name);
+    expect(toolMessages[0].content).not.toMatch(/did not match expected schema/);
+    expect(result.messages[result.messages.length - 1].content).toMatch(/^Done: /);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * End-to-end tests against a local anvil fork of Celo mainnet
+ *
+ * Run with `npm run test:e2e` after starting a fork:
+ *   anvil --fork-url https://forno.celo.org --chain-id 42220
+ *   CELO_FORK_RPC_URL=http://127.0.0.1:8545 npm run test:e2e
+ * The scripted chat model sends every demo command to its tool, and the tools send real
+ * transactions to the fork. Set CELO_FORK_USDC_HOLDER to an address holding USDC on mainnet
+ * to fund the wallet for the AAVE steps. Without CELO_FORK_RPC_URL the tests are skipped.
+ */
+
+import { createPublicClient, erc20Abi, http, parseUnits, type Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { celo } from 'viem/chains';
+import { BaseMessage, HumanMessage, ToolMessage } from '@langchain/core/messages';
+import { initializeAgent } from '../chatbot';
+import { DEMO_COMMANDS } from '../constants/demo';
+import { ScriptedChatModel } from '../utils/scripted-chat-model';
+import { ANVIL_DEFAULT_PRIVATE_KEY, fundForkToken, getLocalForkConfig } from '../utils/local-fork';
+import { getTokenAddress } from '../network/tokens';
+import { DEMO_TOOL_CALLS, respondToDemoCommand } from './helpers/demo-tool-calls';
+
+const localFork = getLocalForkConfig();
+const describeOnFork = localFork ? describe : describe.skip;
+
+describeOnFork('Demo on a local Celo fork', () => {
+  const originalEnv = process.env;
+  const account = privateKeyToAccount(ANVIL_DEFAULT_PRIVATE_KEY);
+  const publicClient = createPublicClient({ chain: celo, transport: http(localFork?.rpcUrl) });
+  let agent: any;
+  let config: any;
+
+  const cusdBalance = () =>
+    publicClient.readContract({ address: getTokenAddress('cUSD'), abi: erc20Abi, functionName: 'balanceOf', args: [account.address] });
+
+  const run = async (command: string) => {
+    const result = await agent.invoke({ messages: [new HumanMessage(command)] }, config);
+    const toolMessages = result.messages.filter((message: BaseMessage) => message instanceof ToolMessage);
+    return toolMessages[toolMessages.length - 1] as ToolMessage;
+  };
+
+  beforeAll(async () => {
+    process.env = { ...originalEnv, WALLET_PRIVATE_KEY: ANVIL_DEFAULT_PRIVATE_KEY };
+
+    if (process.env.CELO_FORK_USDC_HOLDER) {
+      await fundForkToken(localFork!.rpcUrl, {
+        token: getTokenAddress('USDC'),
+        holder: process.env.CELO_FORK_USDC_HOLDER as Address,
+        to: account.address,
+        amount: parseUnits('10', 6),
+      });
+    }
+
+    ({ agent, config } = await initializeAgent({
+      nonInteractive: true,
+      chatModel: new ScriptedChatModel(respondToDemoCommand),
+      localFork,
+    }));
+  }, 120_000);
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test('funds the agent wallet with CELO', async () => {
+    expect(await publicClient.getBalance({ address: account.address })).toBeGreaterThanOrEqual(localFork!.funding);
+  });
+
+  test('runs the demo commands in order', async () => {
+    for (const command of DEMO_COMMANDS) {
+      const toolMessage = await run(command);
+      console.log(`${command}:\n${toolMessage.content}`);
+
+      expect(toolMessage.name).toBe(DEMO_TOOL_CALLS[command].name);
+      expect(toolMessage.content).not.toMatch(/did not match expected schema/);
+    }
+  }, 600_000);
+
+  test('swaps CELO to cUSD through the Mento broker', async () => {
+    const before = await cusdBalance();
+
+    const toolMessage = await run('swap 0.01 CELO to cUSD with 0.5% slippage');
+
+    expect(toolMessage.content).toContain('Transaction sent');
+    expect(await cusdBalance()).toBeGreaterThan(before);
+  }, 120_000);
+});
@@ -0,0 +1,54 @@
+/**
+ * Scripted tool calls for the demo commands, shared by the agent tests
+ */
+
+import { BaseMessage, ToolMessage } from '@langchain/core/messages';
+import { DEMO_COMMANDS } from '../../constants/demo';
+import { ScriptedToolCall } from '../../utils/scripted-chat-model';
+
+// Tool call the model is expected to make for each demo command
+export const DEMO_TOOL_CALLS: Record<typeof DEMO_COMMANDS[number], ScriptedToolCall> = {
+  'check wallet balances': { name: 'BalanceCheckerActionProvider_check_wallet_balances', args: {} },
+  'approve 0.01 USDC for aave': { name: 'AaveActionProvider_approve_token_for_aave', args: { token: 'USDC', amount: '0.01' } },
+  'supply 0.01 USDC to aave': { name: 'AaveActionProvider_supply_to_aave', args: { token: 'USDC', amount: '0.01' } },
+  'borrow 0.01 CELO from aave': { name: 'AaveActionProvider_borrow_from_aave', args: { token: 'CELO', amount: '0.01' } },
+  'aave dashboard': { name: 'AaveActionProvider_getAaveDashboard', args: {} },
+  'repay 0.01 CELO to aave': { name: 'AaveActionProvider_repay_aave_loan', args: { token: 'CELO', amount: '0.01' } },
+  'withdraw 0.01 USDC from aave': { name: 'AaveActionProvider_withdraw_from_aave', args: { token: 'USDC', amount: '0.01' } },
+  'approve 0.01 CELO for ichi vault': { name: 'IchiVaultActionProvider_approve-celo-for-ichi', args: { amount: '0.01' } },
+  'deposit 0.01 CELO into ichi vault strategy: CELO-USDC': {
+    name: 'IchiVaultActionProvider_provide_celo_to_ichi_vault',
+    args: { amount: '0.01', strategy: 'CELO-USDC' },
+  },
+  'deposit 0.01 CELO into ichi vault strategy: CELO-USDT': {
+    name: 'IchiVaultActionProvider_provide_celo_to_ichi_vault',
+    args: { amount: '0.01', strategy: 'CELO-USDT' },
+  },
+  'check ichi vault balance': { name: 'IchiVaultActionProvider_get-ichi-vault-balance', args: {} },
+  'approve 0.01 CELO for mento swap': {
+    name: 'MentoSwapActionProvider_approve_token',
+    args: { fromToken: 'CELO', toToken: 'cUSD', amount: '0.01' },
+  },
+  'swap 0.01 CELO to cUSD with 0.5% slippage': {
+    name: 'MentoSwapActionProvider_execute_swap',
+    args: { fromToken: 'CELO', toToken: 'cUSD', amount: '0.01', slippageTolerance: 0.5 },
+  },
+  'swap 0.01 CELO to cEUR with 0.5% slippage': {
+    name: 'MentoSwapActionProvider_execute_swap',
+    args: { fromToken: 'CELO', toToken: 'cEUR', amount: '0.01', slippageTolerance: 0.5 },
+  },
+};
+
+/**
+ * Call the tool scripted for the user's command, then answer with the tool's output
+ */
+export function respondToDemoCommand(messages: BaseMessage[]) {
+  const last = messages[messages.length - 1];
+  if (last instanceof ToolMessage) {
+    return `Done: ${last.content}`;
+  }
+
+  const command = String(last.content) as typeof DEMO_COMMANDS[number];
+  const toolCall = DEMO_TOOL_CALLS[command];
+  return toolCall ? { toolCalls: [toolCall] } : `I don't know how to "${command}" yet.`;
+}
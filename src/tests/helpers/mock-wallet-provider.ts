@@ -0,0 +1,288 @@
+/**
+ * In-memory wallet provider for action provider tests
+ *
+ * Contract reads are answered from fixture tables keyed by contract address and function
+ * name, and every transaction is recorded instead of being sent. Multicall3 aggregate3 reads
+ * are unpacked and each inner call is answered from the fixtures as well.
+ */
+import { ActionProvider, EvmWalletProvider, Network } from '@coinbase/agentkit';
+import {
+  decodeFunctionData,
+  encodeFunctionResult,
+  erc20Abi,
+  toFunctionSelector,
+  type Abi,
+  type AbiFunction,
+  type Hex,
+  type TransactionRequest,
+} from 'viem';
+import {
+  AAVE_DATA_PROVIDER_ABI,
+  AAVE_LENDING_POOL_ABI,
+  AAVE_PRICE_ORACLE_ABI,
+  AAVE_WALLET_BALANCE_PROVIDER_ABI,
+} from '../../action-providers/aave/constants';
+import { ICHI_VAULT_ABI } from '../../action-providers/ichi-vault/constants';
+import { MENTO_BROKER_ABI, UBESWAP_ROUTER_ABI, UNISWAP_V3_QUOTER_ABI } from '../../action-providers/mento-swap/constants';
+import { MULTICALL3_ADDRESS } from '../../constants/network';
+
+// Fixture for a contract function: a fixed result, or a function of the call arguments
+export type FixtureResult = unknown | ((args: readonly any[]) => unknown);
+
+// Contract functions answered by the mock, keyed by function name
+export type ContractFixture = Record<string, FixtureResult>;
+
+// Fixtures keyed by contract address (case-insensitive), or ANY_CONTRACT as a fallback
+export type ContractFixtures = Record<string, ContractFixture>;
+
+// Address key of fixtures that apply to every contract
+export const ANY_CONTRACT = '*';
+
+// Network of Celo mainnet as reported by AgentKit wallet providers
+export const CELO_NETWORK: Network = { protocolFamily: 'evm', chainId: '42220', networkId: 'celo-mainnet' };
+
+// Network of the Celo Alfajores testnet (AgentKit has no network id for it)
+export const ALFAJORES_NETWORK: Network = { protocolFamily: 'evm', chainId: '44787' };
+
+// A transaction sent through the mock, with the hash returned for it
+export type RecordedTransaction = TransactionRequest & { hash: Hex };
+
+// A contract read made through the mock
+export interface RecordedRead {
+  address: string;
+  functionName: string;
+  args: readonly any[];
+}
+
+// ABIs the calls inside a Multicall3 batch are decoded with
+export const MULTICALL_FIXTURE_ABIS: readonly Abi[] = [
+  erc20Abi,
+  AAVE_DATA_PROVIDER_ABI as Abi,
+  AAVE_LENDING_POOL_ABI as Abi,
+  AAVE_PRICE_ORACLE_ABI as Abi,
+  AAVE_WALLET_BALANCE_PROVIDER_ABI as Abi,
+  MENTO_BROKER_ABI as Abi,
+  UNISWAP_V3_QUOTER_ABI as Abi,
+  UBESWAP_ROUTER_ABI as Abi,
+  ICHI_VAULT_ABI as Abi,
+];
+
+export interface MockWalletProviderOptions {
+  address?: string;
+  network?: Network;
+  // Native CELO balance in wei
+  balance?: bigint;
+  fixtures?: ContractFixtures;
+  // ABIs of the calls batched through Multicall3 (defaults to MULTICALL_FIXTURE_ABIS)
+  multicallAbis?: readonly Abi[];
+}
+
+/**
+ * Error thrown when a contract read has no fixture
+ */
+export class MissingFixtureError extends Error {
+  constructor(address: string, functionName: string) {
+    super(`No fixture for ${functionName} on ${address}`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+/**
+ * Build the fixture of an ERC-20 token
+ *
+ * @param options.balances Balances by holder address
+ * @param options.allowances Allowances by owner, then spender address
+ */
+export function erc20Fixture(options: {
+  balances?: Record<string, bigint>;
+  allowances?: Record<string, Record<string, bigint>>;
+  decimals?: number;
+  symbol?: string;
+  totalSupply?: bigint;
+}): ContractFixture {
+  const byAddress = <T>(table: Record<string, T> = {}) =>
+    Object.fromEntries(Object.entries(table).map(([key, value]) => [key.toLowerCase(), value]));
+  const balances = byAddress(options.balances);
+  const allowances = byAddress(options.allowances);
+
+  return {
+    balanceOf: ([holder]: readonly any[]) => balances[String(holder).toLowerCase()] ?? BigInt(0),
+    allowance: ([owner, spender]: readonly any[]) =>
+      byAddress(allowances[String(owner).toLowerCase()])[String(spender).toLowerCase()] ?? BigInt(0),
+    decimals: options.decimals ?? 18,
+    symbol: options.symbol ?? 'TOKEN',
+    totalSupply: options.totalSupply ?? BigInt(0),
+  };
+}
+
+/**
+ * Wallet provider that answers reads from fixtures and records transactions
+ */
+export class MockWalletProvider extends EvmWalletProvider {
+  readonly transactions: RecordedTransaction[] = [];
+  readonly nativeTransfers: { to: string; value: string; hash: Hex }[] = [];
+  readonly reads: RecordedRead[] = [];
+
+  private readonly address: string;
+  private readonly network: Network;
+  private readonly balance: bigint;
+  private readonly fixtures: Map<string, ContractFixture> = new Map();
+  private readonly multicallFunctions: Map<Hex, AbiFunction> = new Map();
+
+  constructor(options: MockWalletProviderOptions = {}) {
+    super();
+    this.address = options.address ?? '0xabcdef1234567890abcdef1234567890abcdef12';
+    this.network = options.network ?? CELO_NETWORK;
+    this.balance = options.balance ?? BigInt(0);
+
+    for (const abi of options.multicallAbis ?? MULTICALL_FIXTURE_ABIS) {
+      for (const item of abi) {
+        if (item.type === 'function' && !this.multicallFunctions.has(toFunctionSelector(item))) {
+          this.multicallFunctions.set(toFunctionSelector(item), item);
+        }
+      }
+    }
+
+    for (const [address, fixture] of Object.entries(options.fixtures ?? {})) {
+      this.setFixture(address, fixture);
+    }
+  }
+
+  /**
+   * Add or replace the fixture of a contract (merged with its existing functions)
+   *
+   * @param address Contract address, or ANY_CONTRACT
+   * @param fixture Functions to answer
+   */
+  setFixture(address: string, fixture: ContractFixture): void {
+    const key = address.toLowerCase();
+    this.fixtures.set(key, { ...this.fixtures.get(key), ...fixture });
+  }
+
+  /**
+   * Decode the calldata of a recorded transaction
+   *
+   * @param index Index of the transaction in `transactions`
+   * @param abi ABI to decode with
+   */
+  decodeTransaction(index: number, abi: Abi | readonly unknown[]) {
+    return decodeFunctionData({ abi: abi as Abi, data: this.transactions[index].data as Hex });
+  }
+
+  getAddress(): string {
+    return this.address;
+  }
+
+  getNetwork(): Network {
+    return this.network;
+  }
+
+  getName(): string {
+    return 'mock_wallet_provider';
+  }
+
+  async getBalance(): Promise<bigint> {
+    return this.balance;
+  }
+
+  async readContract(params: any): Promise<any> {
+    const { address, functionName, args = [] } = params;
+    this.reads.push({ address, functionName, args });
+
+    const fixture = this.fixtures.get(String(address).toLowerCase());
+    const fallback = this.fixtures.get(ANY_CONTRACT);
+    const result = fixture && functionName in fixture ? fixture[functionName] : fallback?.[functionName];
+
+    if (result === undefined && functionName === 'aggregate3' && String(address).toLowerCase() === MULTICALL3_ADDRESS.toLowerCase()) {
+      return this.aggregate3(args[0]);
+    }
+    if (result === undefined) {
+      throw new MissingFixtureError(address, functionName);
+    }
+    return typeof result === 'function' ? result(args) : result;
+  }
+
+  /**
+   * Answer a Multicall3 aggregate3 batch; calls without a fixture fail like a revert would
+   */
+  private async aggregate3(calls: readonly { target: string; callData: Hex }[]) {
+    return Promise.all(calls.map(async ({ target, callData }) => {
+      const item = this.multicallFunctions.get(callData.slice(0, 10) as Hex);
+      if (!item) {
+        throw new Error(`No multicall ABI for selector ${callData.slice(0, 10)} on ${target}`);
+      }
+      const { functionName, args } = decodeFunctionData({ abi: [item], data: callData });
+
+      let result: unknown;
+      try {
+        result = await this.readContract({ address: target, functionName, args: args ?? [] });
+      } catch {
+        return { success: false, returnData: '0x' as Hex };
+      }
+      return { success: true, returnData: encodeFunctionResult({ abi: [item], functionName, result } as any) };
+    }));
+  }
+
+  async sendTransaction(transaction: TransactionRequest): Promise<Hex> {
+    const hash = this.nextHash();
+    this.transactions.push({ ...transaction, hash });
+    return hash;
+  }
+
+  async waitForTransactionReceipt(txHash: Hex): Promise<any> {
+    return {
+      status: 'success',
+      transactionHash: txHash,
+      blockNumber: BigInt(1),
+      gasUsed: BigInt(21000),
+    };
+  }
+
+  async nativeTransfer(to: string, value: string): Promise<Hex> {
+    const hash = this.nextHash();
+    this.nativeTransfers.push({ to, value, hash });
+    return hash;
+  }
+
+  async signMessage(): Promise<Hex> {
+    throw new Error('MockWalletProvider does not sign messages');
+  }
+
+  async signTypedData(): Promise<Hex> {
+    throw new Error('MockWalletProvider does not sign typed data');
+  }
+
+  async signTransaction(): Promise<Hex> {
+    throw new Error('MockWalletProvider does not sign transactions');
+  }
+
+  /**
+   * Deterministic hash of the next transaction (0x…01, 0x…02, …)
+   */
+  private nextHash(): Hex {
+    const count = this.transactions.length + this.nativeTransfers.length + 1;
+    return `0x${count.toString(16).padStart(64, '0')}`;
+  }
+}
+
+/**
+ * Invoke an action of a provider the way the agent's tools do, validating the arguments
+ * against the action's schema first
+ *
+ * @param provider Action provider
+ * @param walletProvider Wallet provider passed to the action
+ * @param name Action name, without the provider prefix (e.g. "supply_to_aave")
+ * @param args Raw action arguments
+ */
+export async function invokeAction(
+  provider: ActionProvider<EvmWalletProvider>,
+  walletProvider: EvmWalletProvider,
+  name: string,
+  args: Record<string, unknown> = {}
+): Promise<string> {
+  const action = provider.getActions(walletProvider).find(candidate => candidate.name.endsWith(`_${name}`));
+  if (!action) {
+    throw new Error(`Action ${name} not found`);
+  }
+  return action.invoke(action.schema.parse(args));
+}
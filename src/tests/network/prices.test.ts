@@ -0,0 +1,161 @@
+/**
+ * Tests for the token price service
+ */
+
+import { parseEther, parseUnits } from 'viem';
+import { AAVE_PRICE_ORACLE } from '../../action-providers/aave/constants';
+import { ICHI_VAULT } from '../../action-providers/ichi-vault/constants';
+import { EXCHANGE_IDS, EXCHANGE_PROVIDER, MENTO_BROKER_ADDRESS } from '../../action-providers/mento-swap/constants';
+import { clearMentoExchangeCache } from '../../action-providers/mento-swap/exchanges';
+import { CELO_NETWORKS } from '../../network/registry';
+import { clearPriceCache, describePriceWarnings, getTokenPrice, getTokenPrices } from '../../network/prices';
+import { getTokenAddress } from '../../network/tokens';
+import { ALFAJORES_NETWORK, MockWalletProvider } from '../helpers/mock-wallet-provider';
+
+const CELO_TOKEN = getTokenAddress('CELO');
+
+describe('price service', () => {
+  // Oracle prices have 8 decimals; CELO at $0.70, everything else at $1
+  const oracle = {
+    getAssetsPrices: ([assets]: readonly any[]) =>
+      assets.map((asset: string) => (asset === CELO_TOKEN ? parseUnits('0.7', 8) : parseUnits('1', 8))),
+  };
+
+  // 1 CELO buys 0.60 cUSD, 1 cEUR buys 1.8 CELO and any other stablecoin is quoted at 0.20 cUSD
+  const mento = {
+    getAmountOut: ([, exchangeId]: readonly any[]) => {
+      if (exchangeId === EXCHANGE_IDS.CELO_CUSD) return parseEther('0.6');
+      if (exchangeId === EXCHANGE_IDS.CELO_CEUR) return parseEther('1.8');
+      return parseEther('0.2');
+    },
+  };
+
+  // Pools of the exchange provider: the two CELO pools and every other Mento stablecoin against cUSD
+  const exchangeProvider = {
+    getExchanges: [
+      { exchangeId: EXCHANGE_IDS.CELO_CUSD, assets: [getTokenAddress('cUSD'), CELO_TOKEN] },
+      { exchangeId: EXCHANGE_IDS.CELO_CEUR, assets: [getTokenAddress('cEUR'), CELO_TOKEN] },
+      ...(['cREAL', 'eXOF', 'cKES', 'USDC', 'USDT'] as const).map((symbol, i) => ({
+        exchangeId: `0x${String(i + 1).padStart(64, '0')}`,
+        assets: [getTokenAddress('cUSD'), getTokenAddress(symbol)],
+      })),
+    ],
+  };
+
+  // 1,000 CELO against 550 USDT
+  const ichiVault = { getTotalAmounts: [parseEther('1000'), parseUnits('550', 6)] };
+
+  const failing = (functionName: string) => ({
+    [functionName]: () => {
+      throw new Error('execution reverted');
+    },
+  });
+
+  const aggregateReads = (walletProvider: MockWalletProvider) =>
+    walletProvider.reads.filter(read => read.functionName === 'aggregate3');
+
+  beforeEach(() => {
+    clearPriceCache();
+    clearMentoExchangeCache();
+  });
+
+  test('prefers the AAVE oracle', async () => {
+    const walletProvider = new MockWalletProvider({
+      fixtures: {
+        [AAVE_PRICE_ORACLE]: oracle,
+        [MENTO_BROKER_ADDRESS]: mento,
+        [EXCHANGE_PROVIDER]: exchangeProvider,
+        [ICHI_VAULT]: ichiVault,
+      },
+    });
+
+    const prices = await getTokenPrices(walletProvider);
+
+    expect(prices.CELO).toMatchObject({ priceUsd: 0.7, source: 'aave-oracle', stale: false, isFallback: false });
+    expect(prices.USDT).toMatchObject({ priceUsd: 1, source: 'aave-oracle' });
+    expect(aggregateReads(walletProvider)).toHaveLength(1);
+    expect(describePriceWarnings(prices)).toBe('');
+  });
+
+  test('prices CELO, cUSD and cEUR from Mento quotes without the oracle', async () => {
+    const walletProvider = new MockWalletProvider({
+      fixtures: { [AAVE_PRICE_ORACLE]: failing('getAssetsPrices'), [MENTO_BROKER_ADDRESS]: mento },
+    });
+
+    const prices = await getTokenPrices(walletProvider);
+
+    expect(prices.CELO).toMatchObject({ priceUsd: 0.6, source: 'mento' });
+    expect(prices.cUSD).toMatchObject({ priceUsd: 1, source: 'mento' });
+    expect(prices.cEUR!.priceUsd).toBeCloseTo(1.08);
+    expect(prices.cEUR!.source).toBe('mento');
+  });
+
+  test('prices other Mento stablecoins through their discovered cUSD pools', async () => {
+    const walletProvider = new MockWalletProvider({
+      fixtures: { [MENTO_BROKER_ADDRESS]: mento, [EXCHANGE_PROVIDER]: exchangeProvider },
+    });
+
+    const prices = await getTokenPrices(walletProvider, ['cREAL', 'cKES']);
+
+    expect(prices.cREAL).toMatchObject({ priceUsd: 0.2, source: 'mento' });
+    expect(prices.cKES).toMatchObject({ priceUsd: 0.2, source: 'mento' });
+    expect(walletProvider.reads).toContainEqual(expect.objectContaining({
+      functionName: 'getAmountOut',
+      args: [EXCHANGE_PROVIDER, `0x${'1'.padStart(64, '0')}`, getTokenAddress('cREAL'), getTokenAddress('cUSD'), parseEther('1')],
+    }));
+  });
+
+  test('prices CELO from the ICHI vault ratio when nothing else answers', async () => {
+    const walletProvider = new MockWalletProvider({ fixtures: { [ICHI_VAULT]: ichiVault } });
+
+    const price = await getTokenPrice(walletProvider, 'CELO');
+
+    expect(price).toMatchObject({ priceUsd: 0.55, source: 'ichi' });
+  });
+
+  test('flags registry prices when no source answers', async () => {
+    const walletProvider = new MockWalletProvider();
+
+    const prices = await getTokenPrices(walletProvider, ['CELO', 'USDC']);
+
+    expect(prices.CELO).toMatchObject({ priceUsd: 0.5, source: 'fallback', isFallback: true });
+    expect(describePriceWarnings(prices)).toBe(
+      '⚠️ Live prices unavailable: fallback prices for CELO, USDC. USD values are estimates.'
+    );
+  });
+
+  test('reuses live prices until they expire', async () => {
+    const walletProvider = new MockWalletProvider({ fixtures: { [AAVE_PRICE_ORACLE]: oracle } });
+
+    await getTokenPrices(walletProvider, ['CELO']);
+    const price = await getTokenPrice(walletProvider, 'CELO');
+
+    expect(price.priceUsd).toBe(0.7);
+    expect(aggregateReads(walletProvider)).toHaveLength(1);
+  });
+
+  test('serves expired prices as stale while sources are down, then falls back', async () => {
+    const walletProvider = new MockWalletProvider({ fixtures: { [AAVE_PRICE_ORACLE]: oracle } });
+    await getTokenPrices(walletProvider, ['CELO']);
+    walletProvider.setFixture(AAVE_PRICE_ORACLE, failing('getAssetsPrices'));
+
+    const stale = await getTokenPrices(walletProvider, ['CELO'], { ttlMs: 0 });
+    const expired = await getTokenPrices(walletProvider, ['CELO'], { ttlMs: 0, maxAgeMs: 0 });
+
+    expect(stale.CELO).toMatchObject({ priceUsd: 0.7, source: 'aave-oracle', stale: true });
+    expect(describePriceWarnings(stale)).toContain('cached prices for CELO');
+    expect(expired.CELO).toMatchObject({ priceUsd: 0.5, isFallback: true });
+  });
+
+  test('only reads Mento on Alfajores', async () => {
+    const broker = CELO_NETWORKS['celo-alfajores'].mento.broker;
+    const walletProvider = new MockWalletProvider({ network: ALFAJORES_NETWORK, fixtures: { [broker]: mento } });
+
+    const prices = await getTokenPrices(walletProvider);
+
+    expect(Object.keys(prices)).toEqual(['CELO', 'cUSD', 'cEUR', 'cREAL', 'eXOF', 'cKES', 'USDC']);
+    expect(prices.CELO).toMatchObject({ priceUsd: 0.6, source: 'mento' });
+    expect(prices.USDC).toMatchObject({ source: 'fallback' });
+    expect(aggregateReads(walletProvider)[0].args[0]).toHaveLength(2);
+  });
+});
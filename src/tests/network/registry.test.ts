@@ -0,0 +1,51 @@
+/**
+ * Tests for the per-network address registry
+ */
+
+import { celo, celoAlfajores } from 'viem/chains';
+import {
+  CELO_NETWORKS,
+  findCeloNetwork,
+  getCeloNetworkById,
+  getExplorerTxUrl,
+  setActiveCeloNetwork,
+  UnsupportedNetworkError,
+} from '../../network/registry';
+
+describe('Network registry', () => {
+  afterEach(() => {
+    setActiveCeloNetwork('celo');
+  });
+
+  test('getCeloNetworkById accepts the network ids and their aliases', () => {
+    expect(getCeloNetworkById('celo').chain).toBe(celo);
+    expect(getCeloNetworkById('celo-mainnet').id).toBe('celo');
+    expect(getCeloNetworkById('celo-alfajores').chain).toBe(celoAlfajores);
+    expect(getCeloNetworkById('alfajores').id).toBe('celo-alfajores');
+  });
+
+  test('getCeloNetworkById rejects other networks', () => {
+    expect(() => getCeloNetworkById('base-mainnet')).toThrow(UnsupportedNetworkError);
+  });
+
+  test('findCeloNetwork goes by chain id before network id', () => {
+    expect(findCeloNetwork({ protocolFamily: 'evm', chainId: '44787' })?.id).toBe('celo-alfajores');
+    expect(findCeloNetwork({ protocolFamily: 'evm', chainId: '42220', networkId: 'celo-mainnet' })?.id).toBe('celo');
+    expect(findCeloNetwork({ protocolFamily: 'evm', networkId: 'celo-alfajores' })?.id).toBe('celo-alfajores');
+    expect(findCeloNetwork({ protocolFamily: 'evm', chainId: '8453', networkId: 'base-mainnet' })).toBeUndefined();
+  });
+
+  test('only mainnet has AAVE and ICHI deployments', () => {
+    expect(CELO_NETWORKS.celo.aave).toBeDefined();
+    expect(CELO_NETWORKS.celo.ichi).toBeDefined();
+    expect(CELO_NETWORKS['celo-alfajores'].aave).toBeUndefined();
+    expect(CELO_NETWORKS['celo-alfajores'].ichi).toBeUndefined();
+  });
+
+  test('getExplorerTxUrl links the explorer of the active network', () => {
+    expect(getExplorerTxUrl('0x01')).toBe('https://celoscan.io/tx/0x01');
+
+    setActiveCeloNetwork('celo-alfajores');
+    expect(getExplorerTxUrl('0x01')).toBe('https://alfajores.celoscan.io/tx/0x01');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for the RPC endpoint pool
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createPublicClient } from 'viem';
+import { CELO_NETWORKS } from '../../network/registry';
+import { createRpcTransport, getRpcHealth, getRpcUrls, resetRpcMetrics } from '../../network/rpc';
+
+describe('RPC endpoint pool', () => {
+  // Closed port: requests fail immediately
+  const deadUrl = 'http://127.0.0.1:9';
+  let server: Server;
+  let liveUrl: string;
+
+  beforeAll(async () => {
+    // Answers every JSON-RPC request (single or batched) with block 0x10
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        const answer = (request: { id: number }) => ({ jsonrpc: '2.0', id: request.id, result: '0x10' });
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(Array.isArray(payload) ? payload.map(answer) : answer(payload)));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    liveUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    resetRpcMetrics();
+  });
+
+  describe('getRpcUrls', () => {
+    test('defaults to the endpoint of the chain', () => {
+      expect(getRpcUrls(CELO_NETWORKS.celo, {})).toEqual(['https://forno.celo.org']);
+      expect(getRpcUrls(CELO_NETWORKS['celo-alfajores'], {})).toEqual(
+        CELO_NETWORKS['celo-alfajores'].chain.rpcUrls.default.http
+      );
+    });
+
+    test('prefers CELO_RPC_URLS over CELO_RPC_URL and drops duplicates', () => {
+      expect(getRpcUrls(CELO_NETWORKS.celo, {
+        CELO_RPC_URLS: 'https://a.example, https://b.example,,https://a.example',
+        CELO_RPC_URL: 'https://c.example',
+      })).toEqual(['https://a.example', 'https://b.example']);
+      expect(getRpcUrls(CELO_NETWORKS.celo, { CELO_RPC_URL: 'https://c.example' })).toEqual(['https://c.example']);
+    });
+  });
+
+  test('fails over to the next endpoint and records metrics for both', async () => {
+    const client = createPublicClient({
+      chain: CELO_NETWORKS.celo.chain,
+      transport: createRpcTransport([deadUrl, liveUrl], { retryCount: 0, healthCheckInterval: 0 }),
+    });
+
+    await expect(client.getBlockNumber({ cacheTime: 0 })).resolves.toBe(BigInt(16));
+
+    const health = getRpcHealth();
+    const dead = health.endpoints.find(endpoint => endpoint.url === deadUrl);
+    const live = health.endpoints.find(endpoint => endpoint.url === liveUrl);
+    expect(health.healthy).toBe(true);
+    expect(dead).toMatchObject({ requests: 1, errors: 1, healthy: false });
+    expect(dead?.lastError).toBeDefined();
+    expect(live).toMatchObject({ requests: 1, errors: 0, healthy: true });
+    expect(live?.lastLatencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('reports the pool as unhealthy when no endpoint answers', async () => {
+    const client = createPublicClient({
+      chain: CELO_NETWORKS.celo.chain,
+      transport: createRpcTransport([deadUrl], { retryCount: 0 }),
+    });
+
+    await expect(client.getBlockNumber({ cacheTime: 0 })).rejects.toThrow();
+    expect(getRpcHealth().healthy).toBe(false);
+  });
+
+  test('rejects an empty endpoint list', () => {
+    expect(() => createRpcTransport([])).toThrow('At least one RPC endpoint');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for the token registry
+ */
+
+import { getAddress } from 'viem';
+import {
+  findTokenByAddress,
+  getToken,
+  getTokens,
+  getTokensWithRole,
+  UnknownTokenError,
+} from '../../network/tokens';
+
+describe('Token registry', () => {
+  test('lists the tokens of each network with checksummed addresses', () => {
+    expect(getTokens().map(token => token.symbol)).toEqual([
+      'CELO', 'cUSD', 'cEUR', 'cREAL', 'eXOF', 'cKES', 'USDC', 'USDT',
+    ]);
+    expect(getTokens('celo-alfajores').map(token => token.symbol)).toEqual([
+      'CELO', 'cUSD', 'cEUR', 'cREAL', 'eXOF', 'cKES', 'USDC',
+    ]);
+
+    for (const token of [...getTokens(), ...getTokens('celo-alfajores')]) {
+      expect(token.address).toBe(getAddress(token.address));
+    }
+  });
+
+  test('getToken describes a token on a network', () => {
+    expect(getToken('USDC')).toMatchObject({ decimals: 6, icon: '💵', isNative: false });
+    expect(getToken('CELO', 'celo-alfajores')).toMatchObject({
+      address: '0xF194afDf50B03e69Bd7D057c1Aa9e10c9954E4C9',
+      isNative: true,
+    });
+    expect(() => getToken('USDT', 'celo-alfajores')).toThrow(UnknownTokenError);
+  });
+
+  test('findTokenByAddress ignores casing and searches every network', () => {
+    expect(findTokenByAddress('0xceba9300f2b948710d2653dd7b07f33a8b32118c')?.symbol).toBe('USDC');
+    expect(findTokenByAddress('0x874069fa1eb16d44d622f2e0ca25eea172369bc1')?.symbol).toBe('cUSD');
+    expect(findTokenByAddress('0x874069fa1eb16d44d622f2e0ca25eea172369bc1', 'celo')).toBeUndefined();
+  });
+
+  test('protocol roles select the tokens of each market', () => {
+    expect(getTokensWithRole('mento').map(token => token.symbol)).toEqual([
+      'CELO', 'cUSD', 'cEUR', 'cREAL', 'eXOF', 'cKES', 'USDC', 'USDT',
+    ]);
+    expect(getTokensWithRole('aave-collateral').map(token => token.symbol)).toEqual(['CELO', 'USDC', 'USDT']);
+    expect(getTokensWithRole('aave', 'celo').map(token => token.symbol)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Global test setup
+ */
+
+// AgentKit reports action invocations and wallet providers to this endpoint
+const ANALYTICS_ENDPOINT = 'https://cca-lite.coinbase.com';
+
+// Answer analytics requests locally; other requests (e.g. to a local fork) go through
+const realFetch = global.fetch;
+global.fetch = jest.fn((input: any, init?: any) =>
+  String(input?.url ?? input).startsWith(ANALYTICS_ENDPOINT)
+    ? Promise.resolve(new Response(null, { status: 200 }))
+    : realFetch(input, init)
+) as any;
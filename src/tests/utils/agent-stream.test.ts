@@ -0,0 +1,85 @@
+/**
+ * Tests for the agent-stream module
+ */
+
+import { AIMessage, AIMessageChunk, ToolMessage } from '@langchain/core/messages';
+import { streamAgentEvents, formatSseEvent, AgentStreamEvent } from '../../utils/agent-stream';
+
+// Build a fake agent whose stream yields the given [mode, chunk] tuples
+const createMockAgent = (chunks: any[], failWith?: Error) => ({
+  stream: jest.fn(async () =>
+    (async function* () {
+      for (const chunk of chunks) {
+        yield chunk;
+      }
+      if (failWith) {
+        throw failWith;
+      }
+    })()
+  ),
+});
+
+const collect = async (generator: AsyncGenerator<AgentStreamEvent>) => {
+  const events: AgentStreamEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+};
+
+describe('Agent Stream', () => {
+  const config = { configurable: { thread_id: 'test' } };
+
+  test('streamAgentEvents emits tokens, tool calls, tool results and the final response', async () => {
+    const toolCall = { id: 'call-1', name: 'execute_swap', args: { fromToken: 'CELO', amount: '1' } };
+    const agent = createMockAgent([
+      ['updates', { agent: { messages: [new AIMessage({ content: '', tool_calls: [toolCall] })] } }],
+      [
+        'updates',
+        {
+          tools: {
+            messages: [new ToolMessage({ content: 'Swap prepared', tool_call_id: 'call-1', name: 'execute_swap' })],
+          },
+        },
+      ],
+      ['messages', [new AIMessageChunk('Swap '), { langgraph_node: 'agent' }]],
+      ['messages', [new AIMessageChunk('ready'), { langgraph_node: 'agent' }]],
+      ['messages', [new ToolMessage({ content: 'ignored', tool_call_id: 'call-1' }), { langgraph_node: 'tools' }]],
+      ['updates', { agent: { messages: [new AIMessage('Swap ready')] } }],
+    ]);
+
+    const events = await collect(streamAgentEvents(agent, 'swap 1 CELO to cUSD', config));
+
+    expect(events).toEqual([
+      { type: 'tool_call', ...toolCall },
+      { type: 'tool_result', id: 'call-1', name: 'execute_swap', content: 'Swap prepared' },
+      { type: 'token', content: 'Swap ' },
+      { type: 'token', content: 'ready' },
+      { type: 'done', response: 'Swap ready' },
+    ]);
+    expect(agent.stream).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ ...config, streamMode: ['messages', 'updates'] })
+    );
+  });
+
+  test('streamAgentEvents ends with an error event when the agent fails', async () => {
+    const agent = createMockAgent(
+      [['messages', [new AIMessageChunk('Working'), { langgraph_node: 'agent' }]]],
+      new Error('RPC unavailable')
+    );
+
+    const events = await collect(streamAgentEvents(agent, 'check balances', config));
+
+    expect(events).toEqual([
+      { type: 'token', content: 'Working' },
+      { type: 'error', message: 'RPC unavailable' },
+    ]);
+  });
+
+  test('formatSseEvent produces a named SSE frame', () => {
+    expect(formatSseEvent({ type: 'token', content: 'hi' })).toBe(
+      'event: token\ndata: {"content":"hi"}\n\n'
+    );
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for the calldata-decoder module
+ */
+
+import { encodeFunctionData, erc20Abi, maxUint256, parseEther, parseUnits } from 'viem';
+import { decodeCalldata, getTransactionDataType } from '../../utils/calldata-decoder';
+import {
+  MENTO_BROKER_ABI,
+  MENTO_BROKER_ADDRESS,
+  EXCHANGE_PROVIDER,
+  EXCHANGE_IDS,
+  UBESWAP_ROUTER,
+  UBESWAP_ROUTER_ABI,
+  UNISWAP_V3_ROUTER_ABI,
+  UNISWAP_V3_SWAP_ROUTER,
+} from '../../action-providers/mento-swap/constants';
+import { AAVE_LENDING_POOL_ABI, AAVE_POOL } from '../../action-providers/aave/constants';
+import {
+  ICHI_DEPOSIT_FORWARDER_ABI,
+  ICHI_DEPOSIT_FORWARDER,
+  ICHI_VAULT_ABI,
+  ICHI_VAULT,
+  VAULT_DEPLOYER,
+} from '../../action-providers/ichi-vault/constants';
+import { getTokenAddress } from '../../network/tokens';
+
+const CELO_TOKEN_ADDRESS = getTokenAddress('CELO');
+const CUSD_TOKEN_ADDRESS = getTokenAddress('cUSD');
+const USDC_TOKEN = getTokenAddress('USDC');
+
+describe('Calldata Decoder', () => {
+  const user = '0xabcdef1234567890abcdef1234567890abcdef12';
+
+  test('decodes Mento swaps with token symbols and formatted amounts', () => {
+    const data = encodeFunctionData({
+      abi: MENTO_BROKER_ABI,
+      functionName: 'swapIn',
+      args: [EXCHANGE_PROVIDER, EXCHANGE_IDS.CELO_CUSD, CELO_TOKEN_ADDRESS, CUSD_TOKEN_ADDRESS, parseEther('5'), parseEther('2.31')],
+    });
+
+    const decoded = decodeCalldata(MENTO_BROKER_ADDRESS, data);
+
+    expect(decoded).toMatchObject({
+      protocol: 'mento',
+      functionName: 'swapIn',
+      summary: 'swapIn 5 CELO → cUSD, min 2.31 cUSD',
+    });
+    expect(decoded?.args.amountIn).toBe(parseEther('5').toString());
+    expect(getTransactionDataType(data, decoded)).toBe('contract-call');
+  });
+
+  test('decodes exact-output Mento swaps', () => {
+    const data = encodeFunctionData({
+      abi: MENTO_BROKER_ABI,
+      functionName: 'swapOut',
+      args: [EXCHANGE_PROVIDER, EXCHANGE_IDS.CELO_CUSD, CELO_TOKEN_ADDRESS, CUSD_TOKEN_ADDRESS, parseEther('100'), parseEther('250')],
+    });
+
+    expect(decodeCalldata(MENTO_BROKER_ADDRESS, data)?.summary).toBe('swapOut CELO → 100 cUSD, max 250 CELO');
+  });
+
+  test('decodes Uniswap v3 and Ubeswap router swaps', () => {
+    const uniswap = encodeFunctionData({
+      abi: UNISWAP_V3_ROUTER_ABI,
+      functionName: 'exactInputSingle',
+      args: [{
+        tokenIn: CELO_TOKEN_ADDRESS,
+        tokenOut: USDC_TOKEN,
+        fee: 500,
+        recipient: user,
+        amountIn: parseEther('5'),
+        amountOutMinimum: parseUnits('2.31', 6),
+        sqrtPriceLimitX96: BigInt(0),
+      }],
+    });
+    const ubeswap = encodeFunctionData({
+      abi: UBESWAP_ROUTER_ABI,
+      functionName: 'swapTokensForExactTokens',
+      args: [parseUnits('100', 6), parseEther('250'), [CELO_TOKEN_ADDRESS, USDC_TOKEN], user, BigInt(1700000000)],
+    });
+
+    const decoded = decodeCalldata(UNISWAP_V3_SWAP_ROUTER, uniswap);
+
+    expect(decoded).toMatchObject({
+      protocol: 'uniswap-v3',
+      summary: 'exactInputSingle 5 CELO → USDC, min 2.31 USDC',
+    });
+    expect(decoded?.args.fee).toBe('500');
+    expect(decodeCalldata(UBESWAP_ROUTER, ubeswap)).toMatchObject({
+      protocol: 'ubeswap',
+      summary: 'swapTokensForExactTokens CELO → 100 USDC, max 250 CELO',
+    });
+  });
+
+  test('decodes AAVE calls using the token decimals', () => {
+    const supply = encodeFunctionData({
+      abi: AAVE_LENDING_POOL_ABI,
+      functionName: 'supply',
+      args: [USDC_TOKEN, parseUnits('12.5', 6), user, 0],
+    });
+    const repayAll = encodeFunctionData({
+      abi: AAVE_LENDING_POOL_ABI,
+      functionName: 'repay',
+      args: [USDC_TOKEN, maxUint256, BigInt(2), user],
+    });
+
+    expect(decodeCalldata(AAVE_POOL, supply)?.summary).toBe('supply 12.5 USDC to AAVE');
+    expect(decodeCalldata(AAVE_POOL, repayAll)?.summary).toBe('repay all USDC debt to AAVE');
+  });
+
+  test('decodes ICHI deposits and vault withdrawals', () => {
+    const deposit = encodeFunctionData({
+      abi: ICHI_DEPOSIT_FORWARDER_ABI,
+      functionName: 'forwardDepositToICHIVault',
+      args: [ICHI_VAULT, VAULT_DEPLOYER, CELO_TOKEN_ADDRESS, parseEther('5'), parseEther('0.1'), user],
+    });
+    const withdraw = encodeFunctionData({
+      abi: ICHI_VAULT_ABI,
+      functionName: 'withdraw',
+      args: [parseEther('1.5'), user],
+    });
+
+    expect(decodeCalldata(ICHI_DEPOSIT_FORWARDER, deposit)?.summary).toBe(
+      'deposit 5 CELO into ICHI CELO-USDT vault, min 0.1 shares'
+    );
+    expect(decodeCalldata(ICHI_VAULT, withdraw)).toMatchObject({
+      protocol: 'ichi',
+      summary: 'withdraw 1.5 shares from ICHI CELO-USDT vault',
+    });
+  });
+
+  test('classifies token approvals and transfers', () => {
+    const approve = encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [AAVE_POOL, maxUint256] });
+    const transfer = encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [user, parseEther('1')] });
+
+    const decodedApprove = decodeCalldata(CUSD_TOKEN_ADDRESS, approve);
+    expect(decodedApprove?.summary).toBe('approve unlimited cUSD for AAVE Pool');
+    expect(getTransactionDataType(approve, decodedApprove)).toBe('token-approval');
+    expect(getTransactionDataType(transfer, decodeCalldata(CUSD_TOKEN_ADDRESS, transfer))).toBe('token-transfer');
+  });
+
+  test('returns undefined for empty or unknown calldata', () => {
+    expect(decodeCalldata(user, undefined)).toBeUndefined();
+    expect(decodeCalldata(user, '0x')).toBeUndefined();
+    expect(decodeCalldata(user, '0xdeadbeef')).toBeUndefined();
+    expect(getTransactionDataType(undefined)).toBe('native-transfer');
+    expect(getTransactionDataType('0xdeadbeef')).toBe('unknown');
+  });
+});
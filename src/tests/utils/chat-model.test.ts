@@ -0,0 +1,97 @@
+/**
+ * Tests for the chat-model module
+ */
+
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { HumanMessage } from '@langchain/core/messages';
+import {
+  createChatModel,
+  getChatModelConfig,
+  getRequiredEnvironment,
+  ChatModelConfigError,
+  DEFAULT_OLLAMA_BASE_URL,
+} from '../../utils/chat-model';
+import { ScriptedChatModel, ScriptExhaustedError, DEFAULT_SCRIPTED_REPLY } from '../../utils/scripted-chat-model';
+
+describe('Chat Model', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, OPENAI_API_KEY: 'test-openai-key', ANTHROPIC_API_KEY: 'test-anthropic-key' };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test('getChatModelConfig defaults to OpenAI gpt-4o-mini at temperature 0', () => {
+    expect(getChatModelConfig({})).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      temperature: 0,
+      timeoutMs: undefined,
+      maxRetries: undefined,
+      baseUrl: undefined,
+      scriptedReplies: undefined,
+    });
+  });
+
+  test('getChatModelConfig reads the provider settings from the environment', () => {
+    const config = getChatModelConfig({
+      LLM_PROVIDER: 'Ollama',
+      LLM_MODEL: 'qwen2.5',
+      LLM_TEMPERATURE: '0.3',
+      LLM_TIMEOUT_MS: '30000',
+      LLM_MAX_RETRIES: '1',
+    });
+
+    expect(config).toMatchObject({
+      provider: 'ollama',
+      model: 'qwen2.5',
+      temperature: 0.3,
+      timeoutMs: 30000,
+      maxRetries: 1,
+      baseUrl: DEFAULT_OLLAMA_BASE_URL,
+    });
+  });
+
+  test('getChatModelConfig rejects invalid settings', () => {
+    expect(() => getChatModelConfig({ LLM_PROVIDER: 'gemini' })).toThrow(ChatModelConfigError);
+    expect(() => getChatModelConfig({ LLM_TEMPERATURE: 'hot' })).toThrow(/LLM_TEMPERATURE/);
+    expect(() => getChatModelConfig({ LLM_SCRIPTED_REPLIES: '[1, 2]' })).toThrow(/JSON array of strings/);
+  });
+
+  test('only the selected provider\'s credentials are required', () => {
+    expect(getRequiredEnvironment('openai')).toEqual(['OPENAI_API_KEY']);
+    expect(getRequiredEnvironment('anthropic')).toEqual(['ANTHROPIC_API_KEY']);
+    expect(getRequiredEnvironment('ollama')).toEqual([]);
+    expect(getRequiredEnvironment('scripted')).toEqual([]);
+  });
+
+  test('createChatModel builds the model of each provider', () => {
+    const base = { model: 'test-model', temperature: 0 };
+
+    expect(createChatModel({ ...base, provider: 'openai' })).toBeInstanceOf(ChatOpenAI);
+    expect(createChatModel({ ...base, provider: 'anthropic' })).toBeInstanceOf(ChatAnthropic);
+    expect(createChatModel({ ...base, provider: 'ollama', baseUrl: DEFAULT_OLLAMA_BASE_URL })).toBeInstanceOf(ChatOpenAI);
+    expect(createChatModel({ ...base, provider: 'scripted' })).toBeInstanceOf(ScriptedChatModel);
+  });
+
+  test('the scripted model replays its replies in order, then fails once the script is exhausted', async () => {
+    const model = new ScriptedChatModel(['first', 'second']);
+    const ask = async () => (await model.invoke([new HumanMessage('hi')])).content;
+
+    expect(await ask()).toBe('first');
+    expect(await ask()).toBe('second');
+    await expect(ask()).rejects.toThrow(ScriptExhaustedError);
+    await expect(ask()).rejects.toThrow(/script exhausted: all 2 turn\(s\) were used/);
+  });
+
+  test('the scripted model without a script always gives the default reply', async () => {
+    const model = new ScriptedChatModel();
+
+    expect((await model.invoke('hi')).content).toBe(DEFAULT_SCRIPTED_REPLY);
+    expect((await model.invoke('hi again')).content).toBe(DEFAULT_SCRIPTED_REPLY);
+  });
+});
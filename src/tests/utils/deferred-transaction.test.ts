@@ -0,0 +1,68 @@
+/**
+ * Tests for the deferred-transaction module
+ */
+
+import {
+  createDeferredHash,
+  createDeferredReceipt,
+  describeTransactionResult,
+  getDeferredTransactionId,
+  isDeferredReceipt,
+  isDeferredTransaction,
+} from '../../utils/deferred-transaction';
+import {
+  createPendingTransaction,
+  updateTransactionStatus,
+  pendingTransactions,
+} from '../../utils/transaction-utils';
+
+describe('Deferred Transactions', () => {
+  const to = '0x1234567890123456789012345678901234567890';
+  const wallet = '0xabcdef1234567890abcdef1234567890abcdef12';
+  const realHash = `0x${'ab'.repeat(32)}`;
+
+  beforeEach(() => {
+    pendingTransactions.length = 0;
+  });
+
+  test('placeholder hashes round-trip the transaction ID', () => {
+    const hash = createDeferredHash('tx-1712345678901-42');
+
+    expect(hash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(getDeferredTransactionId(hash)).toBe('tx-1712345678901-42');
+    expect(isDeferredTransaction(hash)).toBe(true);
+  });
+
+  test('real transaction hashes are not deferred', () => {
+    expect(isDeferredTransaction(realHash)).toBe(false);
+    expect(isDeferredTransaction('0x1234')).toBe(false);
+  });
+
+  test('deferred receipts carry the transaction ID', () => {
+    const hash = createDeferredHash('tx-1712345678901-42');
+    const receipt = createDeferredReceipt(hash);
+
+    expect(isDeferredReceipt(receipt)).toBe(true);
+    expect(receipt).toMatchObject({ status: 'pending', transactionId: 'tx-1712345678901-42' });
+    expect(isDeferredReceipt({ status: 'success' })).toBe(false);
+  });
+
+  test('describeTransactionResult never links placeholder hashes', () => {
+    const txId = createPendingTransaction(to, '0', undefined, wallet);
+    const hash = createDeferredHash(txId);
+
+    const pendingMessage = describeTransactionResult(hash);
+    expect(pendingMessage).toContain(`Awaiting signature in your wallet (id ${txId})`);
+    expect(pendingMessage).not.toContain('celoscan');
+
+    updateTransactionStatus(txId, 'signed', realHash);
+    updateTransactionStatus(txId, 'completed');
+    expect(describeTransactionResult(hash)).toContain(`https://celoscan.io/tx/${realHash}`);
+  });
+
+  test('describeTransactionResult links real hashes', () => {
+    expect(describeTransactionResult(realHash)).toBe(
+      `🔗 Transaction sent: [${realHash}](https://celoscan.io/tx/${realHash})`
+    );
+  });
+});
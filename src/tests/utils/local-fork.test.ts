@@ -0,0 +1,41 @@
+/**
+ * Tests for the local fork configuration
+ */
+
+import { parseEther } from 'viem';
+import {
+  DEFAULT_FORK_FUNDING,
+  getLocalForkConfig,
+  isLocalForkAvailable,
+  LocalForkError,
+} from '../../utils/local-fork';
+
+describe('Local fork', () => {
+  describe('getLocalForkConfig', () => {
+    test('is off without CELO_FORK_RPC_URL', () => {
+      expect(getLocalForkConfig({})).toBeUndefined();
+    });
+
+    test('uses the fork URL with the default funding', () => {
+      expect(getLocalForkConfig({ CELO_FORK_RPC_URL: 'http://127.0.0.1:8545' })).toEqual({
+        rpcUrl: 'http://127.0.0.1:8545',
+        funding: DEFAULT_FORK_FUNDING,
+      });
+    });
+
+    test('reads the funding in CELO', () => {
+      const config = getLocalForkConfig({ CELO_FORK_RPC_URL: 'http://127.0.0.1:8545', CELO_FORK_FUNDING: '25.5' });
+
+      expect(config?.funding).toBe(parseEther('25.5'));
+    });
+
+    test('rejects funding that is not an amount', () => {
+      expect(() => getLocalForkConfig({ CELO_FORK_RPC_URL: 'http://127.0.0.1:8545', CELO_FORK_FUNDING: 'lots' }))
+        .toThrow(LocalForkError);
+    });
+  });
+
+  test('isLocalForkAvailable is false when nothing answers', async () => {
+    await expect(isLocalForkAvailable('http://127.0.0.1:9')).resolves.toBe(false);
+  });
+});
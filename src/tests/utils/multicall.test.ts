@@ -0,0 +1,83 @@
+/**
+ * Tests for batched contract reads through Multicall3
+ */
+
+import { erc20Abi, getAddress, parseEther } from 'viem';
+import { MULTICALL3_ADDRESS } from '../../constants/network';
+import { multicall, MulticallCallError } from '../../utils/multicall';
+import { erc20Fixture, MockWalletProvider } from '../helpers/mock-wallet-provider';
+
+describe('multicall', () => {
+  const wallet = getAddress('0xabcdef1234567890abcdef1234567890abcdef12');
+  const tokenA = getAddress('0x00000000000000000000000000000000000000a1');
+  const tokenB = getAddress('0x00000000000000000000000000000000000000b2');
+  const missing = getAddress('0x00000000000000000000000000000000000000c3');
+
+  const balanceOf = (address: string) => ({ address, abi: erc20Abi, functionName: 'balanceOf', args: [wallet] });
+
+  let walletProvider: MockWalletProvider;
+
+  beforeEach(() => {
+    walletProvider = new MockWalletProvider({
+      address: wallet,
+      fixtures: {
+        [tokenA]: erc20Fixture({ balances: { [wallet]: parseEther('1') }, symbol: 'A' }),
+        [tokenB]: erc20Fixture({ balances: { [wallet]: parseEther('2') }, decimals: 6 }),
+      },
+    });
+  });
+
+  const aggregateReads = () => walletProvider.reads.filter(read => read.functionName === 'aggregate3');
+
+  test('reads every call in one aggregate3 request, in call order', async () => {
+    const results = await multicall(walletProvider, [
+      balanceOf(tokenA),
+      balanceOf(tokenB),
+      { address: tokenA, abi: erc20Abi, functionName: 'symbol' },
+      { address: tokenB, abi: erc20Abi, functionName: 'decimals' },
+    ]);
+
+    expect(results).toEqual([
+      { status: 'success', result: parseEther('1') },
+      { status: 'success', result: parseEther('2') },
+      { status: 'success', result: 'A' },
+      { status: 'success', result: 6 },
+    ]);
+    expect(aggregateReads()).toHaveLength(1);
+    expect(aggregateReads()[0].address).toBe(MULTICALL3_ADDRESS);
+  });
+
+  test('fails only the calls that revert', async () => {
+    const results = await multicall(walletProvider, [balanceOf(tokenA), balanceOf(missing)]);
+
+    expect(results[0]).toEqual({ status: 'success', result: parseEther('1') });
+    expect(results[1].status).toBe('failure');
+    expect(results[1].status === 'failure' && results[1].error).toBeInstanceOf(MulticallCallError);
+  });
+
+  test('splits large reads into batches', async () => {
+    const results = await multicall(walletProvider, [tokenA, tokenB, tokenA].map(balanceOf), { batchSize: 2 });
+
+    expect(results.map(result => result.status)).toEqual(['success', 'success', 'success']);
+    expect(aggregateReads().map(read => read.args[0].length)).toEqual([2, 1]);
+  });
+
+  test('falls back to individual reads when Multicall3 cannot be read', async () => {
+    walletProvider.setFixture(MULTICALL3_ADDRESS, {
+      aggregate3: () => {
+        throw new Error('contract not deployed');
+      },
+    });
+
+    const results = await multicall(walletProvider, [balanceOf(tokenA), balanceOf(missing)]);
+
+    expect(results[0]).toEqual({ status: 'success', result: parseEther('1') });
+    expect(results[1].status).toBe('failure');
+    expect(walletProvider.reads.filter(read => read.functionName === 'balanceOf')).toHaveLength(2);
+  });
+
+  test('returns no results for no calls without reading', async () => {
+    await expect(multicall(walletProvider, [])).resolves.toEqual([]);
+    expect(walletProvider.reads).toHaveLength(0);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for the session-manager module
+ */
+
+import {
+  createSession,
+  getSession,
+  endSession,
+  getActiveSessionCount,
+  cleanupSessions,
+  SESSION_EXPIRATION_MS,
+} from '../../utils/session-manager';
+
+describe('Session Manager', () => {
+  const walletA = '0x1234567890123456789012345678901234567890';
+  const walletB = '0xabcdef1234567890abcdef1234567890abcdef12';
+
+  afterEach(() => {
+    jest.useRealTimers();
+    cleanupSessions();
+  });
+
+  test('createSession issues distinct tokens per wallet', () => {
+    const sessionA = createSession(walletA);
+    const sessionB = createSession(walletB);
+
+    expect(sessionA.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(sessionA.token).not.toBe(sessionB.token);
+    expect(getSession(sessionA.token)?.walletAddress).toBe(walletA);
+    expect(getSession(sessionB.token)?.walletAddress).toBe(walletB);
+
+    endSession(sessionA.token);
+    endSession(sessionB.token);
+  });
+
+  test('getSession returns undefined for unknown tokens', () => {
+    expect(getSession('not-a-token')).toBeUndefined();
+  });
+
+  test('endSession removes the session', () => {
+    const session = createSession(walletA);
+
+    expect(endSession(session.token)).toBe(true);
+    expect(getSession(session.token)).toBeUndefined();
+    expect(endSession(session.token)).toBe(false);
+  });
+
+  test('sessions expire after the idle window', () => {
+    jest.useFakeTimers();
+    const session = createSession(walletA);
+
+    jest.advanceTimersByTime(SESSION_EXPIRATION_MS - 1000);
+    expect(getSession(session.token)).toBeDefined();
+
+    // Activity refreshes the window
+    jest.advanceTimersByTime(SESSION_EXPIRATION_MS - 1000);
+    expect(getSession(session.token)).toBeDefined();
+
+    jest.advanceTimersByTime(SESSION_EXPIRATION_MS);
+    expect(getSession(session.token)).toBeUndefined();
+  });
+
+  test('sessions end at their hard expiry even when active', () => {
+    jest.useFakeTimers();
+    const session = createSession(walletA, Date.now() + 60 * 1000);
+
+    jest.advanceTimersByTime(30 * 1000);
+    expect(getSession(session.token)).toBeDefined();
+
+    jest.advanceTimersByTime(30 * 1000);
+    expect(getSession(session.token)).toBeUndefined();
+  });
+
+  test('cleanupSessions returns the tokens of expired sessions', () => {
+    jest.useFakeTimers();
+    const expired = createSession(walletA);
+
+    jest.advanceTimersByTime(SESSION_EXPIRATION_MS);
+    const active = createSession(walletB);
+
+    expect(getActiveSessionCount()).toBe(1);
+    expect(cleanupSessions()).toEqual([expired.token]);
+
+    endSession(active.token);
+  });
+});
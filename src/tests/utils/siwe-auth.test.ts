@@ -0,0 +1,147 @@
+/**
+ * Tests for the siwe-auth module
+ */
+
+import { privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage } from 'viem/siwe';
+import {
+  issueNonce,
+  verifySignIn,
+  getSignInDomains,
+  cleanupNonces,
+  SiweVerificationError,
+  NONCE_EXPIRATION_MS,
+} from '../../utils/siwe-auth';
+import { SESSION_EXPIRATION_MS } from '../../utils/session-manager';
+
+describe('SIWE Auth', () => {
+  const DOMAINS = ['app.example.com'];
+
+  // Well-known test key, never use it with real funds
+  const account = privateKeyToAccount(
+    '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+  );
+  const otherAccount = privateKeyToAccount(
+    '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+  );
+
+  const buildMessage = (nonce: string, overrides: Record<string, any> = {}) =>
+    createSiweMessage({
+      address: account.address,
+      chainId: 42220,
+      domain: 'app.example.com',
+      nonce,
+      uri: 'https://app.example.com',
+      version: '1',
+      ...overrides,
+    });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    cleanupNonces();
+  });
+
+  test('verifySignIn accepts a valid signature and returns the wallet', async () => {
+    const { nonce } = issueNonce();
+    const message = buildMessage(nonce);
+    const signature = await account.signMessage({ message });
+
+    const result = await verifySignIn(message, signature, DOMAINS);
+
+    expect(result.walletAddress).toBe(account.address);
+    expect(result.chainId).toBe(42220);
+    expect(result.expiresAt).toBeLessThanOrEqual(Date.now() + SESSION_EXPIRATION_MS);
+  });
+
+  test('verifySignIn rejects a signature from another wallet', async () => {
+    const { nonce } = issueNonce();
+    const message = buildMessage(nonce);
+    const signature = await otherAccount.signMessage({ message });
+
+    await expect(verifySignIn(message, signature, DOMAINS)).rejects.toThrow(SiweVerificationError);
+  });
+
+  test('nonces cannot be reused', async () => {
+    const { nonce } = issueNonce();
+    const message = buildMessage(nonce);
+    const signature = await account.signMessage({ message });
+
+    await verifySignIn(message, signature, DOMAINS);
+    await expect(verifySignIn(message, signature, DOMAINS)).rejects.toThrow(/nonce/);
+  });
+
+  test('verifySignIn rejects nonces that were never issued', async () => {
+    const message = buildMessage('notissuedbyserver1');
+    const signature = await account.signMessage({ message });
+
+    await expect(verifySignIn(message, signature, DOMAINS)).rejects.toThrow(/nonce/);
+  });
+
+  test('verifySignIn rejects expired nonces', async () => {
+    jest.useFakeTimers();
+    const { nonce } = issueNonce();
+    const message = buildMessage(nonce);
+    const signature = await account.signMessage({ message });
+
+    jest.advanceTimersByTime(NONCE_EXPIRATION_MS);
+    await expect(verifySignIn(message, signature, DOMAINS)).rejects.toThrow(/nonce/);
+  });
+
+  test('verifySignIn rejects messages for other domains and chains', async () => {
+    const first = issueNonce();
+    const wrongDomain = buildMessage(first.nonce, { domain: 'evil.example.com' });
+    await expect(
+      verifySignIn(wrongDomain, await account.signMessage({ message: wrongDomain }), DOMAINS)
+    ).rejects.toThrow(SiweVerificationError);
+
+    const second = issueNonce();
+    const wrongChain = buildMessage(second.nonce, { chainId: 1 });
+    await expect(
+      verifySignIn(wrongChain, await account.signMessage({ message: wrongChain }), DOMAINS)
+    ).rejects.toThrow(/unsupported chain/);
+  });
+
+  test('verifySignIn rejects relayed messages even when the relay names their domain as its origin', async () => {
+    // A phishing site relays a message its visitor signed for the phishing domain
+    const { nonce } = issueNonce();
+    const relayed = buildMessage(nonce, { domain: 'phishing.example.com', uri: 'https://phishing.example.com' });
+
+    await expect(
+      verifySignIn(relayed, await account.signMessage({ message: relayed }), DOMAINS)
+    ).rejects.toThrow(/another domain/);
+  });
+
+  test('verifySignIn refuses every message when no domain is configured', async () => {
+    const { nonce } = issueNonce();
+    const message = buildMessage(nonce);
+
+    await expect(
+      verifySignIn(message, await account.signMessage({ message }), [])
+    ).rejects.toThrow(/SIWE_DOMAIN is not configured/);
+  });
+
+  test('verifySignIn only accepts the chain the agent runs on', async () => {
+    const { nonce } = issueNonce();
+    const alfajores = buildMessage(nonce, { chainId: 44787 });
+
+    await expect(
+      verifySignIn(alfajores, await account.signMessage({ message: alfajores }), DOMAINS)
+    ).rejects.toThrow(/unsupported chain 44787/);
+  });
+
+  test('getSignInDomains reads a comma-separated allowlist from SIWE_DOMAIN', () => {
+    expect(getSignInDomains({ SIWE_DOMAIN: 'app.example.com, celo.example.com' })).toEqual(['app.example.com', 'celo.example.com']);
+    expect(getSignInDomains({})).toEqual([]);
+  });
+
+  test('session expiry is capped by the message expiration time', async () => {
+    const { nonce } = issueNonce();
+    const expirationTime = new Date(Date.now() + 60 * 1000);
+    const message = buildMessage(nonce, { expirationTime });
+    const signature = await account.signMessage({ message });
+
+    const result = await verifySignIn(message, signature, DOMAINS);
+
+    expect(result.expiresAt).toBe(expirationTime.getTime());
+  });
+});
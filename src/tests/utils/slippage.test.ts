@@ -0,0 +1,67 @@
+/**
+ * Tests for the basis-point slippage and price impact math
+ */
+
+import { parseEther } from 'viem';
+import {
+  formatBps,
+  getMaxAmountIn,
+  getMaxPriceImpactBps,
+  getMinAmountOut,
+  getPriceImpactBps,
+  percentToBps,
+  splitSlippageBps,
+} from '../../utils/slippage';
+
+describe('slippage', () => {
+  test('converts percentages to basis points and back', () => {
+    expect(percentToBps(0.5)).toBe(BigInt(50));
+    expect(percentToBps(0.125)).toBe(BigInt(13));
+    expect(formatBps(BigInt(50))).toBe('0.50%');
+  });
+
+  test('keeps the minimum output within the tolerance instead of rounding it to zero', () => {
+    expect(getMinAmountOut(parseEther('2'), percentToBps(0.5))).toBe(parseEther('1.99'));
+    expect(getMinAmountOut(parseEther('2'), BigInt(0))).toBe(parseEther('2'));
+  });
+
+  test('rounds the maximum input up', () => {
+    expect(getMaxAmountIn(parseEther('1.5'), BigInt(100))).toBe(parseEther('1.515'));
+    expect(getMaxAmountIn(BigInt(3), BigInt(50))).toBe(BigInt(4));
+  });
+
+  test('splits a tolerance across hops without exceeding it', () => {
+    expect(splitSlippageBps(BigInt(100), 1, 'exactIn')).toBe(BigInt(100));
+    expect(splitSlippageBps(BigInt(100), 2, 'exactIn')).toBe(BigInt(50));
+    expect(splitSlippageBps(BigInt(100), 2, 'exactOut')).toBe(BigInt(49));
+
+    for (const side of ['exactIn', 'exactOut'] as const) {
+      for (const hops of [2, 3]) {
+        const perHop = splitSlippageBps(BigInt(250), hops, side);
+        let amount = parseEther('1');
+        for (let i = 0; i < hops; i++) {
+          amount = side === 'exactIn' ? getMinAmountOut(amount, perHop) : getMaxAmountIn(amount, perHop);
+        }
+        if (side === 'exactIn') {
+          expect(amount).toBeGreaterThanOrEqual(getMinAmountOut(parseEther('1'), BigInt(250)));
+        } else {
+          expect(amount).toBeLessThanOrEqual(getMaxAmountIn(parseEther('1'), BigInt(250)));
+        }
+      }
+    }
+  });
+
+  test('measures price impact against a reference quote', () => {
+    const reference = { amountIn: parseEther('0.006'), amountOut: parseEther('0.012') };
+
+    expect(getPriceImpactBps({ amountIn: parseEther('6'), amountOut: parseEther('6') }, reference)).toBe(BigInt(5000));
+    expect(getPriceImpactBps({ amountIn: parseEther('6'), amountOut: parseEther('11.94') }, reference)).toBe(BigInt(50));
+    expect(getPriceImpactBps({ amountIn: parseEther('6'), amountOut: parseEther('13') }, reference)).toBe(BigInt(0));
+  });
+
+  test('reads the price impact limit from MAX_PRICE_IMPACT_BPS', () => {
+    expect(getMaxPriceImpactBps({})).toBe(BigInt(300));
+    expect(getMaxPriceImpactBps({ MAX_PRICE_IMPACT_BPS: '150' })).toBe(BigInt(150));
+    expect(getMaxPriceImpactBps({ MAX_PRICE_IMPACT_BPS: 'high' })).toBe(BigInt(300));
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the transaction-simulator module
+ */
+
+import { BaseError, ExecutionRevertedError, HttpRequestError, encodeErrorResult } from 'viem';
+import { simulateTransaction } from '../../utils/transaction-simulator';
+import {
+  createPendingTransaction,
+  getTransactionById,
+  getTransactions,
+  pendingTransactions,
+} from '../../utils/transaction-utils';
+
+describe('Transaction Simulator', () => {
+  const from = '0xabcdef1234567890abcdef1234567890abcdef12';
+  const to = '0x1234567890123456789012345678901234567890';
+  const request = { from, to, value: '0', data: '0x095ea7b3' };
+
+  const mockClient = (callError?: Error) => ({
+    call: callError ? jest.fn().mockRejectedValue(callError) : jest.fn().mockResolvedValue({ data: '0x' }),
+    estimateGas: jest.fn().mockResolvedValue(BigInt(46000)),
+  });
+
+  beforeEach(() => {
+    pendingTransactions.length = 0;
+  });
+
+  test('simulateTransaction returns the gas estimate of a successful call', async () => {
+    const client = mockClient();
+
+    const simulation = await simulateTransaction(client as any, request);
+
+    expect(simulation).toMatchObject({ success: true, gasEstimate: '46000', dependsOnPending: false });
+    expect(client.call).toHaveBeenCalledWith(expect.objectContaining({ account: from, to, value: BigInt(0) }));
+  });
+
+  test('simulateTransaction decodes Error(string) revert data', async () => {
+    const data = encodeErrorResult({
+      abi: [{ type: 'error', name: 'Error', inputs: [{ type: 'string', name: 'message' }] }],
+      errorName: 'Error',
+      args: ['35'],
+    });
+    const rpcError = Object.assign(new BaseError('execution reverted'), { data });
+
+    const simulation = await simulateTransaction(
+      mockClient(new BaseError('Call failed', { cause: rpcError })) as any,
+      request
+    );
+
+    expect(simulation).toMatchObject({ success: false, revertReason: '35' });
+  });
+
+  test('simulateTransaction reports reverts without data', async () => {
+    const simulation = await simulateTransaction(
+      mockClient(new ExecutionRevertedError({ message: 'execution reverted: STF' })) as any,
+      request
+    );
+
+    expect(simulation.success).toBe(false);
+    expect(simulation.revertReason).toMatch(/STF/);
+  });
+
+  test('simulateTransaction separates RPC failures from reverts', async () => {
+    const simulation = await simulateTransaction(
+      mockClient(new HttpRequestError({ url: 'https://forno.celo.org', status: 503 })) as any,
+      request
+    );
+
+    expect(simulation.success).toBe(false);
+    expect(simulation.revertReason).toBeUndefined();
+    expect(simulation.error).toBeTruthy();
+  });
+
+  test('conclusive reverts are stored as failed instead of pending', () => {
+    const txId = createPendingTransaction(to, '0', '0x095ea7b3', from, {
+      success: false,
+      revertReason: 'Insufficient allowance',
+      dependsOnPending: false,
+      simulatedAt: Date.now(),
+    });
+
+    expect(getTransactionById(txId)).toMatchObject({
+      status: 'failed',
+      error: 'Simulation reverted: Insufficient allowance',
+    });
+    expect(getTransactions('pending')).toHaveLength(0);
+  });
+
+  test('reverts that depend on unconfirmed transactions stay pending', () => {
+    const txId = createPendingTransaction(to, '0', '0x095ea7b3', from, {
+      success: false,
+      revertReason: 'Insufficient allowance',
+      dependsOnPending: true,
+      simulatedAt: Date.now(),
+    });
+
+    expect(getTransactionById(txId)?.status).toBe('pending');
+    expect(getTransactionById(txId)?.simulation?.revertReason).toBe('Insufficient allowance');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for the transaction-store module
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryTransactionStore, FileTransactionStore } from '../../utils/transaction-store';
+import { PendingTransaction } from '../../utils/transaction-utils';
+
+const walletA = '0x1234567890123456789012345678901234567890';
+const walletB = '0xabcdef1234567890abcdef1234567890abcdef12';
+
+const buildTx = (id: string, walletAddress: string, timestamp: number): PendingTransaction => ({
+  id,
+  to: '0x471EcE3750Da237f93B8E339c536989b8978a438',
+  value: '0',
+  status: 'pending',
+  timestamp,
+  metadata: {
+    source: 'frontend-wallet',
+    walletAddress,
+    requiresSignature: true,
+    dataSize: 0,
+    dataType: 'native-transfer',
+  },
+});
+
+describe('Transaction Store', () => {
+  describe('InMemoryTransactionStore', () => {
+    test('list filters by wallet and status and paginates newest first', () => {
+      const store = new InMemoryTransactionStore();
+      store.insert(buildTx('tx-1', walletA, 1000));
+      store.insert(buildTx('tx-2', walletB, 2000));
+      store.insert(buildTx('tx-3', walletA.toUpperCase().replace('0X', '0x'), 3000));
+      store.update('tx-1', { status: 'completed' });
+
+      expect(store.list({ walletAddress: walletA }).map(tx => tx.id)).toEqual(['tx-1', 'tx-3']);
+      expect(store.list({ status: 'pending' }).map(tx => tx.id)).toEqual(['tx-2', 'tx-3']);
+      expect(store.list({ walletAddress: walletA, limit: 1 }).map(tx => tx.id)).toEqual(['tx-3']);
+      expect(store.list({ walletAddress: walletA, before: 3000 }).map(tx => tx.id)).toEqual(['tx-1']);
+    });
+
+    test('list pages through transactions created in the same millisecond', () => {
+      const store = new InMemoryTransactionStore();
+      ['tx-1000-1', 'tx-1000-2', 'tx-1000-3', 'tx-900-1'].forEach(id => store.insert(buildTx(id, walletA, Number(id.split('-')[1]))));
+
+      const firstPage = store.list({ walletAddress: walletA, limit: 2 });
+      expect(firstPage.map(tx => tx.id)).toEqual(['tx-1000-3', 'tx-1000-2']);
+
+      const last = firstPage[firstPage.length - 1];
+      const secondPage = store.list({ walletAddress: walletA, limit: 2, before: { timestamp: last.timestamp, id: last.id } });
+      expect(secondPage.map(tx => tx.id)).toEqual(['tx-1000-1', 'tx-900-1']);
+    });
+
+    test('update returns undefined for unknown transactions', () => {
+      const store = new InMemoryTransactionStore();
+      expect(store.update('tx-missing', { status: 'signed' })).toBeUndefined();
+    });
+  });
+
+  describe('FileTransactionStore', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tx-store-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('transactions survive a reload', () => {
+      const filePath = path.join(tempDir, 'nested', 'transactions.json');
+      const store = new FileTransactionStore(filePath);
+      store.insert(buildTx('tx-1', walletA, 1000));
+      store.update('tx-1', { status: 'signed', hash: '0xabc' });
+
+      const reloaded = new FileTransactionStore(filePath);
+      expect(reloaded.get('tx-1')).toMatchObject({ status: 'signed', hash: '0xabc' });
+      expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+    });
+
+    test('a corrupt file is reported instead of silently discarded', () => {
+      const filePath = path.join(tempDir, 'transactions.json');
+      fs.writeFileSync(filePath, '{not json');
+
+      expect(() => new FileTransactionStore(filePath)).toThrow(/Failed to load transaction store/);
+    });
+  });
+});
@@ -10,9 +10,25 @@
 
 import { 
   createPendingTransaction, 
+  getTransactionHistory,
+  getTransactionCursor,
+  parseTransactionCursor,
+  updateTransactionStatus,
+  getTransactionById,
+  getTransactions,
+  expirePendingTransactions,
+  withTransactionBundle,
+  getTransactionBundle,
+  getTransactionBundles,
+  signTransactionBundle,
+  IllegalTransactionTransitionError,
+  InvalidTransactionStatusError,
   pendingTransactions,
   PendingTransaction
 } from '../../utils/transaction-utils';
+import { encodeFunctionData } from 'viem';
+import { UBESWAP_ROUTER, UBESWAP_ROUTER_ABI } from '../../action-providers/mento-swap/constants';
+import { SWAP_DEADLINE_SECONDS } from '../../constants/network';
 
 describe('Transaction Utilities', () => {
   beforeEach(() => {
@@ -64,15 +80,17 @@ describe('Transaction Utilities', () => {
 
   test('createPendingTransaction handles contract data correctly', () => {
     createPendingTransaction(
-      '0x1234567890123456789012345678901234567890',
+      '0x765DE816845861e75A25fCA122bb6898B8B1282a', // cUSD
       '0',
-      '0xa9059cbb0000000000000000000000001234567890123456789012345678901234567890' // Transfer function
+      // approve(Mento Broker, 10 cUSD)
+      '0x095ea7b3000000000000000000000000777a8255ca72412f0d706dc03c9d1987306b4cad0000000000000000000000000000000000000000000000008ac7230489e80000'
     );
     
     const tx = pendingTransactions[0];
     expect(tx.data).toMatch(/^0x/);
     expect(tx.metadata?.dataType).toBe('token-approval');
     expect(tx.metadata?.dataSize).toBeGreaterThan(0);
+    expect(tx.metadata?.decoded?.summary).toBe('approve 10 cUSD for Mento Broker');
   });
 
   test('createPendingTransaction handles wallet address correctly', () => {
@@ -87,4 +105,207 @@ describe('Transaction Utilities', () => {
     
     expect(pendingTransactions[0].metadata?.walletAddress).toBe(walletAddress);
   });
-}); 
\ No newline at end of file
+
+  test('getTransactionHistory returns only the wallet\'s transactions, newest first', () => {
+    const walletA = '0xabcdef1234567890abcdef1234567890abcdef12';
+    const walletB = '0x1234567890123456789012345678901234567890';
+    const nowSpy = jest.spyOn(Date, 'now');
+
+    nowSpy.mockReturnValue(1000);
+    const first = createPendingTransaction(walletB, '0', undefined, walletA);
+    nowSpy.mockReturnValue(2000);
+    createPendingTransaction(walletA, '0', undefined, walletB);
+    nowSpy.mockReturnValue(3000);
+    const second = createPendingTransaction(walletB, '0', undefined, walletA);
+
+    updateTransactionStatus(first, 'signed', '0xabc');
+    updateTransactionStatus(first, 'completed');
+
+    const history = getTransactionHistory(walletA.toUpperCase().replace('0X', '0x'));
+    expect(history.map(tx => tx.id)).toEqual([second, first]);
+    expect(getTransactionHistory(walletA, { status: 'completed' }).map(tx => tx.id)).toEqual([first]);
+    expect(getTransactionHistory(walletA, { limit: 1 }).map(tx => tx.id)).toEqual([second]);
+    nowSpy.mockRestore();
+  });
+
+  test('getTransactionHistory pages with cursors that split equal timestamps', () => {
+    const wallet = '0xabcdef1234567890abcdef1234567890abcdef12';
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const ids = [1, 2, 3].map(() => createPendingTransaction(wallet, '0', undefined, wallet));
+    nowSpy.mockRestore();
+
+    const seen: string[] = [];
+    let before: ReturnType<typeof parseTransactionCursor>;
+    for (let page = 0; page < ids.length; page++) {
+      const [tx] = getTransactionHistory(wallet, { limit: 1, before });
+      seen.push(tx.id);
+      before = parseTransactionCursor(getTransactionCursor(tx));
+    }
+
+    expect([...seen].sort()).toEqual([...ids].sort());
+    expect(getTransactionHistory(wallet, { before })).toEqual([]);
+    expect(parseTransactionCursor('1000')).toBe(1000);
+    expect(parseTransactionCursor('1000:')).toBeUndefined();
+    expect(parseTransactionCursor('soon')).toBeUndefined();
+  });
+
+  test('updateTransactionStatus follows the legal transitions', () => {
+    const txId = createPendingTransaction('0x1234567890123456789012345678901234567890', '0');
+
+    expect(updateTransactionStatus(txId, 'signed', '0xabc')?.status).toBe('signed');
+    expect(updateTransactionStatus(txId, 'completed')?.status).toBe('completed');
+    expect(getTransactionById(txId)?.hash).toBe('0xabc');
+  });
+
+  test('updateTransactionStatus rejects illegal transitions and unknown statuses', () => {
+    const txId = createPendingTransaction('0x1234567890123456789012345678901234567890', '0');
+
+    expect(() => updateTransactionStatus(txId, 'completed')).toThrow(IllegalTransactionTransitionError);
+    expect(() => updateTransactionStatus(txId, 'bogus' as any)).toThrow(InvalidTransactionStatusError);
+
+    updateTransactionStatus(txId, 'rejected');
+    expect(() => updateTransactionStatus(txId, 'pending')).toThrow(IllegalTransactionTransitionError);
+    expect(updateTransactionStatus('tx-missing', 'signed')).toBeUndefined();
+  });
+
+  test('pending transactions expire after the TTL and can no longer be signed', () => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const txId = createPendingTransaction('0x1234567890123456789012345678901234567890', '0');
+    const { expiresAt } = getTransactionById(txId)!;
+
+    nowSpy.mockReturnValue(expiresAt! - 1);
+    expect(getTransactions('pending')).toHaveLength(1);
+
+    nowSpy.mockReturnValue(expiresAt!);
+    expect(getTransactionById(txId)?.status).toBe('expired');
+    expect(() => updateTransactionStatus(txId, 'signed')).toThrow(IllegalTransactionTransitionError);
+    nowSpy.mockRestore();
+  });
+
+  test('expirePendingTransactions returns the expired transaction IDs', () => {
+    const txId = createPendingTransaction('0x1234567890123456789012345678901234567890', '0');
+    const { expiresAt } = getTransactionById(txId)!;
+
+    expect(expirePendingTransactions(expiresAt! - 1)).toEqual([]);
+    expect(expirePendingTransactions(expiresAt!)).toEqual([txId]);
+    expect(getTransactions('pending')).toHaveLength(0);
+  });
+});
+
+describe('Transaction Bundles', () => {
+  const wallet = '0xabcdef1234567890abcdef1234567890abcdef12';
+  const hash = `0x${'ab'.repeat(32)}`;
+
+  beforeEach(() => {
+    pendingTransactions.length = 0;
+  });
+
+  // Create an approve + deposit bundle and return its step IDs
+  async function createBundle(): Promise<string[]> {
+    return withTransactionBundle('Provide 5 CELO to ICHI vault', async () => [
+      createPendingTransaction('0x1111111111111111111111111111111111111111', '0', '0x095ea7b3', wallet),
+      createPendingTransaction('0x2222222222222222222222222222222222222222', '0', '0xdeadbeef', wallet),
+    ]);
+  }
+
+  test('only the first step is released to the wallet', async () => {
+    const [approveId, depositId] = await createBundle();
+
+    expect(getTransactionById(approveId)).toMatchObject({ status: 'pending', bundle: { step: 1 } });
+    expect(getTransactionById(depositId)).toMatchObject({ status: 'queued', bundle: { step: 2 } });
+    expect(getTransactionById(depositId)?.expiresAt).toBeUndefined();
+    expect(getTransactions('pending').map(tx => tx.id)).toEqual([approveId]);
+    expect(() => updateTransactionStatus(depositId, 'signed', hash)).toThrow(IllegalTransactionTransitionError);
+  });
+
+  test('the next step is released once the previous one is confirmed', async () => {
+    const [approveId, depositId] = await createBundle();
+    const bundleId = getTransactionById(approveId)!.bundle!.id;
+
+    updateTransactionStatus(approveId, 'signed', hash);
+    expect(getTransactionById(depositId)?.status).toBe('queued');
+
+    updateTransactionStatus(approveId, 'completed');
+    expect(getTransactionById(depositId)?.status).toBe('pending');
+    expect(getTransactionById(depositId)?.expiresAt).toBeDefined();
+    expect(getTransactionBundle(bundleId)).toMatchObject({ status: 'in-progress', currentStep: 2, totalSteps: 2 });
+
+    updateTransactionStatus(depositId, 'signed', `0x${'cd'.repeat(32)}`);
+    updateTransactionStatus(depositId, 'completed');
+    expect(getTransactionBundle(bundleId)).toMatchObject({ status: 'completed', currentStep: undefined });
+  });
+
+  test('a released Ubeswap swap gets a deadline counted from its release', async () => {
+    const swap = (deadline: bigint) => encodeFunctionData({
+      abi: UBESWAP_ROUTER_ABI,
+      functionName: 'swapExactTokensForTokens',
+      args: [BigInt(1000), BigInt(990), ['0x1111111111111111111111111111111111111111', '0x2222222222222222222222222222222222222222'], wallet, deadline],
+    });
+    const plannedAt = 1_700_000_000_000;
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(plannedAt);
+    const [approveId, swapId] = await withTransactionBundle('Swap 1000 CELO to cUSD', async () => [
+      createPendingTransaction('0x1111111111111111111111111111111111111111', '0', '0x095ea7b3', wallet),
+      createPendingTransaction(UBESWAP_ROUTER, '0', swap(BigInt(plannedAt / 1000 + SWAP_DEADLINE_SECONDS)), wallet),
+    ]);
+
+    // The approval takes longer to confirm than the swap's deadline
+    updateTransactionStatus(approveId, 'signed', hash);
+    const releasedAt = plannedAt + 2 * SWAP_DEADLINE_SECONDS * 1000;
+    nowSpy.mockReturnValue(releasedAt);
+    updateTransactionStatus(approveId, 'completed');
+    const released = getTransactionById(swapId)!;
+    nowSpy.mockRestore();
+
+    expect(released.status).toBe('pending');
+    expect(released.data).toBe(swap(BigInt(releasedAt / 1000 + SWAP_DEADLINE_SECONDS)));
+    expect(released.metadata?.decoded?.args.deadline).toBe(String(releasedAt / 1000 + SWAP_DEADLINE_SECONDS));
+  });
+
+  test('a failed or rejected step cancels the remaining steps', async () => {
+    const [approveId, depositId] = await createBundle();
+    const bundleId = getTransactionById(approveId)!.bundle!.id;
+
+    updateTransactionStatus(approveId, 'rejected');
+
+    expect(getTransactionById(depositId)).toMatchObject({ status: 'cancelled', error: `Step 1 (${approveId}) rejected` });
+    expect(getTransactionBundle(bundleId)?.status).toBe('failed');
+  });
+
+  test('an expired step cancels the remaining steps', async () => {
+    const [approveId, depositId] = await createBundle();
+
+    expirePendingTransactions(getTransactionById(approveId)!.expiresAt!);
+
+    expect(getTransactionById(approveId)?.status).toBe('expired');
+    expect(getTransactionById(depositId)?.status).toBe('cancelled');
+  });
+
+  test('signTransactionBundle signs every remaining step as one batch', async () => {
+    const [approveId, depositId] = await createBundle();
+    const bundleId = getTransactionById(approveId)!.bundle!.id;
+
+    const signed = signTransactionBundle(bundleId, hash, 'batch-1');
+
+    expect(signed?.map(tx => tx.id)).toEqual([approveId, depositId]);
+    expect(signed?.every(tx => tx.status === 'signed' && tx.hash === hash && tx.batchId === 'batch-1')).toBe(true);
+    expect(signTransactionBundle('bundle-unknown', hash, 'batch-1')).toBeUndefined();
+  });
+
+  test('signTransactionBundle refuses bundles whose steps can no longer be signed', async () => {
+    const [approveId] = await createBundle();
+    updateTransactionStatus(approveId, 'rejected');
+
+    expect(() => signTransactionBundle(getTransactionById(approveId)!.bundle!.id, hash, 'batch-1'))
+      .toThrow(IllegalTransactionTransitionError);
+  });
+
+  test('getTransactionBundles lists the wallet\'s bundles', async () => {
+    await createBundle();
+    createPendingTransaction('0x3333333333333333333333333333333333333333', '0.1', undefined, wallet);
+
+    const bundles = getTransactionBundles(wallet.toUpperCase());
+    expect(bundles).toHaveLength(1);
+    expect(bundles[0]).toMatchObject({ label: 'Provide 5 CELO to ICHI vault', walletAddress: wallet, totalSteps: 2 });
+    expect(getTransactionBundles('0x0000000000000000000000000000000000000000')).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for the transaction-watcher module
+ */
+
+import {
+  createPendingTransaction,
+  updateTransactionStatus,
+  getTransactionById,
+  signTransactionBundle,
+  withTransactionBundle,
+  pendingTransactions,
+} from '../../utils/transaction-utils';
+import { encodeFunctionData, parseAbi } from 'viem';
+import { confirmTransaction, setTransactionWatcherClient } from '../../utils/transaction-watcher';
+
+describe('Transaction Watcher', () => {
+  const walletAddress = '0xabcdef1234567890abcdef1234567890abcdef12';
+  const to = '0x1234567890123456789012345678901234567890';
+  const data = '0x095ea7b3';
+  const hash = `0x${'ab'.repeat(32)}` as `0x${string}`;
+
+  const receipt = {
+    blockNumber: BigInt(123),
+    gasUsed: BigInt(21000),
+    effectiveGasPrice: BigInt(5000000000),
+    status: 'success',
+    from: walletAddress,
+  };
+  const minedTx = { from: walletAddress, to, input: data, value: BigInt(0) };
+
+  const mockClient = (receiptOverrides = {}, txOverrides = {}) => {
+    const client = {
+      waitForTransactionReceipt: jest.fn().mockResolvedValue({ ...receipt, ...receiptOverrides }),
+      getTransaction: jest.fn().mockResolvedValue({ ...minedTx, ...txOverrides }),
+    };
+    setTransactionWatcherClient(client as any);
+    return client;
+  };
+
+  const createSignedTransaction = () => {
+    const txId = createPendingTransaction(to, '0', data, walletAddress);
+    updateTransactionStatus(txId, 'signed', hash);
+    return txId;
+  };
+
+  beforeEach(() => {
+    pendingTransactions.length = 0;
+  });
+
+  test('confirmTransaction marks matching successful transactions completed with receipt details', async () => {
+    const client = mockClient();
+    const txId = createSignedTransaction();
+
+    const tx = await confirmTransaction(txId, hash);
+
+    expect(client.waitForTransactionReceipt).toHaveBeenCalledWith(expect.objectContaining({ hash }));
+    expect(tx?.status).toBe('completed');
+    expect(tx?.receipt).toMatchObject({
+      blockNumber: '123',
+      gasUsed: '21000',
+      effectiveGasPrice: '5000000000',
+      status: 'success',
+    });
+  });
+
+  test('confirmTransaction marks reverted transactions failed', async () => {
+    mockClient({ status: 'reverted' });
+    const txId = createSignedTransaction();
+
+    const tx = await confirmTransaction(txId, hash);
+
+    expect(tx?.status).toBe('failed');
+    expect(tx?.error).toMatch(/reverted/);
+    expect(tx?.receipt?.status).toBe('reverted');
+  });
+
+  test('confirmTransaction rejects hashes of a different transaction', async () => {
+    mockClient({}, { from: to, input: '0xdeadbeef' });
+    const txId = createSignedTransaction();
+
+    const tx = await confirmTransaction(txId, hash);
+
+    expect(tx?.status).toBe('failed');
+    expect(tx?.error).toMatch(/calldata differs/);
+    expect(tx?.error).toMatch(/sent from/);
+  });
+
+  describe('batched transactions', () => {
+    // Smart-account executeBatch((address,uint256,bytes)[]), run through the wallet's own contract
+    const executeBatchAbi = parseAbi(['function executeBatch((address target, uint256 value, bytes data)[] calls)']);
+
+    const createBatch = async () => {
+      const txIds = await withTransactionBundle('Provide 5 CELO to ICHI vault', async () => [
+        createPendingTransaction(to, '0', data, walletAddress),
+        createPendingTransaction(to, '0', '0xdeadbeef', walletAddress),
+      ]);
+      signTransactionBundle(getTransactionById(txIds[0])!.bundle!.id, hash, 'batch-1');
+      return txIds;
+    };
+
+    test('confirmTransaction completes steps whose calls are in the batch transaction', async () => {
+      const input = encodeFunctionData({
+        abi: executeBatchAbi,
+        functionName: 'executeBatch',
+        args: [[{ target: to, value: BigInt(0), data }, { target: to, value: BigInt(0), data: '0xdeadbeef' }]],
+      });
+      mockClient({}, { to: walletAddress, input });
+      const txIds = await createBatch();
+
+      for (const txId of txIds) {
+        await expect(confirmTransaction(txId, hash)).resolves.toMatchObject({ status: 'completed', batchId: 'batch-1' });
+      }
+    });
+
+    test('confirmTransaction rejects batch hashes of unrelated transactions', async () => {
+      const input = encodeFunctionData({
+        abi: executeBatchAbi,
+        functionName: 'executeBatch',
+        args: [[{ target: walletAddress, value: BigInt(0), data: '0x12345678' }]],
+      });
+      mockClient({}, { from: to, to: walletAddress, input });
+      const [txId] = await createBatch();
+
+      const tx = await confirmTransaction(txId, hash);
+
+      expect(tx?.status).toBe('failed');
+      expect(tx?.error).toMatch(/batch sent from/);
+      expect(tx?.error).toMatch(/batch does not call/);
+      expect(tx?.error).toMatch(/requested calldata/);
+    });
+  });
+
+  const timeoutError = () => {
+    const timeout = new Error('Timed out');
+    timeout.name = 'WaitForTransactionReceiptTimeoutError';
+    return timeout;
+  };
+
+  test('confirmTransaction keeps the transaction signed when no receipt arrived, as it may still be mined', async () => {
+    const client = mockClient();
+    client.waitForTransactionReceipt.mockRejectedValue(timeoutError());
+    // Still pending: its nonce 7 is not used yet
+    client.getTransaction.mockResolvedValue({ ...minedTx, nonce: 7 });
+    Object.assign(client, { getTransactionCount: jest.fn().mockResolvedValue(7) });
+    const txIds = await withTransactionBundle('Swap 1 CELO to cUSD', async () => [
+      createPendingTransaction(to, '0', data, walletAddress),
+      createPendingTransaction(to, '0', data, walletAddress),
+    ]);
+    updateTransactionStatus(txIds[0], 'signed', hash);
+
+    const tx = await confirmTransaction(txIds[0], hash, { maxAttempts: 3, retryDelayMs: 0 });
+
+    expect(client.waitForTransactionReceipt).toHaveBeenCalledTimes(3);
+    expect(tx?.status).toBe('signed');
+    // The step waiting on it stays queued until the receipt settles it
+    expect(getTransactionById(txIds[1])?.status).toBe('queued');
+  });
+
+  test('confirmTransaction marks the transaction failed when another transaction took its nonce', async () => {
+    const client = mockClient();
+    client.waitForTransactionReceipt.mockRejectedValue(timeoutError());
+    client.getTransaction.mockResolvedValue({ ...minedTx, nonce: 7 });
+    const notFound = new Error('Receipt not found');
+    notFound.name = 'TransactionReceiptNotFoundError';
+    Object.assign(client, {
+      getTransactionCount: jest.fn().mockResolvedValue(8),
+      getTransactionReceipt: jest.fn().mockRejectedValue(notFound),
+    });
+    const txId = createSignedTransaction();
+
+    const tx = await confirmTransaction(txId, hash, { maxAttempts: 1 });
+
+    expect(tx?.status).toBe('failed');
+    expect(tx?.error).toMatch(/replaced by another transaction with the same nonce/);
+  });
+
+  test('confirmTransaction retries RPC errors before giving up', async () => {
+    const client = mockClient();
+    client.waitForTransactionReceipt.mockRejectedValueOnce(new Error('fetch failed'));
+    const txId = createSignedTransaction();
+
+    const tx = await confirmTransaction(txId, hash, { retryDelayMs: 0 });
+
+    expect(client.waitForTransactionReceipt).toHaveBeenCalledTimes(2);
+    expect(tx?.status).toBe('completed');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests for the wallet-capabilities module
+ */
+
+import { supportsAtomicBatch, getPendingBatches } from '../../utils/wallet-capabilities';
+import {
+  createPendingTransaction,
+  updateTransactionStatus,
+  withTransactionBundle,
+  pendingTransactions,
+} from '../../utils/transaction-utils';
+
+describe('Wallet Capabilities', () => {
+  const wallet = '0xabcdef1234567890abcdef1234567890abcdef12';
+  const token = '0x1111111111111111111111111111111111111111';
+  const vault = '0x2222222222222222222222222222222222222222';
+
+  beforeEach(() => {
+    pendingTransactions.length = 0;
+  });
+
+  // Create an approve + deposit bundle and return its step IDs
+  async function createBundle(): Promise<string[]> {
+    return withTransactionBundle('Provide 5 CELO to ICHI vault', async () => [
+      createPendingTransaction(token, '0', '0x095ea7b3', wallet),
+      createPendingTransaction(vault, '1000', '0xdeadbeef', wallet),
+    ]);
+  }
+
+  test('supportsAtomicBatch reads the atomic capability of the session chain', () => {
+    expect(supportsAtomicBatch({ '0xa4ec': { atomic: { status: 'supported' } } }, 42220)).toBe(true);
+    expect(supportsAtomicBatch({ '0xa4ec': { atomic: { status: 'ready' } } }, 42220)).toBe(true);
+    expect(supportsAtomicBatch({ '0xa4ec': { atomicBatch: { supported: true } } }, 42220)).toBe(true);
+    expect(supportsAtomicBatch({ '0xa4ec': { atomic: { status: 'unsupported' } } }, 42220)).toBe(false);
+    expect(supportsAtomicBatch({ '0x1': { atomic: { status: 'supported' } } }, 42220)).toBe(false);
+    expect(supportsAtomicBatch(undefined, 42220)).toBe(false);
+    expect(supportsAtomicBatch('yes', 42220)).toBe(false);
+  });
+
+  test('getPendingBatches builds one wallet_sendCalls request per bundle', async () => {
+    const [approveId, depositId] = await createBundle();
+    createPendingTransaction(token, '0', undefined, wallet);
+
+    const batches = getPendingBatches(wallet, 42220);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toMatchObject({
+      label: 'Provide 5 CELO to ICHI vault',
+      transactionIds: [approveId, depositId],
+      request: {
+        version: '2.0.0',
+        chainId: '0xa4ec',
+        from: wallet,
+        atomicRequired: true,
+        calls: [
+          { to: token, value: '0x0', data: '0x095ea7b3' },
+          { to: vault, value: '0x3e8', data: '0xdeadbeef' },
+        ],
+      },
+    });
+  });
+
+  test('bundles already signed step by step are not batched', async () => {
+    const [approveId] = await createBundle();
+    updateTransactionStatus(approveId, 'signed', `0x${'ab'.repeat(32)}`);
+
+    expect(getPendingBatches(wallet, 42220)).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Convert LangGraph agent streams into events that can be pushed to a client
+ */
+import { HumanMessage, isAIMessage, isToolMessage, type BaseMessage } from "@langchain/core/messages";
+
+// Events emitted while the agent works on a request
+export type AgentStreamEvent =
+  | { type: "token"; content: string }
+  | { type: "tool_call"; id?: string; name: string; args: Record<string, any> }
+  | { type: "tool_result"; id?: string; name?: string; content: string }
+  | { type: "done"; response: string }
+  | { type: "error"; message: string };
+
+/**
+ * Get the text of a message, joining content blocks if needed
+ */
+function getMessageText(message: BaseMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+
+  return message.content
+    .map((part: any) => (typeof part === "string" ? part : part.text ?? ""))
+    .join("");
+}
+
+/**
+ * Run the agent on a user input and yield tokens, tool calls and tool results as they happen
+ *
+ * @param agent A LangGraph agent (e.g. from createReactAgent)
+ * @param userInput The user's message
+ * @param config The agent config (thread ID etc.)
+ * @returns An async generator of events, ending with a "done" or "error" event
+ */
+export async function* streamAgentEvents(
+  agent: any,
+  userInput: string,
+  config: any
+): AsyncGenerator<AgentStreamEvent> {
+  let finalResponse = "";
+
+  try {
+    const stream = await agent.stream(
+      { messages: [new HumanMessage(userInput)] },
+      { ...config, streamMode: ["messages", "updates"] }
+    );
+
+    for await (const [mode, chunk] of stream) {
+      if (mode === "messages") {
+        // Token chunks from the model
+        const [message, metadata] = chunk;
+        if (metadata?.langgraph_node === "agent" && isAIMessage(message)) {
+          const content = getMessageText(message);
+          if (content) {
+            yield { type: "token", content };
+          }
+        }
+      } else if (mode === "updates") {
+        if ("agent" in chunk) {
+          // Completed model turn: surface the tool calls it requested
+          for (const message of chunk.agent.messages) {
+            if (!isAIMessage(message)) continue;
+
+            for (const toolCall of message.tool_calls ?? []) {
+              yield { type: "tool_call", id: toolCall.id, name: toolCall.name, args: toolCall.args };
+            }
+
+            if (!message.tool_calls?.length) {
+              finalResponse = getMessageText(message);
+            }
+          }
+        } else if ("tools" in chunk) {
+          for (const message of chunk.tools.messages) {
+            if (!isToolMessage(message)) continue;
+
+            yield {
+              type: "tool_result",
+              id: message.tool_call_id,
+              name: message.name,
+              content: getMessageText(message),
+            };
+          }
+        }
+      }
+    }
+
+    yield { type: "done", response: finalResponse };
+  } catch (error) {
+    yield { type: "error", message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Format an event as a Server-Sent Events frame
+ */
+export function formatSseEvent(event: AgentStreamEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,245 @@
+/**
+ * Decode transaction calldata into human-readable descriptions
+ */
+import {
+  decodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  maxUint256,
+  type Abi,
+  type AbiFunction,
+  type Hex,
+} from "viem";
+import {
+  MENTO_BROKER_ABI,
+  ERC20_ABI as MENTO_ERC20_ABI,
+  MENTO_BROKER_ADDRESS,
+  UBESWAP_ROUTER,
+  UBESWAP_ROUTER_ABI,
+  UNISWAP_V3_ROUTER_ABI,
+  UNISWAP_V3_SWAP_ROUTER,
+} from "../action-providers/mento-swap/constants";
+import { AAVE_LENDING_POOL_ABI, AAVE_POOL } from "../action-providers/aave/constants";
+import {
+  ICHI_DEPOSIT_FORWARDER_ABI,
+  ICHI_VAULT_ABI,
+  ICHI_DEPOSIT_FORWARDER,
+  ICHI_VAULT,
+  ICHI_VAULT_USDC,
+} from "../action-providers/ichi-vault/constants";
+import { findTokenByAddress } from "../network/tokens";
+
+export type CalldataProtocol = 'mento' | 'uniswap-v3' | 'ubeswap' | 'aave' | 'ichi' | 'erc20';
+
+// Decoded form of a contract call
+export interface DecodedCalldata {
+  protocol: CalldataProtocol;
+  functionName: string;
+  // Named arguments, with token addresses and amounts kept raw (bigints as strings)
+  args: Record<string, string>;
+  // Human-readable description, e.g. "swapIn 5 CELO → cUSD, min 2.31 cUSD"
+  summary: string;
+}
+
+// ABIs to decode against, in order of precedence
+const DECODER_ABIS: { protocol: CalldataProtocol; abi: Abi }[] = [
+  { protocol: 'mento', abi: MENTO_BROKER_ABI as Abi },
+  { protocol: 'uniswap-v3', abi: UNISWAP_V3_ROUTER_ABI as Abi },
+  { protocol: 'ubeswap', abi: UBESWAP_ROUTER_ABI as Abi },
+  { protocol: 'aave', abi: AAVE_LENDING_POOL_ABI as Abi },
+  { protocol: 'ichi', abi: ICHI_DEPOSIT_FORWARDER_ABI as Abi },
+  { protocol: 'ichi', abi: ICHI_VAULT_ABI as Abi },
+  { protocol: 'erc20', abi: MENTO_ERC20_ABI as Abi },
+  { protocol: 'erc20', abi: erc20Abi },
+];
+
+// Names of the contracts the agent interacts with
+const KNOWN_CONTRACTS: Record<string, string> = {
+  [MENTO_BROKER_ADDRESS.toLowerCase()]: "Mento Broker",
+  [UNISWAP_V3_SWAP_ROUTER.toLowerCase()]: "Uniswap v3 Router",
+  [UBESWAP_ROUTER.toLowerCase()]: "Ubeswap Router",
+  [AAVE_POOL.toLowerCase()]: "AAVE Pool",
+  [ICHI_DEPOSIT_FORWARDER.toLowerCase()]: "ICHI Deposit Forwarder",
+  [ICHI_VAULT.toLowerCase()]: "ICHI CELO-USDT vault",
+  [ICHI_VAULT_USDC.toLowerCase()]: "ICHI CELO-USDC vault",
+};
+
+// Vault shares use 18 decimals
+const VAULT_SHARE_DECIMALS = 18;
+
+/**
+ * Describe an address by its known contract or token name, falling back to a shortened address
+ */
+function describeAddress(address: string): string {
+  const lower = address.toLowerCase();
+  const token = findTokenByAddress(address);
+  return KNOWN_CONTRACTS[lower] || token?.symbol || `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * Format a token amount with the token's decimals and symbol
+ */
+export function formatTokenAmount(tokenAddress: string, amount: bigint): string {
+  if (amount === maxUint256) {
+    return `unlimited ${describeAddress(tokenAddress)}`;
+  }
+
+  const token = findTokenByAddress(tokenAddress);
+  if (!token) {
+    return `${amount.toString()} units of ${describeAddress(tokenAddress)}`;
+  }
+  return `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+}
+
+/**
+ * Build the summary of a decoded call
+ */
+function summarize(
+  functionName: string,
+  args: readonly any[],
+  to: string
+): string {
+  switch (functionName) {
+    case "swapIn": {
+      const [, , tokenIn, tokenOut, amountIn, amountOutMin] = args;
+      return `swapIn ${formatTokenAmount(tokenIn, amountIn)} → ${describeAddress(tokenOut)}, min ${formatTokenAmount(tokenOut, amountOutMin)}`;
+    }
+    case "swapOut": {
+      const [, , tokenIn, tokenOut, amountOut, amountInMax] = args;
+      return `swapOut ${describeAddress(tokenIn)} → ${formatTokenAmount(tokenOut, amountOut)}, max ${formatTokenAmount(tokenIn, amountInMax)}`;
+    }
+    case "exactInputSingle": {
+      const [{ tokenIn, tokenOut, amountIn, amountOutMinimum }] = args;
+      return `exactInputSingle ${formatTokenAmount(tokenIn, amountIn)} → ${describeAddress(tokenOut)}, min ${formatTokenAmount(tokenOut, amountOutMinimum)}`;
+    }
+    case "exactOutputSingle": {
+      const [{ tokenIn, tokenOut, amountOut, amountInMaximum }] = args;
+      return `exactOutputSingle ${describeAddress(tokenIn)} → ${formatTokenAmount(tokenOut, amountOut)}, max ${formatTokenAmount(tokenIn, amountInMaximum)}`;
+    }
+    case "swapExactTokensForTokens": {
+      const [amountIn, amountOutMin, path] = args;
+      const tokenOut = path[path.length - 1];
+      return `swapExactTokensForTokens ${formatTokenAmount(path[0], amountIn)} → ${describeAddress(tokenOut)}, min ${formatTokenAmount(tokenOut, amountOutMin)}`;
+    }
+    case "swapTokensForExactTokens": {
+      const [amountOut, amountInMax, path] = args;
+      const tokenOut = path[path.length - 1];
+      return `swapTokensForExactTokens ${describeAddress(path[0])} → ${formatTokenAmount(tokenOut, amountOut)}, max ${formatTokenAmount(path[0], amountInMax)}`;
+    }
+    case "approve":
+    case "increaseAllowance": {
+      const [spender, amount] = args;
+      return `${functionName} ${formatTokenAmount(to, amount)} for ${describeAddress(spender)}`;
+    }
+    case "transfer": {
+      const [recipient, amount] = args;
+      return `transfer ${formatTokenAmount(to, amount)} to ${recipient}`;
+    }
+    case "transferFrom": {
+      const [from, recipient, amount] = args;
+      return `transferFrom ${from} ${formatTokenAmount(to, amount)} to ${recipient}`;
+    }
+    case "supply": {
+      const [asset, amount] = args;
+      return `supply ${formatTokenAmount(asset, amount)} to AAVE`;
+    }
+    case "borrow": {
+      const [asset, amount, interestRateMode] = args;
+      const rate = BigInt(interestRateMode) === BigInt(1) ? "stable" : "variable";
+      return `borrow ${formatTokenAmount(asset, amount)} from AAVE (${rate} rate)`;
+    }
+    case "repay": {
+      const [asset, amount] = args;
+      const repaid = amount === maxUint256 ? `all ${describeAddress(asset)} debt` : formatTokenAmount(asset, amount);
+      return `repay ${repaid} to AAVE`;
+    }
+    case "withdraw": {
+      // ICHI vault withdraw(shares, to) vs AAVE withdraw(asset, amount, to)
+      if (args.length === 2) {
+        const [shares] = args;
+        return `withdraw ${formatUnits(shares, VAULT_SHARE_DECIMALS)} shares from ${describeAddress(to)}`;
+      }
+      const [asset, amount] = args;
+      const withdrawn = amount === maxUint256 ? `all ${describeAddress(asset)}` : formatTokenAmount(asset, amount);
+      return `withdraw ${withdrawn} from AAVE`;
+    }
+    case "forwardDepositToICHIVault": {
+      const [vault, , token, amount, minimumProceeds] = args;
+      return `deposit ${formatTokenAmount(token, amount)} into ${describeAddress(vault)}, min ${formatUnits(minimumProceeds, VAULT_SHARE_DECIMALS)} shares`;
+    }
+    default:
+      return `${functionName}(${args.map(arg => String(arg)).join(", ")}) on ${describeAddress(to)}`;
+  }
+}
+
+/**
+ * Decode calldata against the ABIs the project ships
+ *
+ * @param to Target contract address
+ * @param data Transaction calldata
+ * @returns The decoded call, or undefined if the calldata is empty or not recognized
+ */
+export function decodeCalldata(to: string, data?: string): DecodedCalldata | undefined {
+  if (!data || data === "0x" || data.length < 10) {
+    return undefined;
+  }
+
+  for (const { protocol, abi } of DECODER_ABIS) {
+    try {
+      const { functionName, args = [] } = decodeFunctionData({ abi, data: data as Hex });
+
+      const abiItem = abi.find(
+        (item): item is AbiFunction =>
+          item.type === "function" && item.name === functionName && item.inputs.length === args.length
+      );
+      const namedArgs: Record<string, string> = {};
+      abiItem?.inputs.forEach((input, i) => {
+        // Struct arguments (Uniswap v3 swap params) are listed field by field
+        if (input.type === "tuple" && args[i] && typeof args[i] === "object") {
+          Object.entries(args[i] as Record<string, unknown>).forEach(([name, value]) => {
+            namedArgs[name] = String(value);
+          });
+          return;
+        }
+        namedArgs[input.name || `arg${i}`] = String(args[i]);
+      });
+
+      return {
+        protocol,
+        functionName,
+        args: namedArgs,
+        summary: summarize(functionName, args, to),
+      };
+    } catch {
+      // Not a function of this ABI, try the next one
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Classify a transaction for display
+ *
+ * @param data Transaction calldata
+ * @param decoded Decoded calldata, if recognized
+ */
+export function getTransactionDataType(data: string | undefined, decoded?: DecodedCalldata): string {
+  if (!data || data === "0x") {
+    return 'native-transfer';
+  }
+  if (!decoded) {
+    return 'unknown';
+  }
+
+  switch (decoded.functionName) {
+    case "approve":
+    case "increaseAllowance":
+      return 'token-approval';
+    case "transfer":
+    case "transferFrom":
+      return 'token-transfer';
+    default:
+      return 'contract-call';
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Chat model selection for the agent
+ *
+ * The language model is configured through environment variables:
+ * - LLM_PROVIDER: openai (default), anthropic, ollama, openai-compatible or scripted
+ * - LLM_MODEL: model name (defaults per provider)
+ * - LLM_TEMPERATURE: sampling temperature (default 0)
+ * - LLM_TIMEOUT_MS: request timeout in milliseconds
+ * - LLM_MAX_RETRIES: retries for failed requests
+ * - LLM_BASE_URL: endpoint for ollama and openai-compatible providers
+ * - LLM_API_KEY: key for openai-compatible endpoints (falls back to OPENAI_API_KEY)
+ * - LLM_SCRIPTED_REPLIES: JSON array of replies for the scripted provider
+ */
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ScriptedChatModel } from "./scripted-chat-model";
+
+export const LLM_PROVIDERS = ["openai", "anthropic", "ollama", "openai-compatible", "scripted"] as const;
+export type LlmProvider = typeof LLM_PROVIDERS[number];
+
+// Settings used to create the chat model
+export interface ChatModelConfig {
+  provider: LlmProvider;
+  model: string;
+  temperature: number;
+  timeoutMs?: number;
+  maxRetries?: number;
+  baseUrl?: string;
+  // Replies of the scripted provider
+  scriptedReplies?: string[];
+}
+
+// Model used when LLM_MODEL is not set
+export const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  ollama: "llama3.1",
+  "openai-compatible": "gpt-4o-mini",
+  scripted: "scripted",
+};
+
+// Ollama serves an OpenAI-compatible API on this URL by default
+export const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434/v1";
+
+// Environment variables each provider needs
+const REQUIRED_ENVIRONMENT: Record<LlmProvider, string[]> = {
+  openai: ["OPENAI_API_KEY"],
+  anthropic: ["ANTHROPIC_API_KEY"],
+  ollama: [],
+  "openai-compatible": ["LLM_BASE_URL"],
+  scripted: [],
+};
+
+/**
+ * Error thrown when the LLM configuration is invalid
+ */
+export class ChatModelConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatModelConfigError";
+  }
+}
+
+/**
+ * Parse an optional numeric setting
+ */
+function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new ChatModelConfigError(`${name} must be a non-negative number, got '${value}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Read the chat model configuration from the environment
+ *
+ * @param env Environment variables (defaults to process.env)
+ * @returns The chat model configuration
+ * @throws ChatModelConfigError if a setting is invalid
+ */
+export function getChatModelConfig(env: NodeJS.ProcessEnv = process.env): ChatModelConfig {
+  const provider = (env.LLM_PROVIDER || "openai").toLowerCase() as LlmProvider;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new ChatModelConfigError(
+      `Unsupported LLM_PROVIDER '${env.LLM_PROVIDER}'. Expected one of: ${LLM_PROVIDERS.join(", ")}`
+    );
+  }
+
+  let scriptedReplies: string[] | undefined;
+  if (env.LLM_SCRIPTED_REPLIES) {
+    try {
+      scriptedReplies = JSON.parse(env.LLM_SCRIPTED_REPLIES);
+    } catch {
+      throw new ChatModelConfigError("LLM_SCRIPTED_REPLIES must be a JSON array of strings");
+    }
+    if (!Array.isArray(scriptedReplies) || !scriptedReplies.every(reply => typeof reply === "string")) {
+      throw new ChatModelConfigError("LLM_SCRIPTED_REPLIES must be a JSON array of strings");
+    }
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    temperature: parseNumber("LLM_TEMPERATURE", env.LLM_TEMPERATURE) ?? 0,
+    timeoutMs: parseNumber("LLM_TIMEOUT_MS", env.LLM_TIMEOUT_MS),
+    maxRetries: parseNumber("LLM_MAX_RETRIES", env.LLM_MAX_RETRIES),
+    baseUrl: env.LLM_BASE_URL || (provider === "ollama" ? DEFAULT_OLLAMA_BASE_URL : undefined),
+    scriptedReplies,
+  };
+}
+
+/**
+ * Get the environment variables the configured provider needs
+ *
+ * @param provider LLM provider
+ */
+export function getRequiredEnvironment(provider: LlmProvider): string[] {
+  return REQUIRED_ENVIRONMENT[provider];
+}
+
+/**
+ * Create the chat model used by the agent
+ *
+ * @param config Chat model configuration (defaults to the environment)
+ * @returns The chat model
+ */
+export function createChatModel(config: ChatModelConfig = getChatModelConfig()): BaseChatModel {
+  const { provider, model, temperature, timeoutMs, maxRetries, baseUrl } = config;
+
+  switch (provider) {
+    case "openai":
+      return new ChatOpenAI({ model, temperature, timeout: timeoutMs, maxRetries });
+
+    case "anthropic":
+      return new ChatAnthropic({
+        model,
+        temperature,
+        maxRetries,
+        clientOptions: timeoutMs !== undefined ? { timeout: timeoutMs } : undefined,
+      });
+
+    case "ollama":
+    case "openai-compatible":
+      return new ChatOpenAI({
+        model,
+        temperature,
+        timeout: timeoutMs,
+        maxRetries,
+        // Local endpoints usually ignore the key, but the client requires one
+        apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || provider,
+        configuration: { baseURL: baseUrl },
+      });
+
+    case "scripted":
+      return new ScriptedChatModel(config.scriptedReplies);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Deferred transactions: transactions queued for a browser wallet signature
+ *
+ * Wallet providers must return a hash from sendTransaction, but transactions for a connected
+ * frontend wallet only get a real hash once the user signs them. Instead of a fake hash, the
+ * wallet provider returns a placeholder that encodes the transaction ID, which action providers
+ * recognise so they never link it on an explorer.
+ */
+import { hexToString, stringToHex, type Hex } from "viem";
+import { getTransactionById } from "./transaction-utils";
+import { getExplorerTxUrl } from "../network/registry";
+
+// Transaction IDs created by createPendingTransaction
+const TRANSACTION_ID_PATTERN = /^tx-\d+-\d+$/;
+
+// Receipt returned by waitForTransactionReceipt for deferred transactions
+export interface DeferredReceipt {
+  deferred: true;
+  status: 'pending';
+  transactionId: string;
+  transactionHash: Hex;
+}
+
+/**
+ * Create the placeholder hash returned to action providers for a deferred transaction
+ *
+ * @param txId Transaction ID from createPendingTransaction
+ * @returns A 32-byte placeholder that encodes the transaction ID
+ */
+export function createDeferredHash(txId: string): Hex {
+  return stringToHex(txId, { size: 32 });
+}
+
+/**
+ * Get the transaction ID encoded in a placeholder hash
+ *
+ * @param hash Hash returned by sendTransaction
+ * @returns The transaction ID, or undefined if the hash is a real transaction hash
+ */
+export function getDeferredTransactionId(hash: string): string | undefined {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) {
+    return undefined;
+  }
+
+  try {
+    const decoded = hexToString(hash as Hex, { size: 32 });
+    return TRANSACTION_ID_PATTERN.test(decoded) ? decoded : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a hash returned by sendTransaction is a deferred transaction placeholder
+ */
+export function isDeferredTransaction(hash: string): boolean {
+  return getDeferredTransactionId(hash) !== undefined;
+}
+
+/**
+ * Create the receipt returned for a deferred transaction, which is not mined yet
+ */
+export function createDeferredReceipt(hash: Hex): DeferredReceipt {
+  return {
+    deferred: true,
+    status: 'pending',
+    transactionId: getDeferredTransactionId(hash)!,
+    transactionHash: hash,
+  };
+}
+
+/**
+ * Check whether a receipt belongs to a deferred transaction
+ */
+export function isDeferredReceipt(receipt: unknown): receipt is DeferredReceipt {
+  return typeof receipt === "object" && receipt !== null && (receipt as DeferredReceipt).deferred === true;
+}
+
+/**
+ * Describe the result of sendTransaction for the user
+ *
+ * Deferred transactions are reported as awaiting signature; explorer links are only
+ * used for real transaction hashes.
+ *
+ * @param hash Hash returned by sendTransaction
+ */
+export function describeTransactionResult(hash: string): string {
+  const txId = getDeferredTransactionId(hash);
+  if (!txId) {
+    return `🔗 Transaction sent: [${hash}](${getExplorerTxUrl(hash)})`;
+  }
+
+  const tx = getTransactionById(txId);
+  if (tx?.hash && tx.status === 'completed') {
+    return `✅ Confirmed: [${tx.hash}](${getExplorerTxUrl(tx.hash)})`;
+  }
+  if (tx?.status === 'failed' && tx.error) {
+    return `❌ Transaction ${txId} failed: ${tx.error}`;
+  }
+  if (tx?.status === 'queued' && tx.bundle) {
+    return `🕒 Queued as step ${tx.bundle.step} of "${tx.bundle.label}" (id ${txId}). It will be sent to your wallet once the previous step is confirmed.`;
+  }
+
+  return `⏳ Awaiting signature in your wallet (id ${txId}). The explorer link will be available once it is confirmed on-chain.`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Local Celo fork mode
+ *
+ * When CELO_FORK_RPC_URL points at an anvil node forked from Celo mainnet, e.g.
+ *   anvil --fork-url https://forno.celo.org --chain-id 42220
+ * the agent sends its reads and transactions there instead of Forno, so writes run against
+ * real contract bytecode without spending CELO. The agent wallet is topped up with CELO
+ * through anvil's cheat codes when its balance is low.
+ */
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeFunctionData,
+  erc20Abi,
+  http,
+  parseEther,
+  type Address,
+} from "viem";
+import { celo } from "viem/chains";
+
+// Private key of anvil's first default account (10,000 native tokens on a fresh fork)
+export const ANVIL_DEFAULT_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+// CELO balance the agent wallet is topped up to on a fork
+export const DEFAULT_FORK_FUNDING = parseEther("1000");
+
+// Settings of the local fork mode
+export interface LocalForkConfig {
+  rpcUrl: string;
+  // Native CELO (in wei) the agent wallet is topped up to
+  funding: bigint;
+}
+
+/**
+ * Error thrown when the fork node cannot be used
+ */
+export class LocalForkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocalForkError";
+  }
+}
+
+/**
+ * Read the local fork configuration from the environment
+ *
+ * @param env Environment variables (defaults to process.env)
+ * @returns The fork configuration, or undefined when fork mode is off
+ * @throws LocalForkError if CELO_FORK_FUNDING is not a CELO amount
+ */
+export function getLocalForkConfig(env: NodeJS.ProcessEnv = process.env): LocalForkConfig | undefined {
+  if (!env.CELO_FORK_RPC_URL) {
+    return undefined;
+  }
+
+  let funding = DEFAULT_FORK_FUNDING;
+  if (env.CELO_FORK_FUNDING) {
+    try {
+      funding = parseEther(env.CELO_FORK_FUNDING);
+    } catch {
+      throw new LocalForkError(`CELO_FORK_FUNDING must be an amount of CELO, got '${env.CELO_FORK_FUNDING}'`);
+    }
+  }
+
+  return { rpcUrl: env.CELO_FORK_RPC_URL, funding };
+}
+
+/**
+ * Create a client for anvil's cheat codes on the fork
+ *
+ * @param rpcUrl URL of the anvil node
+ */
+export function createForkTestClient(rpcUrl: string) {
+  return createTestClient({ mode: "anvil", chain: celo, transport: http(rpcUrl) });
+}
+
+/**
+ * Check that the node answers and is a fork of Celo mainnet
+ *
+ * @param rpcUrl URL of the anvil node
+ * @returns True if the node is reachable with the Celo chain id
+ */
+export async function isLocalForkAvailable(rpcUrl: string): Promise<boolean> {
+  try {
+    const client = createPublicClient({ chain: celo, transport: http(rpcUrl, { retryCount: 0, timeout: 2_000 }) });
+    return (await client.getChainId()) === celo.id;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Top up the native CELO balance of an account on the fork
+ *
+ * @param rpcUrl URL of the anvil node
+ * @param address Account to fund
+ * @param amount Balance (in wei) the account should have at least
+ * @returns The balance after funding
+ */
+export async function fundForkAccount(rpcUrl: string, address: Address, amount: bigint): Promise<bigint> {
+  const testClient = createForkTestClient(rpcUrl);
+  const publicClient = createPublicClient({ chain: celo, transport: http(rpcUrl) });
+
+  const balance = await publicClient.getBalance({ address });
+  if (balance >= amount) {
+    return balance;
+  }
+
+  await testClient.setBalance({ address, value: amount });
+  return amount;
+}
+
+/**
+ * Move ERC-20 tokens to an account on the fork by impersonating a holder
+ *
+ * @param rpcUrl URL of the anvil node
+ * @param params.token Token contract
+ * @param params.holder Account holding the tokens on mainnet
+ * @param params.to Account to fund
+ * @param params.amount Amount in token units (wei)
+ * @throws LocalForkError if the transfer reverts
+ */
+export async function fundForkToken(
+  rpcUrl: string,
+  params: { token: Address; holder: Address; to: Address; amount: bigint }
+): Promise<void> {
+  const { token, holder, to, amount } = params;
+  const testClient = createForkTestClient(rpcUrl);
+  const publicClient = createPublicClient({ chain: celo, transport: http(rpcUrl) });
+  const holderClient = createWalletClient({ account: holder, chain: celo, transport: http(rpcUrl) });
+
+  await testClient.impersonateAccount({ address: holder });
+  try {
+    // The holder pays the gas of the transfer
+    await fundForkAccount(rpcUrl, holder, parseEther("1"));
+
+    const hash = await holderClient.sendTransaction({
+      to: token,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [to, amount] }),
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new LocalForkError(`Transfer of ${token} from ${holder} reverted`);
+    }
+  } finally {
+    await testClient.stopImpersonatingAccount({ address: holder });
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Batched contract reads through Multicall3
+ *
+ * Dashboards read the same few functions across every token and reserve. Sending them as one
+ * aggregate3 call turns dozens of sequential RPC requests into a single round trip, and each
+ * call can fail on its own without failing the batch.
+ */
+import { EvmWalletProvider } from '@coinbase/agentkit';
+import { decodeFunctionResult, encodeFunctionData, type Abi, type Address, type Hex } from 'viem';
+import { MULTICALL3_ADDRESS, MULTICALL_BATCH_SIZE } from '../constants/network';
+
+export const MULTICALL3_ABI = [
+  {
+    name: 'aggregate3',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      {
+        name: 'calls',
+        type: 'tuple[]',
+        components: [
+          { name: 'target', type: 'address' },
+          { name: 'allowFailure', type: 'bool' },
+          { name: 'callData', type: 'bytes' },
+        ],
+      },
+    ],
+    outputs: [
+      {
+        name: 'returnData',
+        type: 'tuple[]',
+        components: [
+          { name: 'success', type: 'bool' },
+          { name: 'returnData', type: 'bytes' },
+        ],
+      },
+    ],
+  },
+] as const;
+
+// A contract read to batch, in the shape of readContract parameters
+export interface MulticallCall {
+  address: string;
+  abi: Abi | readonly unknown[];
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+// Outcome of one batched read
+export type MulticallResult<T = any> =
+  | { status: 'success'; result: T }
+  | { status: 'failure'; error: Error };
+
+export interface MulticallOptions {
+  // Calls per aggregate3 request
+  batchSize?: number;
+}
+
+/**
+ * Error recorded for a batched read that reverted
+ */
+export class MulticallCallError extends Error {
+  constructor(call: MulticallCall) {
+    super(`${call.functionName} on ${call.address} reverted`);
+    this.name = 'MulticallCallError';
+  }
+}
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * Read every call one by one, for when the aggregate3 request itself fails
+ */
+async function readIndividually(walletProvider: EvmWalletProvider, calls: MulticallCall[]): Promise<MulticallResult[]> {
+  const settled = await Promise.allSettled(
+    calls.map(call =>
+      walletProvider.readContract({
+        address: call.address as Address,
+        abi: call.abi as Abi,
+        functionName: call.functionName,
+        args: call.args ?? [],
+      } as any)
+    )
+  );
+
+  return settled.map(outcome =>
+    outcome.status === 'fulfilled'
+      ? { status: 'success', result: outcome.value }
+      : { status: 'failure', error: toError(outcome.reason) }
+  );
+}
+
+/**
+ * Read one batch through a single aggregate3 call
+ */
+async function readBatch(walletProvider: EvmWalletProvider, calls: MulticallCall[]): Promise<MulticallResult[]> {
+  const results: MulticallResult[] = new Array(calls.length);
+  const encoded: { index: number; target: Address; callData: Hex }[] = [];
+
+  calls.forEach((call, index) => {
+    try {
+      const callData = encodeFunctionData({
+        abi: call.abi as Abi,
+        functionName: call.functionName,
+        args: call.args ?? [],
+      } as any);
+      encoded.push({ index, target: call.address as Address, callData });
+    } catch (error) {
+      results[index] = { status: 'failure', error: toError(error) };
+    }
+  });
+
+  if (encoded.length === 0) {
+    return results;
+  }
+
+  let returnData: readonly { success: boolean; returnData: Hex }[];
+  try {
+    returnData = await walletProvider.readContract({
+      address: MULTICALL3_ADDRESS as Address,
+      abi: MULTICALL3_ABI,
+      functionName: 'aggregate3',
+      args: [encoded.map(({ target, callData }) => ({ target, allowFailure: true, callData }))],
+    }) as readonly { success: boolean; returnData: Hex }[];
+  } catch (error) {
+    console.warn('Multicall3 read failed, falling back to individual reads:', toError(error).message);
+    const fallback = await readIndividually(walletProvider, encoded.map(({ index }) => calls[index]));
+    encoded.forEach(({ index }, i) => {
+      results[index] = fallback[i];
+    });
+    return results;
+  }
+
+  encoded.forEach(({ index }, i) => {
+    const call = calls[index];
+    const { success, returnData: data } = returnData[i];
+    if (!success) {
+      results[index] = { status: 'failure', error: new MulticallCallError(call) };
+      return;
+    }
+    try {
+      const result = decodeFunctionResult({
+        abi: call.abi as Abi,
+        functionName: call.functionName,
+        data,
+      } as any);
+      results[index] = { status: 'success', result };
+    } catch (error) {
+      results[index] = { status: 'failure', error: toError(error) };
+    }
+  });
+
+  return results;
+}
+
+/**
+ * Read many contract functions in as few RPC requests as possible
+ *
+ * Calls are sent through Multicall3 aggregate3 in batches of MULTICALL_BATCH_SIZE (batches are
+ * sent together). If Multicall3 cannot be reached, the calls are read one by one instead.
+ *
+ * @param walletProvider Wallet provider to read through
+ * @param calls Reads to batch
+ * @returns One result per call, in call order
+ */
+export async function multicall<T = any>(
+  walletProvider: EvmWalletProvider,
+  calls: MulticallCall[],
+  options: MulticallOptions = {}
+): Promise<MulticallResult<T>[]> {
+  const batchSize = options.batchSize ?? MULTICALL_BATCH_SIZE;
+  const batches: MulticallCall[][] = [];
+  for (let i = 0; i < calls.length; i += batchSize) {
+    batches.push(calls.slice(i, i + batchSize));
+  }
+
+  const results = await Promise.all(batches.map(batch => readBatch(walletProvider, batch)));
+  return results.flat();
+}
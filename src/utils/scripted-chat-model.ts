@@ -0,0 +1,100 @@
+/**
+ * Chat model that replays scripted replies and tool calls, for offline development and tests
+ */
+import { BaseChatModel, type BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import { AIMessage, type BaseMessage } from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+
+// Reply used when no script is given
+export const DEFAULT_SCRIPTED_REPLY =
+  "I am running with a scripted offline model, so I cannot answer this. Configure LLM_PROVIDER to use a real language model.";
+
+// A tool call the model makes
+export interface ScriptedToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// One model turn: a text reply, or tool calls (with optional text)
+export type ScriptedTurn = string | { content?: string; toolCalls: ScriptedToolCall[] };
+
+// Chooses the next turn from the conversation so far
+export type ScriptedResponder = (messages: BaseMessage[]) => ScriptedTurn;
+
+/**
+ * Error raised when a scripted model is called more often than its script has turns
+ */
+export class ScriptExhaustedError extends Error {
+  constructor(public readonly turns: number) {
+    super(`Scripted chat model script exhausted: all ${turns} turn(s) were used and the model was called again`);
+    this.name = "ScriptExhaustedError";
+  }
+}
+
+/**
+ * A chat model that plays back a script
+ *
+ * Given a list of turns, it answers with them in order and throws a ScriptExhaustedError when
+ * called once more, so a test never passes on a turn it did not script. Without a script it
+ * answers every call with DEFAULT_SCRIPTED_REPLY. Given a responder, it asks the responder for every turn, which lets a
+ * test react to the user's message or to tool results. Tools are accepted but not validated,
+ * so the agent graph and its tools run without an API key.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  private readonly responder: ScriptedResponder;
+  private turn = 0;
+  private toolCallCount = 0;
+
+  /**
+   * @param script Turns to return, one per model call, or a responder choosing each turn
+   * @param fields Base chat model options
+   */
+  constructor(script: ScriptedTurn[] | ScriptedResponder = [], fields: BaseChatModelParams = {}) {
+    super(fields);
+
+    if (typeof script === "function") {
+      this.responder = script;
+    } else if (script.length === 0) {
+      this.responder = () => DEFAULT_SCRIPTED_REPLY;
+    } else {
+      this.responder = () => {
+        if (this.turn >= script.length) {
+          throw new ScriptExhaustedError(script.length);
+        }
+        return script[this.turn];
+      };
+    }
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  /**
+   * Accept tool definitions so the model can be used by createReactAgent
+   */
+  bindTools(): this {
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const turn = this.responder(messages);
+    this.turn++;
+
+    const message = typeof turn === "string"
+      ? new AIMessage(turn)
+      : new AIMessage({
+          content: turn.content ?? "",
+          tool_calls: turn.toolCalls.map(call => ({
+            id: `call_${++this.toolCallCount}`,
+            name: call.name,
+            args: call.args,
+            type: "tool_call" as const,
+          })),
+        });
+
+    return {
+      generations: [{ text: typeof message.content === "string" ? message.content : "", message }],
+    };
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Session management for API clients that connect a browser wallet
+ */
+import { randomBytes } from "crypto";
+
+// Sessions expire after 30 minutes without activity
+export const SESSION_EXPIRATION_MS = 30 * 60 * 1000;
+
+// A wallet bound to an API client
+export interface WalletSession {
+  token: string;
+  walletAddress: string;
+  createdAt: number;
+  lastActivity: number;
+  // Hard expiry (e.g. the signed sign-in message's expiration time)
+  expiresAt?: number;
+  // Chain the wallet signed in on
+  chainId?: number;
+  // Whether the wallet can execute bundles as one atomic batch (EIP-5792 wallet_sendCalls)
+  atomicBatch?: boolean;
+}
+
+const sessions: Map<string, WalletSession> = new Map();
+
+/**
+ * Check whether a session has been idle for longer than the expiration window
+ * or has passed its hard expiry
+ */
+function isExpired(session: WalletSession, now: number): boolean {
+  if (session.expiresAt !== undefined && now >= session.expiresAt) {
+    return true;
+  }
+  return now - session.lastActivity >= SESSION_EXPIRATION_MS;
+}
+
+/**
+ * Create a new session bound to a wallet address
+ *
+ * @param walletAddress Wallet address the session acts for
+ * @param expiresAt Optional hard expiry timestamp (ms)
+ * @param details Chain and capabilities negotiated when the wallet connected
+ * @returns The new session, including its bearer token
+ */
+export function createSession(
+  walletAddress: string,
+  expiresAt?: number,
+  details: Pick<WalletSession, 'chainId' | 'atomicBatch'> = {}
+): WalletSession {
+  const now = Date.now();
+  const session: WalletSession = {
+    token: randomBytes(32).toString("hex"),
+    walletAddress,
+    createdAt: now,
+    lastActivity: now,
+    expiresAt,
+    ...details,
+  };
+
+  sessions.set(session.token, session);
+  return session;
+}
+
+/**
+ * Look up a session by token and refresh its activity timestamp
+ *
+ * @param token Session token issued by createSession
+ * @returns The session, or undefined if it does not exist or has expired
+ */
+export function getSession(token: string): WalletSession | undefined {
+  const session = sessions.get(token);
+  if (!session) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  if (isExpired(session, now)) {
+    sessions.delete(token);
+    return undefined;
+  }
+
+  session.lastActivity = now;
+  return session;
+}
+
+/**
+ * End a session explicitly (e.g. when the wallet disconnects)
+ *
+ * @param token Session token
+ * @returns Whether a session was removed
+ */
+export function endSession(token: string): boolean {
+  return sessions.delete(token);
+}
+
+/**
+ * Get the number of sessions that have not expired yet
+ */
+export function getActiveSessionCount(): number {
+  const now = Date.now();
+  let count = 0;
+
+  for (const session of sessions.values()) {
+    if (!isExpired(session, now)) {
+      count++;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Remove expired sessions (call periodically to prevent memory leaks)
+ *
+ * @returns Tokens of the sessions that were removed
+ */
+export function cleanupSessions(): string[] {
+  const now = Date.now();
+  const removed: string[] = [];
+
+  for (const [token, session] of sessions.entries()) {
+    if (isExpired(session, now)) {
+      sessions.delete(token);
+      removed.push(token);
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,162 @@
+/**
+ * Sign-In-With-Ethereum (EIP-4361) proof of wallet ownership
+ */
+import { getAddress, verifyMessage, type Hex } from "viem";
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from "viem/siwe";
+import { getActiveCeloNetwork } from "../network/registry";
+import { SESSION_EXPIRATION_MS } from "./session-manager";
+
+// Nonces must be used within 5 minutes of being issued
+export const NONCE_EXPIRATION_MS = 5 * 60 * 1000;
+
+// Issued nonces and their expiry timestamps
+const issuedNonces: Map<string, number> = new Map();
+
+/**
+ * Error raised when a sign-in message or signature is rejected
+ */
+export class SiweVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiweVerificationError';
+  }
+}
+
+// Result of a successful sign-in
+export interface SiweSignInResult {
+  walletAddress: string;
+  chainId: number;
+  // Session hard expiry (ms), capped by the message's expiration time
+  expiresAt: number;
+}
+
+/**
+ * Issue a single-use nonce for a sign-in message
+ *
+ * @returns The nonce and the expiration time clients should put in the message
+ */
+export function issueNonce(): { nonce: string; expirationTime: string } {
+  const now = Date.now();
+  const nonce = generateSiweNonce();
+  issuedNonces.set(nonce, now + NONCE_EXPIRATION_MS);
+
+  return {
+    nonce,
+    expirationTime: new Date(now + SESSION_EXPIRATION_MS).toISOString(),
+  };
+}
+
+/**
+ * Consume a nonce, returning whether it was issued and is still valid
+ */
+function consumeNonce(nonce: string): boolean {
+  const expiresAt = issuedNonces.get(nonce);
+  if (expiresAt === undefined) {
+    return false;
+  }
+
+  issuedNonces.delete(nonce);
+  return Date.now() < expiresAt;
+}
+
+/**
+ * Get the domains sign-in messages may be bound to, from the comma-separated SIWE_DOMAIN
+ *
+ * Request headers are not used as a fallback: a relay controls its own Origin and Host, so they
+ * cannot prove which site the wallet signed for.
+ *
+ * @param env Environment variables (defaults to process.env)
+ * @returns The configured domains (empty when SIWE_DOMAIN is not set, which disables sign-in)
+ */
+export function getSignInDomains(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.SIWE_DOMAIN ?? "")
+    .split(",")
+    .map(domain => domain.trim())
+    .filter(domain => domain.length > 0);
+}
+
+/**
+ * Verify an EIP-4361 message and its signature
+ *
+ * The message must be bound to one of the configured domains, so a message signed for another
+ * site cannot be relayed here to open a session for the signer's wallet.
+ *
+ * @param message The raw sign-in message the wallet signed
+ * @param signature The wallet signature over the message
+ * @param domains Domains the message may be bound to (see getSignInDomains)
+ * @returns The verified wallet address and session expiry
+ */
+export async function verifySignIn(
+  message: string,
+  signature: string,
+  domains: string[]
+): Promise<SiweSignInResult> {
+  if (domains.length === 0) {
+    throw new SiweVerificationError('Wallet sign-in is disabled: SIWE_DOMAIN is not configured');
+  }
+
+  const parsed = parseSiweMessage(message);
+
+  if (!parsed.address || !parsed.nonce || !parsed.chainId || !parsed.domain) {
+    throw new SiweVerificationError('Malformed sign-in message: address, nonce, chain ID and domain are required');
+  }
+
+  // Sessions carry the chain into batched wallet calls, so only the network the agent runs on is accepted
+  const { chain, name } = getActiveCeloNetwork();
+  if (parsed.chainId !== chain.id) {
+    throw new SiweVerificationError(`Sign-in message is bound to unsupported chain ${parsed.chainId}; sign in on ${name} (chain ${chain.id})`);
+  }
+
+  // Nonces are single use, so consume it before any further checks
+  if (!consumeNonce(parsed.nonce)) {
+    throw new SiweVerificationError('Unknown or expired nonce. Request a new one from /api/wallet/nonce');
+  }
+
+  const isValid = domains.includes(parsed.domain) && validateSiweMessage({
+    message: parsed,
+    domain: parsed.domain,
+  });
+  if (!isValid) {
+    throw new SiweVerificationError('Sign-in message is expired, not yet valid or bound to another domain');
+  }
+
+  let isSigner = false;
+  try {
+    isSigner = await verifyMessage({
+      address: parsed.address,
+      message,
+      signature: signature as Hex,
+    });
+  } catch (error) {
+    throw new SiweVerificationError(`Invalid signature: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isSigner) {
+    throw new SiweVerificationError('Signature does not match the address in the sign-in message');
+  }
+
+  // Sessions never outlive the signed message
+  const maxExpiry = Date.now() + SESSION_EXPIRATION_MS;
+  const expiresAt = parsed.expirationTime
+    ? Math.min(parsed.expirationTime.getTime(), maxExpiry)
+    : maxExpiry;
+
+  return {
+    walletAddress: getAddress(parsed.address),
+    chainId: parsed.chainId,
+    expiresAt,
+  };
+}
+
+/**
+ * Remove expired nonces (call periodically to prevent memory leaks)
+ */
+export function cleanupNonces(): void {
+  const now = Date.now();
+
+  for (const [nonce, expiresAt] of issuedNonces.entries()) {
+    if (now >= expiresAt) {
+      issuedNonces.delete(nonce);
+    }
+  }
+}
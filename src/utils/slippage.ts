@@ -0,0 +1,113 @@
+/**
+ * Slippage and price impact math in basis points
+ *
+ * Token amounts are bigints in the smallest unit of the token, so limits are computed in
+ * bigint basis points (1 bp = 0.01%) instead of floating-point factors. The same functions
+ * bound the amounts sent with a swap and the amounts shown in its quote.
+ */
+import { MAX_PRICE_IMPACT_BPS } from '../constants/network';
+
+// Basis points in 100%
+export const BPS_DENOMINATOR = BigInt(10000);
+
+// Input and output amounts of a trade, in the smallest unit of each token
+export interface TradeAmounts {
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * Convert a percentage (e.g. 0.5 for 0.5%) to basis points, rounded to the nearest point
+ */
+export function percentToBps(percent: number): bigint {
+  return BigInt(Math.round(percent * 100));
+}
+
+/**
+ * Format basis points as a percentage, e.g. "0.50%"
+ */
+export function formatBps(bps: bigint): string {
+  return `${(Number(bps) / 100).toFixed(2)}%`;
+}
+
+/**
+ * Least output to accept for a quoted output, rounded down
+ *
+ * @param amountOut Quoted output
+ * @param slippageBps Slippage tolerance in basis points
+ */
+export function getMinAmountOut(amountOut: bigint, slippageBps: bigint): bigint {
+  return (amountOut * (BPS_DENOMINATOR - slippageBps)) / BPS_DENOMINATOR;
+}
+
+/**
+ * Most input to spend for a quoted input, rounded up
+ *
+ * @param amountIn Quoted input
+ * @param slippageBps Slippage tolerance in basis points
+ */
+export function getMaxAmountIn(amountIn: bigint, slippageBps: bigint): bigint {
+  const scaled = amountIn * (BPS_DENOMINATOR + slippageBps);
+  return (scaled + BPS_DENOMINATOR - BigInt(1)) / BPS_DENOMINATOR;
+}
+
+/**
+ * Split a slippage tolerance across the hops of a route
+ *
+ * Returns the largest per-hop tolerance whose compounded effect stays within the tolerance of
+ * the whole route: (1 - s)^hops >= 1 - tolerance for exactIn, where every hop gives up some
+ * output, and (1 + s)^hops <= 1 + tolerance for exactOut, where every hop takes some more input.
+ *
+ * @param slippageBps Slippage tolerance of the route in basis points
+ * @param hops Number of hops
+ * @param side Whether the route sells (exactIn) or buys (exactOut) an exact amount
+ */
+export function splitSlippageBps(slippageBps: bigint, hops: number, side: 'exactIn' | 'exactOut'): bigint {
+  if (hops <= 1) {
+    return slippageBps;
+  }
+
+  const n = BigInt(hops);
+  const scale = BPS_DENOMINATOR ** (n - BigInt(1));
+  const withinTolerance = (perHop: bigint) =>
+    side === 'exactIn'
+      ? (BPS_DENOMINATOR - perHop) ** n >= (BPS_DENOMINATOR - slippageBps) * scale
+      : (BPS_DENOMINATOR + perHop) ** n <= (BPS_DENOMINATOR + slippageBps) * scale;
+
+  // Start from the floating-point estimate and step down until the bound holds exactly
+  const tolerance = Number(slippageBps) / 10000;
+  const factor = side === 'exactIn' ? 1 - Math.pow(1 - tolerance, 1 / hops) : Math.pow(1 + tolerance, 1 / hops) - 1;
+  let perHop = BigInt(Math.ceil(factor * 10000));
+  while (perHop > BigInt(0) && !withinTolerance(perHop)) {
+    perHop -= BigInt(1);
+  }
+  return perHop;
+}
+
+/**
+ * Price impact of a trade compared with a much smaller reference trade along the same route
+ *
+ * @param trade The trade to measure
+ * @param reference A quote for a tiny amount, standing in for the price before the trade
+ * @returns How much worse the trade's rate is than the reference rate, in basis points (0 if better)
+ */
+export function getPriceImpactBps(trade: TradeAmounts, reference: TradeAmounts): bigint {
+  if (trade.amountIn === BigInt(0) || reference.amountOut === BigInt(0)) {
+    return BigInt(0);
+  }
+
+  // rate / referenceRate = (out * refIn) / (in * refOut)
+  const relativeRate = (trade.amountOut * reference.amountIn * BPS_DENOMINATOR) / (trade.amountIn * reference.amountOut);
+  const impact = BPS_DENOMINATOR - relativeRate;
+  return impact > BigInt(0) ? impact : BigInt(0);
+}
+
+/**
+ * Get the highest price impact a swap may have, from MAX_PRICE_IMPACT_BPS, falling back to the default
+ *
+ * @param env Environment variables (defaults to process.env)
+ */
+export function getMaxPriceImpactBps(env: NodeJS.ProcessEnv = process.env): bigint {
+  const bps = env.MAX_PRICE_IMPACT_BPS ? Number(env.MAX_PRICE_IMPACT_BPS) : NaN;
+  return BigInt(Number.isInteger(bps) && bps >= 0 ? bps : MAX_PRICE_IMPACT_BPS);
+}
@@ -0,0 +1,111 @@
+/**
+ * Pre-sign simulation of transactions handed to the browser wallet
+ */
+import {
+  BaseError,
+  ExecutionRevertedError,
+  decodeErrorResult,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { TransactionSimulation, formatTransactionValue } from "./transaction-utils";
+
+/**
+ * Error raised when a transaction is not handed to the wallet because it would revert
+ */
+export class TransactionSimulationError extends Error {
+  constructor(
+    public readonly txId: string,
+    public readonly revertReason: string
+  ) {
+    super(`Transaction would revert: ${revertReason}. It was not sent to the wallet for signing.`);
+    this.name = 'TransactionSimulationError';
+  }
+}
+
+// Transaction to simulate, as passed to createPendingTransaction
+export interface SimulationRequest {
+  from: string;
+  to: string;
+  value?: string;
+  data?: string;
+}
+
+/**
+ * Extract the revert reason from a failed call, or undefined if the call did not revert
+ */
+function getRevertReason(error: unknown): string | undefined {
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+
+  // Decode Error(string) / Panic(uint256) revert data when the node returns it
+  const withData = error.walk(
+    (e: any) => typeof e?.data === "string" && e.data.startsWith("0x") && e.data.length >= 10
+  ) as any;
+  if (withData) {
+    try {
+      const decoded = decodeErrorResult({ abi: [], data: withData.data as Hex });
+      return decoded.errorName === "Error"
+        ? String(decoded.args?.[0])
+        : `${decoded.errorName}(${(decoded.args ?? []).join(", ")})`;
+    } catch {
+      return `custom error ${withData.data.slice(0, 10)}`;
+    }
+  }
+
+  const reverted = error.walk(e => e instanceof ExecutionRevertedError) as BaseError | null;
+  return reverted ? reverted.shortMessage : undefined;
+}
+
+/**
+ * Get a short description of an error that is not a revert
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage;
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Simulate a transaction with eth_call and eth_estimateGas from the signer's address
+ *
+ * @param client Public client to simulate with
+ * @param request The transaction to simulate
+ * @param dependsOnPending Whether earlier transactions of the signer are still unconfirmed
+ * @returns The simulation result (never throws)
+ */
+export async function simulateTransaction(
+  client: PublicClient,
+  request: SimulationRequest,
+  dependsOnPending: boolean = false
+): Promise<TransactionSimulation> {
+  const params = {
+    account: request.from as `0x${string}`,
+    to: request.to as `0x${string}`,
+    value: BigInt(formatTransactionValue(request.value || "0")),
+    data: request.data as Hex | undefined,
+  };
+
+  try {
+    await client.call(params);
+    const gasEstimate = await client.estimateGas(params);
+
+    return {
+      success: true,
+      gasEstimate: gasEstimate.toString(),
+      dependsOnPending,
+      simulatedAt: Date.now(),
+    };
+  } catch (error) {
+    const revertReason = getRevertReason(error);
+
+    return {
+      success: false,
+      revertReason,
+      error: revertReason ? undefined : getErrorMessage(error),
+      dependsOnPending,
+      simulatedAt: Date.now(),
+    };
+  }
+}
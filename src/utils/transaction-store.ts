@@ -0,0 +1,147 @@
+/**
+ * Storage backends for transaction records
+ */
+import * as fs from "fs";
+import * as path from "path";
+import type { PendingTransaction } from "./transaction-utils";
+
+// Position of a transaction in the newest-first order; the ID orders transactions created in
+// the same millisecond
+export interface TransactionCursor {
+  timestamp: number;
+  id: string;
+}
+
+// Filters for listing stored transactions
+export interface TransactionQuery {
+  status?: PendingTransaction['status'];
+  walletAddress?: string;
+  // Only return transactions after this cursor, or created before this timestamp (for pagination)
+  before?: number | TransactionCursor;
+  // Maximum number of transactions to return (newest first)
+  limit?: number;
+}
+
+/**
+ * Storage interface used by transaction-utils
+ */
+export interface TransactionStore {
+  insert(tx: PendingTransaction): void;
+  update(txId: string, changes: Partial<PendingTransaction>): PendingTransaction | undefined;
+  get(txId: string): PendingTransaction | undefined;
+  list(query?: TransactionQuery): PendingTransaction[];
+}
+
+// Newest first, with the ID breaking timestamp ties
+const newestFirst = (a: PendingTransaction, b: PendingTransaction): number =>
+  b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+/**
+ * Check whether a transaction comes after a pagination cursor in newest-first order
+ */
+function isBefore(tx: PendingTransaction, before: number | TransactionCursor): boolean {
+  if (typeof before === 'number') {
+    return tx.timestamp < before;
+  }
+  return tx.timestamp < before.timestamp || (tx.timestamp === before.timestamp && tx.id < before.id);
+}
+
+/**
+ * Apply a query to a list of transactions
+ *
+ * Without a limit or cursor, insertion order is kept; otherwise results are newest first.
+ */
+function applyQuery(transactions: PendingTransaction[], query: TransactionQuery = {}): PendingTransaction[] {
+  const wallet = query.walletAddress?.toLowerCase();
+
+  let results = transactions.filter(tx =>
+    (!query.status || tx.status === query.status) &&
+    (!wallet || tx.metadata?.walletAddress?.toLowerCase() === wallet) &&
+    (query.before === undefined || isBefore(tx, query.before))
+  );
+
+  if (query.limit !== undefined || query.before !== undefined) {
+    results = results.sort(newestFirst);
+  }
+  if (query.limit !== undefined) {
+    results = results.slice(0, query.limit);
+  }
+
+  return results;
+}
+
+/**
+ * Keeps transactions in memory (lost on restart)
+ */
+export class InMemoryTransactionStore implements TransactionStore {
+  constructor(protected readonly transactions: PendingTransaction[] = []) {}
+
+  insert(tx: PendingTransaction): void {
+    this.transactions.push(tx);
+  }
+
+  update(txId: string, changes: Partial<PendingTransaction>): PendingTransaction | undefined {
+    const tx = this.get(txId);
+    if (!tx) return undefined;
+
+    Object.assign(tx, changes);
+    return tx;
+  }
+
+  get(txId: string): PendingTransaction | undefined {
+    return this.transactions.find(tx => tx.id === txId);
+  }
+
+  list(query?: TransactionQuery): PendingTransaction[] {
+    return applyQuery(this.transactions, query);
+  }
+}
+
+/**
+ * Keeps transactions in memory and persists them to a JSON file after every write
+ */
+export class FileTransactionStore extends InMemoryTransactionStore {
+  constructor(private readonly filePath: string) {
+    super(FileTransactionStore.load(filePath));
+  }
+
+  /**
+   * Load transactions from disk, starting empty if the file does not exist yet
+   */
+  private static load(filePath: string): PendingTransaction[] {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      throw new Error(`Failed to load transaction store from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  insert(tx: PendingTransaction): void {
+    super.insert(tx);
+    this.persist();
+  }
+
+  update(txId: string, changes: Partial<PendingTransaction>): PendingTransaction | undefined {
+    const tx = super.update(txId, changes);
+    if (tx) {
+      this.persist();
+    }
+    return tx;
+  }
+
+  /**
+   * Write all transactions to disk, replacing the file atomically
+   */
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.transactions, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -1,6 +1,101 @@
 /**
  * Utility functions for handling blockchain transactions
  */
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Hex } from 'viem';
+import {
+  TransactionStore,
+  TransactionCursor,
+  InMemoryTransactionStore,
+  FileTransactionStore,
+} from './transaction-store';
+import { TX_STATUS, PENDING_TX_TTL_MS } from '../constants/network';
+import { DecodedCalldata, decodeCalldata, getTransactionDataType } from './calldata-decoder';
+import { refreshSwapDeadline } from '../action-providers/mento-swap/venues';
+
+export type TransactionStatus = typeof TX_STATUS[keyof typeof TX_STATUS];
+
+// Legal status transitions; completed, failed, rejected, expired and cancelled are final
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  // Later bundle steps wait until the previous step is confirmed
+  queued: ['pending', 'cancelled'],
+  pending: ['signed', 'rejected', 'expired'],
+  signed: ['completed', 'failed'],
+  completed: [],
+  failed: [],
+  rejected: [],
+  expired: [],
+  cancelled: [],
+};
+
+// Statuses after which a bundle cannot continue
+const BUNDLE_BREAKING_STATUSES: TransactionStatus[] = ['failed', 'rejected', 'expired', 'cancelled'];
+
+/**
+ * Error raised when a status is not one of the known transaction statuses
+ */
+export class InvalidTransactionStatusError extends Error {
+  constructor(status: unknown) {
+    super(`Invalid transaction status: ${String(status)}. Expected one of: ${Object.values(TX_STATUS).join(', ')}`);
+    this.name = 'InvalidTransactionStatusError';
+  }
+}
+
+/**
+ * Error raised when a transaction cannot move from its current status to the requested one
+ */
+export class IllegalTransactionTransitionError extends Error {
+  constructor(
+    public readonly txId: string,
+    public readonly from: TransactionStatus,
+    public readonly to: TransactionStatus
+  ) {
+    super(`Transaction ${txId} cannot move from '${from}' to '${to}'`);
+    this.name = 'IllegalTransactionTransitionError';
+  }
+}
+
+// On-chain outcome of a transaction, recorded once its receipt is confirmed
+export interface TransactionReceiptSummary {
+  blockNumber: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  status: 'success' | 'reverted';
+  from: string;
+  confirmedAt: number;
+}
+
+// Result of simulating a transaction from the signer's address before it is signed
+export interface TransactionSimulation {
+  success: boolean;
+  gasEstimate?: string;
+  revertReason?: string;
+  // Why the simulation could not run (RPC errors etc.)
+  error?: string;
+  // Simulated while earlier transactions of the wallet were still unconfirmed
+  dependsOnPending: boolean;
+  simulatedAt: number;
+}
+
+// Position of a transaction in a bundle of ordered steps
+export interface TransactionBundleStep {
+  id: string;
+  label: string;
+  // 1-based step number
+  step: number;
+}
+
+// Ordered steps of a multi-step action (e.g. approve + deposit), exposed as one unit
+export interface TransactionBundle {
+  id: string;
+  label: string;
+  walletAddress: string;
+  status: 'in-progress' | 'completed' | 'failed';
+  // Step that currently needs attention (undefined once the bundle has finished)
+  currentStep?: number;
+  totalSteps: number;
+  steps: PendingTransaction[];
+}
 
 // Store pending transactions that can be accessed across modules
 export interface PendingTransaction {
@@ -8,41 +103,80 @@ export interface PendingTransaction {
   to: string;
   value: string;
   data?: string;
-  status: 'pending' | 'signed' | 'rejected' | 'completed';
+  status: TransactionStatus;
   hash?: string;
   timestamp: number;
+  // Pending transactions expire at this timestamp if they have not been signed
+  expiresAt?: number;
+  bundle?: TransactionBundleStep;
+  // ID of the EIP-5792 call batch that executed the transaction together with the rest of its bundle
+  batchId?: string;
+  simulation?: TransactionSimulation;
+  receipt?: TransactionReceiptSummary;
+  // Why the transaction failed (revert, mismatch with the requested transaction, ...)
+  error?: string;
   metadata?: {
     source: string;
     walletAddress: string;
     requiresSignature: boolean;
     dataSize: number;
     dataType: string;
+    // Function name, named arguments and a human-readable summary of the calldata
+    decoded?: DecodedCalldata;
   };
 }
 
-// Global store for pending transactions - can be imported by other modules
+// Backing array of the default in-memory store
 export const pendingTransactions: PendingTransaction[] = [];
 
 /**
- * Creates a pending transaction record and adds it to the global pendingTransactions array
+ * Create the transaction store selected by TRANSACTION_STORE ("memory" or "file")
+ */
+function createDefaultStore(): TransactionStore {
+  if (process.env.TRANSACTION_STORE === 'file') {
+    const filePath = process.env.TRANSACTION_STORE_PATH || './data/transactions.json';
+    console.log(`📁 Persisting transactions to ${filePath}`);
+    return new FileTransactionStore(filePath);
+  }
+  return new InMemoryTransactionStore(pendingTransactions);
+}
+
+let transactionStore: TransactionStore = createDefaultStore();
+
+// Bundle that transactions created in the current async context belong to
+const bundleContext = new AsyncLocalStorage<{ id: string; label: string; steps: number }>();
+
+/**
+ * Get the pending transaction TTL from PENDING_TX_TTL_MS, falling back to the default
+ */
+function getPendingTtl(): number {
+  const ttl = Number(process.env.PENDING_TX_TTL_MS);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : PENDING_TX_TTL_MS;
+}
+
+/**
+ * Replace the store used by the transaction functions
+ *
+ * @param store The new transaction store
+ */
+export function setTransactionStore(store: TransactionStore): void {
+  transactionStore = store;
+}
+
+/**
+ * Get the store used by the transaction functions
+ */
+export function getTransactionStore(): TransactionStore {
+  return transactionStore;
+}
+
+/**
+ * Format a transaction value as a wei string
  * 
- * @param to Target address
- * @param value Transaction value
- * @param data Optional transaction data
- * @param walletAddress Optional wallet address (for frontend wallet tracking)
- * @returns Transaction ID
+ * @param value Value in wei, hex, or ether when it has a decimal point
+ * @returns Value in wei (hex values are kept as is)
  */
-export const createPendingTransaction = (
-  to: string, 
-  value: string, 
-  data?: string,
-  walletAddress?: string
-): string => {
-  const txId = `tx-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
-  
-  // Ensure addresses are properly formatted
-  const formattedTo = to.startsWith('0x') ? to : `0x${to}`;
-  
+export function formatTransactionValue(value: string): string {
   // Format transaction value to ensure it's valid
   let formattedValue = value || '0';
   if (formattedValue.startsWith('0x')) {
@@ -65,38 +199,112 @@ export const createPendingTransaction = (
     }
   }
   
+  return formattedValue;
+}
+
+/**
+ * Check whether a simulation proves the transaction would revert
+ * 
+ * Simulations of transactions queued behind unconfirmed ones (e.g. a supply after its approval)
+ * run against stale state, so their reverts are not conclusive.
+ */
+export function isConclusiveRevert(simulation: TransactionSimulation): boolean {
+  return !simulation.success && !!simulation.revertReason && !simulation.dependsOnPending;
+}
+
+/**
+ * Check whether a wallet has transactions that are not confirmed on-chain yet
+ * 
+ * @param walletAddress Wallet address (case-insensitive)
+ */
+export function hasUnconfirmedTransactions(walletAddress: string): boolean {
+  const wallet = walletAddress.toLowerCase();
+  return [...getTransactions('queued'), ...getTransactions('pending'), ...getTransactions('signed')].some(
+    tx => tx.metadata?.walletAddress?.toLowerCase() === wallet
+  );
+}
+
+/**
+ * Creates a pending transaction record and saves it to the transaction store
+ * 
+ * @param to Target address
+ * @param value Transaction value
+ * @param data Optional transaction data
+ * @param walletAddress Optional wallet address (for frontend wallet tracking)
+ * @param simulation Optional pre-sign simulation; a conclusive revert stores the transaction as failed
+ * @returns Transaction ID
+ */
+export const createPendingTransaction = (
+  to: string, 
+  value: string, 
+  data?: string,
+  walletAddress?: string,
+  simulation?: TransactionSimulation
+): string => {
+  const txId = `tx-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+  
+  // Ensure addresses are properly formatted
+  const formattedTo = to.startsWith('0x') ? to : `0x${to}`;
+  
+  const formattedValue = formatTransactionValue(value);
+  
   // Format the data field properly
   let formattedData = data || undefined;
   if (formattedData && !formattedData.startsWith('0x')) {
     formattedData = `0x${formattedData}`;
   }
 
+  // Decode the calldata so wallets and chat clients can show what is being signed
+  const decoded = decodeCalldata(formattedTo, formattedData);
+
+  // Transactions that are known to revert are never handed to the wallet
+  const reverts = simulation ? isConclusiveRevert(simulation) : false;
+
+  // Assign the transaction to the current bundle, if any
+  let bundle: TransactionBundleStep | undefined;
+  const currentBundle = bundleContext.getStore();
+  if (currentBundle) {
+    currentBundle.steps += 1;
+    bundle = { id: currentBundle.id, label: currentBundle.label, step: currentBundle.steps };
+  }
+  const status: TransactionStatus = reverts ? 'failed' : (bundle ? getInitialBundleStepStatus(bundle) : 'pending');
+
   // Create transaction object
   const pendingTx: PendingTransaction = {
     id: txId,
     to: formattedTo,
     value: formattedValue,
     data: formattedData,
-    status: 'pending',
+    status,
     timestamp: Date.now(),
+    // Queued steps start their TTL when they are released
+    expiresAt: status === 'pending' ? Date.now() + getPendingTtl() : undefined,
+    bundle,
+    simulation,
+    error: reverts ? `Simulation reverted: ${simulation!.revertReason}` : undefined,
     // Add additional metadata for better tracking
     metadata: {
       source: walletAddress ? 'frontend-wallet' : 'backend-wallet',
       walletAddress: walletAddress || formattedTo,
       requiresSignature: !!walletAddress,
       dataSize: formattedData ? formattedData.length : 0,
-      dataType: formattedData ? 
-        (formattedData.startsWith('0x6') ? 'contract-call' : 
-         formattedData.startsWith('0xa9') ? 'token-approval' : 'unknown') 
-        : 'native-transfer'
+      dataType: getTransactionDataType(formattedData, decoded),
+      decoded
     }
   };
   
-  // Add to global pending transactions
-  pendingTransactions.push(pendingTx);
+  // Save to the transaction store
+  transactionStore.insert(pendingTx);
+  
+  if (reverts) {
+    console.warn(`❌ Transaction ${txId} would revert: ${simulation!.revertReason}`);
+    return txId;
+  }
   
-  console.log(`✅ Transaction created with ID: ${txId}`);
-  if (walletAddress) {
+  console.log(`✅ Transaction created with ID: ${txId}${decoded ? ` (${decoded.summary})` : ''}`);
+  if (status === 'queued') {
+    console.log(`🕒 Queued as step ${bundle!.step} of "${bundle!.label}" until the previous step is confirmed`);
+  } else if (walletAddress) {
     console.log(`⏳ Waiting for wallet signature from ${walletAddress}...`);
   }
   
@@ -104,40 +312,260 @@ export const createPendingTransaction = (
 };
 
 /**
- * Update the status of a pending transaction
+ * Group the transactions created by a function into an ordered bundle
+ * 
+ * The first transaction is handed to the wallet right away; each later one is queued
+ * and only released once the previous step is confirmed on-chain.
+ * 
+ * @param label Description of the multi-step action (e.g. "Provide 5 CELO to ICHI vault")
+ * @param fn Function that creates the transactions
+ * @returns The result of fn
+ */
+export function withTransactionBundle<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  const id = `bundle-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+  return bundleContext.run({ id, label, steps: 0 }, fn);
+}
+
+/**
+ * Get the status a new bundle step starts in, based on the previous step
+ */
+function getInitialBundleStepStatus(bundle: TransactionBundleStep): TransactionStatus {
+  if (bundle.step === 1) return 'pending';
+
+  const previous = getBundleSteps(bundle.id).find(tx => tx.bundle!.step === bundle.step - 1);
+  if (!previous || previous.status === 'completed') return 'pending';
+  return BUNDLE_BREAKING_STATUSES.includes(previous.status) ? 'cancelled' : 'queued';
+}
+
+/**
+ * Get the steps of a bundle in order
+ */
+function getBundleSteps(bundleId: string): PendingTransaction[] {
+  return transactionStore
+    .list()
+    .filter(tx => tx.bundle?.id === bundleId)
+    .sort((a, b) => a.bundle!.step - b.bundle!.step);
+}
+
+/**
+ * Re-encode the calldata of a step that is released for signing when it carries a deadline
+ * (Ubeswap swaps), so time spent queued does not count against it
+ */
+function refreshCalldata(tx: PendingTransaction): Partial<PendingTransaction> {
+  const data = tx.data && refreshSwapDeadline(tx.data as Hex);
+  if (!data) return {};
+
+  const decoded = decodeCalldata(tx.to, data);
+  return { data, metadata: tx.metadata && { ...tx.metadata, dataSize: data.length, decoded } };
+}
+
+/**
+ * Release or cancel the steps after a bundle step that reached a final status
+ */
+function advanceBundle(tx: PendingTransaction): void {
+  if (!tx.bundle) return;
+
+  const laterSteps = getBundleSteps(tx.bundle.id).filter(step => step.bundle!.step > tx.bundle!.step);
+
+  if (tx.status === 'completed') {
+    const next = laterSteps[0];
+    if (next?.status === 'queued') {
+      transactionStore.update(next.id, {
+        status: 'pending',
+        expiresAt: Date.now() + getPendingTtl(),
+        ...refreshCalldata(next),
+      });
+      console.log(`▶️ Released step ${next.bundle!.step} of "${next.bundle!.label}" (${next.id}) for signing`);
+    }
+  } else if (BUNDLE_BREAKING_STATUSES.includes(tx.status)) {
+    for (const step of laterSteps) {
+      if (step.status === 'queued') {
+        transactionStore.update(step.id, {
+          status: 'cancelled',
+          error: `Step ${tx.bundle.step} (${tx.id}) ${tx.status}`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Mark a transaction as expired and cancel the bundle steps that depend on it
+ */
+function expireTransaction(tx: PendingTransaction): PendingTransaction | undefined {
+  const expired = transactionStore.update(tx.id, { status: 'expired' });
+  if (expired) {
+    advanceBundle(expired);
+  }
+  return expired;
+}
+
+/**
+ * Summarize a bundle from its steps
+ */
+function toTransactionBundle(steps: PendingTransaction[]): TransactionBundle {
+  const first = steps[0];
+  const failed = steps.some(tx => BUNDLE_BREAKING_STATUSES.includes(tx.status));
+  const completed = steps.every(tx => tx.status === 'completed');
+  const current = steps.find(tx => tx.status !== 'completed');
+
+  return {
+    id: first.bundle!.id,
+    label: first.bundle!.label,
+    walletAddress: first.metadata?.walletAddress || '',
+    status: failed ? 'failed' : completed ? 'completed' : 'in-progress',
+    currentStep: failed || completed ? undefined : current?.bundle!.step,
+    totalSteps: steps.length,
+    steps,
+  };
+}
+
+/**
+ * Get a bundle by ID
+ * 
+ * @param bundleId Bundle ID
+ * @returns The bundle, or undefined if it has no steps
+ */
+export function getTransactionBundle(bundleId: string): TransactionBundle | undefined {
+  expirePendingTransactions();
+  const steps = getBundleSteps(bundleId);
+  return steps.length > 0 ? toTransactionBundle(steps) : undefined;
+}
+
+/**
+ * Get the bundles of a wallet, newest first
+ * 
+ * @param walletAddress Wallet address (case-insensitive)
+ * @returns Array of bundles
+ */
+export function getTransactionBundles(walletAddress: string): TransactionBundle[] {
+  expirePendingTransactions();
+
+  const stepsByBundle = new Map<string, PendingTransaction[]>();
+  for (const tx of transactionStore.list({ walletAddress })) {
+    if (!tx.bundle) continue;
+    stepsByBundle.set(tx.bundle.id, [...(stepsByBundle.get(tx.bundle.id) || []), tx]);
+  }
+
+  return [...stepsByBundle.values()]
+    .map(steps => toTransactionBundle(steps.sort((a, b) => a.bundle!.step - b.bundle!.step)))
+    .sort((a, b) => b.steps[0].timestamp - a.steps[0].timestamp);
+}
+
+/**
+ * Mark the remaining steps of a bundle as signed in one atomic batch (EIP-5792 wallet_sendCalls)
+ * 
+ * @param bundleId Bundle ID
+ * @param txHash Hash of the transaction that executed the batch
+ * @param batchId Call batch ID returned by wallet_sendCalls
+ * @returns The updated steps, or undefined if the bundle does not exist
+ * @throws IllegalTransactionTransitionError if a remaining step can no longer be signed
+ */
+export function signTransactionBundle(
+  bundleId: string,
+  txHash: string,
+  batchId: string
+): PendingTransaction[] | undefined {
+  expirePendingTransactions();
+  const steps = getBundleSteps(bundleId);
+  if (steps.length === 0) return undefined;
+
+  const remaining = steps.filter(tx => tx.status !== 'completed');
+  for (const tx of remaining) {
+    if (tx.status !== 'pending' && tx.status !== 'queued') {
+      throw new IllegalTransactionTransitionError(tx.id, tx.status, 'signed');
+    }
+  }
+
+  return remaining.map(tx => {
+    // Queued steps are released by the batch itself
+    if (tx.status === 'queued') {
+      transactionStore.update(tx.id, { status: 'pending' });
+    }
+    transactionStore.update(tx.id, { batchId });
+    return updateTransactionStatus(tx.id, 'signed', txHash)!;
+  });
+}
+
+/**
+ * Check whether a value is a known transaction status
+ */
+export function isTransactionStatus(status: unknown): status is TransactionStatus {
+  return Object.values(TX_STATUS).includes(status as TransactionStatus);
+}
+
+/**
+ * Mark pending transactions whose TTL has passed as expired
+ * 
+ * @param now Current timestamp
+ * @returns IDs of the transactions that were expired
+ */
+export function expirePendingTransactions(now: number = Date.now()): string[] {
+  const expired: string[] = [];
+
+  for (const tx of transactionStore.list({ status: 'pending' })) {
+    if (tx.expiresAt !== undefined && now >= tx.expiresAt) {
+      expireTransaction(tx);
+      expired.push(tx.id);
+    }
+  }
+
+  if (expired.length > 0) {
+    console.log(`⌛ Expired ${expired.length} unsigned transaction(s)`);
+  }
+
+  return expired;
+}
+
+/**
+ * Update the status of a transaction, enforcing the legal transitions
  * 
  * @param txId Transaction ID
  * @param status New status
- * @param txHash Optional transaction hash (for completed transactions)
+ * @param txHash Optional transaction hash (for signed or completed transactions)
+ * @param details Optional receipt and error details to record
  * @returns Updated transaction or undefined if not found
+ * @throws InvalidTransactionStatusError if the status is unknown
+ * @throws IllegalTransactionTransitionError if the transaction cannot move to the status
  */
 export function updateTransactionStatus(
   txId: string, 
-  status: 'pending' | 'signed' | 'rejected' | 'completed',
-  txHash?: string
+  status: TransactionStatus,
+  txHash?: string,
+  details: Pick<PendingTransaction, 'receipt' | 'error'> = {}
 ): PendingTransaction | undefined {
-  const index = pendingTransactions.findIndex(tx => tx.id === txId);
-  if (index === -1) return undefined;
+  if (!isTransactionStatus(status)) {
+    throw new InvalidTransactionStatusError(status);
+  }
+
+  const tx = getTransactionById(txId);
+  if (!tx) return undefined;
+  
+  if (!TRANSACTION_TRANSITIONS[tx.status].includes(status)) {
+    throw new IllegalTransactionTransitionError(txId, tx.status, status);
+  }
   
-  pendingTransactions[index].status = status;
+  const changes: Partial<PendingTransaction> = { status, ...details };
   if (txHash) {
-    pendingTransactions[index].hash = txHash;
+    changes.hash = txHash;
   }
   
-  return pendingTransactions[index];
+  const updated = transactionStore.update(txId, changes);
+  if (updated) {
+    advanceBundle(updated);
+  }
+  return updated;
 }
 
 /**
- * Get all pending transactions
+ * Get all transactions
  * 
  * @param status Optional status filter
- * @returns Array of pending transactions
+ * @returns Array of transactions
  */
-export function getTransactions(status?: 'pending' | 'signed' | 'rejected' | 'completed'): PendingTransaction[] {
-  if (status) {
-    return pendingTransactions.filter(tx => tx.status === status);
-  }
-  return [...pendingTransactions];
+export function getTransactions(status?: TransactionStatus): PendingTransaction[] {
+  expirePendingTransactions();
+  return transactionStore.list({ status });
 }
 
 /**
@@ -147,7 +575,68 @@ export function getTransactions(status?: 'pending' | 'signed' | 'rejected' | 'co
  * @returns Transaction or undefined if not found
  */
 export function getTransactionById(txId: string): PendingTransaction | undefined {
-  return pendingTransactions.find(tx => tx.id === txId);
+  const tx = transactionStore.get(txId);
+  
+  // Expire lazily so a stale transaction can never be signed between sweeps
+  if (tx && tx.status === 'pending' && tx.expiresAt !== undefined && Date.now() >= tx.expiresAt) {
+    return expireTransaction(tx);
+  }
+  
+  return tx;
+}
+
+/**
+ * Get transaction by on-chain hash
+ * 
+ * @param hash Transaction hash (case-insensitive)
+ * @returns Transaction or undefined if not found
+ */
+export function getTransactionByHash(hash: string): PendingTransaction | undefined {
+  const normalized = hash.toLowerCase();
+  return transactionStore.list().find(tx => tx.hash?.toLowerCase() === normalized);
+}
+
+/**
+ * Get the transaction history of a wallet, newest first
+ * 
+ * @param walletAddress Wallet address (case-insensitive)
+ * @param options Optional status filter, page size and cursor (see getTransactionCursor)
+ * @returns Array of transactions
+ */
+export function getTransactionHistory(
+  walletAddress: string,
+  options: { status?: TransactionStatus; limit?: number; before?: number | TransactionCursor } = {}
+): PendingTransaction[] {
+  expirePendingTransactions();
+  return transactionStore.list({
+    walletAddress,
+    status: options.status,
+    limit: options.limit ?? 50,
+    before: options.before,
+  });
+}
+
+/**
+ * Get the cursor of the next history page after a transaction, e.g. "1718000000000:tx-1718000000000-42"
+ */
+export function getTransactionCursor(tx: PendingTransaction): string {
+  return `${tx.timestamp}:${tx.id}`;
+}
+
+/**
+ * Parse a history cursor from getTransactionCursor, or a plain timestamp
+ * 
+ * @returns The cursor, or undefined if it is malformed
+ */
+export function parseTransactionCursor(value: string): number | TransactionCursor | undefined {
+  const [timestamp, id, ...rest] = value.split(':');
+  if (rest.length > 0 || timestamp === '' || !Number.isFinite(Number(timestamp))) {
+    return undefined;
+  }
+  if (id === undefined) {
+    return Number(timestamp);
+  }
+  return id ? { timestamp: Number(timestamp), id } : undefined;
 }
 
 /**
@@ -0,0 +1,275 @@
+/**
+ * Confirms signed frontend transactions on-chain
+ */
+import { createPublicClient, type Hash, type PublicClient } from "viem";
+import {
+  PendingTransaction,
+  TransactionReceiptSummary,
+  getTransactionById,
+  getTransactions,
+  updateTransactionStatus,
+} from "./transaction-utils";
+import { getActiveCeloNetwork } from "../network/registry";
+import { createRpcTransport, getRpcUrls } from "../network/rpc";
+
+// Stop waiting for a receipt after 5 minutes
+export const RECEIPT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Receipt waits per watch, and the pause before the first retry (doubled for every later retry);
+// a transaction still without a receipt stays signed and is watched again by resumeTransactionWatchers
+export const RECEIPT_MAX_ATTEMPTS = 3;
+export const RECEIPT_RETRY_DELAY_MS = 30 * 1000;
+
+export interface ReceiptWaitOptions {
+  maxAttempts?: number;
+  retryDelayMs?: number;
+}
+
+let publicClient: PublicClient | undefined;
+
+// Transactions currently being watched, to avoid duplicate watchers
+const watching: Set<string> = new Set();
+
+/**
+ * Get the public client used to read receipts, creating it on first use
+ */
+function getPublicClient(): PublicClient {
+  if (!publicClient) {
+    const network = getActiveCeloNetwork();
+    publicClient = createPublicClient({
+      chain: network.chain,
+      transport: createRpcTransport(getRpcUrls(network)),
+    }) as PublicClient;
+  }
+  return publicClient;
+}
+
+/**
+ * Replace the public client used by the watcher
+ *
+ * @param client The new public client
+ */
+export function setTransactionWatcherClient(client: PublicClient): void {
+  publicClient = client;
+}
+
+/**
+ * Compare the mined transaction with the one the agent requested
+ *
+ * @returns A description of every mismatch (empty if the transaction matches)
+ */
+function findMismatches(
+  stored: PendingTransaction,
+  mined: { from: string; to: string | null; input: string; value: bigint }
+): string[] {
+  const mismatches: string[] = [];
+
+  if (mined.to?.toLowerCase() !== stored.to.toLowerCase()) {
+    mismatches.push(`to is ${mined.to ?? "empty"} instead of ${stored.to}`);
+  }
+
+  if (mined.input.toLowerCase() !== (stored.data ?? "0x").toLowerCase()) {
+    mismatches.push("calldata differs from the requested transaction");
+  }
+
+  if (mined.value !== BigInt(stored.value || "0")) {
+    mismatches.push(`value is ${mined.value} instead of ${stored.value}`);
+  }
+
+  // Only frontend transactions are bound to a specific signer
+  if (
+    stored.metadata?.requiresSignature &&
+    mined.from.toLowerCase() !== stored.metadata.walletAddress.toLowerCase()
+  ) {
+    mismatches.push(`sent from ${mined.from} instead of ${stored.metadata.walletAddress}`);
+  }
+
+  return mismatches;
+}
+
+/**
+ * Read the receipt and the mined transaction of a hash, retrying timeouts and RPC errors with backoff
+ *
+ * @throws The last error once every attempt failed
+ */
+async function readMinedTransaction(client: PublicClient, txId: string, hash: Hash, options: ReceiptWaitOptions) {
+  const maxAttempts = options.maxAttempts ?? RECEIPT_MAX_ATTEMPTS;
+  const retryDelayMs = options.retryDelayMs ?? RECEIPT_RETRY_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const receipt = await client.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS });
+      const mined = await client.getTransaction({ hash });
+      return { receipt, mined };
+    } catch (error) {
+      const reason = error instanceof Error && error.name === "WaitForTransactionReceiptTimeoutError"
+        ? `no receipt after ${RECEIPT_TIMEOUT_MS / 1000}s`
+        : error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Attempt ${attempt}/${maxAttempts} to confirm ${hash} (transaction ${txId}) failed: ${reason}`);
+      if (attempt >= maxAttempts) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+/**
+ * Compare the mined transaction of a batch with one of the calls it should carry
+ *
+ * A batch runs every call through the wallet's own contract (EIP-7702 delegation or a smart
+ * account), and executors encode the call list differently. Every encoding holds the target
+ * address and the calldata bytes of each call verbatim, so the batch input must contain both, and
+ * the batch must be sent by the session wallet.
+ *
+ * @returns A description of every mismatch (empty if the call is part of the transaction)
+ */
+function findBatchMismatches(
+  stored: PendingTransaction,
+  mined: { from: string; input: string }
+): string[] {
+  const mismatches: string[] = [];
+  const input = mined.input.toLowerCase();
+
+  const wallet = stored.metadata?.walletAddress;
+  if (!wallet || mined.from.toLowerCase() !== wallet.toLowerCase()) {
+    mismatches.push(`batch sent from ${mined.from} instead of ${wallet ?? "the session wallet"}`);
+  }
+
+  if (!input.includes(stored.to.slice(2).toLowerCase())) {
+    mismatches.push(`batch does not call ${stored.to}`);
+  }
+
+  const callData = (stored.data ?? "0x").slice(2).toLowerCase();
+  if (callData.length > 0 && !input.includes(callData)) {
+    mismatches.push("batch does not contain the requested calldata");
+  }
+
+  return mismatches;
+}
+
+/**
+ * Check whether a transaction without a receipt was replaced: its sender has mined a transaction
+ * with the same nonce, so this one can never be mined
+ *
+ * @returns false when the transaction is unknown to the node or its nonce is still open
+ */
+async function isReplaced(client: PublicClient, hash: Hash): Promise<boolean> {
+  try {
+    const { from, nonce } = await client.getTransaction({ hash });
+    const minedNonces = await client.getTransactionCount({ address: from, blockTag: "latest" });
+    if (minedNonces <= nonce) {
+      return false;
+    }
+    // The nonce may have been used by this very transaction since the last receipt wait
+    await client.getTransactionReceipt({ hash });
+    return false;
+  } catch (error) {
+    return error instanceof Error && error.name === "TransactionReceiptNotFoundError";
+  }
+}
+
+/**
+ * Wait for the receipt of a signed transaction, verify it and record the outcome
+ *
+ * Timeouts and RPC errors are retried with backoff. A transaction that still has no receipt
+ * stays signed, as it may be mined later, unless its nonce was taken by a replacement.
+ *
+ * @param txId Transaction ID
+ * @param hash Hash reported by the wallet
+ * @param options Overrides of the retry settings
+ * @returns The updated transaction, the unchanged transaction if it has no receipt yet, or undefined if it is unknown
+ */
+export async function confirmTransaction(
+  txId: string,
+  hash: Hash,
+  options: ReceiptWaitOptions = {}
+): Promise<PendingTransaction | undefined> {
+  const stored = getTransactionById(txId);
+  if (!stored) return undefined;
+
+  const client = getPublicClient();
+
+  let receipt, mined;
+  try {
+    ({ receipt, mined } = await readMinedTransaction(client, txId, hash, options));
+  } catch (error) {
+    // The status may have been settled another way while waiting
+    const current = getTransactionById(txId);
+    if (current?.status !== "signed") {
+      return current;
+    }
+    if (await isReplaced(client, hash)) {
+      console.warn(`❌ Transaction ${txId} was replaced: its nonce was used by another transaction`);
+      return updateTransactionStatus(txId, "failed", undefined, {
+        error: `Transaction ${hash} was replaced by another transaction with the same nonce`,
+      });
+    }
+    console.warn(`⏳ No receipt for ${hash} (transaction ${txId}) yet; it stays signed and is checked again later`);
+    return current;
+  }
+
+  const summary: TransactionReceiptSummary = {
+    blockNumber: receipt.blockNumber.toString(),
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+    status: receipt.status,
+    from: receipt.from,
+    confirmedAt: Date.now(),
+  };
+
+  // Batched calls are looked up inside the batch transaction instead of compared with it
+  const mismatches = stored.batchId ? findBatchMismatches(stored, mined) : findMismatches(stored, mined);
+  if (mismatches.length > 0) {
+    console.warn(`⚠️ Transaction ${txId} does not match its on-chain transaction ${hash}: ${mismatches.join("; ")}`);
+    return updateTransactionStatus(txId, "failed", undefined, {
+      receipt: summary,
+      error: `On-chain transaction does not match the request: ${mismatches.join("; ")}`,
+    });
+  }
+
+  if (receipt.status === "reverted") {
+    console.warn(`❌ Transaction ${txId} reverted in block ${summary.blockNumber}`);
+    return updateTransactionStatus(txId, "failed", undefined, {
+      receipt: summary,
+      error: "Transaction reverted on-chain",
+    });
+  }
+
+  console.log(`✅ Transaction ${txId} confirmed in block ${summary.blockNumber}`);
+  return updateTransactionStatus(txId, "completed", undefined, { receipt: summary });
+}
+
+/**
+ * Confirm a signed transaction in the background
+ *
+ * @param txId Transaction ID
+ * @param hash Hash reported by the wallet
+ */
+export function watchTransaction(txId: string, hash: Hash): void {
+  if (watching.has(txId)) return;
+  watching.add(txId);
+
+  confirmTransaction(txId, hash)
+    .catch(error => {
+      console.error(`Error confirming transaction ${txId}:`, error);
+    })
+    .finally(() => {
+      watching.delete(txId);
+    });
+}
+
+/**
+ * Resume watching signed transactions that were not confirmed yet (e.g. after a restart)
+ *
+ * @returns Number of transactions being watched
+ */
+export function resumeTransactionWatchers(): number {
+  const unconfirmed = getTransactions("signed").filter(tx => tx.hash && !tx.receipt);
+
+  for (const tx of unconfirmed) {
+    watchTransaction(tx.id, tx.hash as Hash);
+  }
+
+  return unconfirmed.length;
+}
@@ -0,0 +1,110 @@
+/**
+ * EIP-5792 wallet capabilities and wallet_sendCalls batches
+ *
+ * Wallets that can execute several calls atomically (e.g. smart wallets) receive the steps of a
+ * transaction bundle as one wallet_sendCalls request, so an approve + deposit needs a single
+ * signature instead of two.
+ */
+import { toHex, type Hex } from "viem";
+import { PendingTransaction, TransactionBundle, getTransactionBundles } from "./transaction-utils";
+
+// Result of wallet_getCapabilities, keyed by hex chain ID
+export type WalletCapabilities = Record<string, Record<string, unknown>>;
+
+// A single call of a wallet_sendCalls request
+export interface SendCallsCall {
+  to: string;
+  value: Hex;
+  data?: string;
+}
+
+// Parameters of a wallet_sendCalls request
+export interface SendCallsRequest {
+  version: "2.0.0";
+  chainId: Hex;
+  from: string;
+  atomicRequired: true;
+  calls: SendCallsCall[];
+}
+
+// Bundle steps delivered to the wallet as one atomic batch
+export interface TransactionBatch {
+  bundleId: string;
+  label: string;
+  // IDs of the transactions covered by the batch, in call order
+  transactionIds: string[];
+  request: SendCallsRequest;
+}
+
+/**
+ * Check whether the capabilities reported by a wallet include atomic batching on a chain
+ *
+ * Understands both the current `atomic.status` capability and the older `atomicBatch.supported` one.
+ *
+ * @param capabilities Result of wallet_getCapabilities (untrusted client input)
+ * @param chainId Chain the session is signed in on
+ */
+export function supportsAtomicBatch(capabilities: unknown, chainId: number): boolean {
+  if (typeof capabilities !== "object" || capabilities === null) {
+    return false;
+  }
+
+  const chainCapabilities = (capabilities as WalletCapabilities)[toHex(chainId)] as any;
+  if (typeof chainCapabilities !== "object" || chainCapabilities === null) {
+    return false;
+  }
+
+  const atomicStatus = chainCapabilities.atomic?.status;
+  return atomicStatus === "supported" || atomicStatus === "ready" || chainCapabilities.atomicBatch?.supported === true;
+}
+
+/**
+ * Get the steps of a bundle that can still be sent as one batch
+ *
+ * A bundle can be batched while its current step awaits a signature and every later step is
+ * still queued; once a step has been signed on its own, the rest follows the step-by-step flow.
+ */
+function getBatchableSteps(bundle: TransactionBundle): PendingTransaction[] {
+  const remaining = bundle.steps.filter(tx => tx.status !== "completed");
+  const [current, ...queued] = remaining;
+
+  if (!current || current.status !== "pending" || queued.length === 0) {
+    return [];
+  }
+  return queued.every(tx => tx.status === "queued") ? remaining : [];
+}
+
+/**
+ * Build the wallet_sendCalls batches for the bundles awaiting a signature
+ *
+ * @param walletAddress Wallet the batches are sent from
+ * @param chainId Chain the session is signed in on
+ * @returns One batch per bundle that can be batched
+ */
+export function getPendingBatches(walletAddress: string, chainId: number): TransactionBatch[] {
+  const batches: TransactionBatch[] = [];
+
+  for (const bundle of getTransactionBundles(walletAddress)) {
+    const steps = getBatchableSteps(bundle);
+    if (steps.length === 0) continue;
+
+    batches.push({
+      bundleId: bundle.id,
+      label: bundle.label,
+      transactionIds: steps.map(tx => tx.id),
+      request: {
+        version: "2.0.0",
+        chainId: toHex(chainId),
+        from: walletAddress,
+        atomicRequired: true,
+        calls: steps.map(tx => ({
+          to: tx.to,
+          value: toHex(BigInt(tx.value || "0")),
+          ...(tx.data ? { data: tx.data } : {}),
+        })),
+      },
+    });
+  }
+
+  return batches;
+}